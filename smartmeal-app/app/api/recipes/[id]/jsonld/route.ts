@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRecipeRepository, findInRepository, recipeLoadErrorResponse, type RecipeRepository } from "@/lib/recipeRepository";
+import { serializeJsonLd, toSchemaOrgRecipe } from "@/lib/schemaOrgRecipe";
+import { apiErrorResponse } from "@/lib/apiErrors";
+import logger from "@/lib/debug";
+
+/**
+ * The recipe as a schema.org Recipe, downloaded as a .jsonld file
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const requestId = `req_${Math.random().toString(36).substring(7)}`;
+  const { id: rawId } = await context.params;
+
+  logger.info('API:RecipeJsonLd', 'Request received', { rawId, requestId });
+
+  let repository: RecipeRepository;
+  try {
+    repository = await getRecipeRepository();
+  } catch (loadError) {
+    return recipeLoadErrorResponse(loadError, requestId, 'API:RecipeJsonLd');
+  }
+
+  try {
+    const { recipe } = findInRepository(repository, rawId);
+    if (!recipe) {
+      logger.warn('API:RecipeJsonLd', 'Recipe not found', { rawId, requestId });
+      return apiErrorResponse("RECIPE_NOT_FOUND", { requestId, error: `Recipe "${rawId}" was not found.` });
+    }
+
+    const jsonLd = serializeJsonLd(toSchemaOrgRecipe(recipe, { baseUrl: process.env.NEXT_PUBLIC_APP_URL }));
+    logger.success('API:RecipeJsonLd', 'Response sent', { recipeId: recipe.id, requestId });
+
+    return new NextResponse(jsonLd, {
+      headers: {
+        "Content-Type": "application/ld+json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${recipe.id}.jsonld"`,
+      },
+    });
+  } catch (error) {
+    logger.error('API:RecipeJsonLd', 'Request failed', {
+      error: error instanceof Error ? error.message : String(error),
+      requestId,
+    }, error instanceof Error ? error : undefined);
+
+    return apiErrorResponse("RECIPE_DETAIL_ERROR", { requestId });
+  }
+}
@@ -2,10 +2,14 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import logger from "@/lib/debug";
-import { findRecipeById, generateIdSuggestions, logIdValidation } from "@/lib/recipeIdUtils";
-import type { DetailedRecipe } from "@/types/recipe";
-import { promises as fs } from 'fs';
-import path from 'path';
+import { generateIdSuggestions, logIdValidation } from "@/lib/recipeIdUtils";
+import { getRecipeRepository, findInRepository, getExactRecipe, recipeLoadErrorResponse, type RecipeRepository } from "@/lib/recipeRepository";
+import { deleteUserRecipe, updateUserRecipe } from "@/lib/userRecipeStore";
+import { recipeInputSchema } from "@/lib/recipeInput";
+import { apiErrorResponse, validationErrorResponse } from "@/lib/apiErrors";
+import { object, string, validate } from "@/lib/validation";
+
+const paramsSchema = object({ id: string({ trim: true, nonEmpty: true }) });
 
 // Define the context type explicitly
 interface ApiContext {
@@ -24,7 +28,7 @@ export async function GET(
     // --- TRY AWAITING PARAMS ---
     // Attempt to resolve context.params if it's a Promise
     const resolvedParams = await context.params;
-    rawId = resolvedParams.id; // Access id from the resolved object
+    rawId = resolvedParams?.id; // Access id from the resolved object
     // --- END AWAIT ---
 
     // Log request entry
@@ -34,63 +38,63 @@ export async function GET(
     });
 
     // Add an early check for undefined/empty rawId
-    if (!rawId) {
-      logger.error('API:RecipeDetail', 'Recipe ID is missing or invalid after resolving params.', { resolvedParams, contextParams: context.params, requestId });
-      return NextResponse.json(
-        {
-          error: "Invalid request: Recipe ID parameter is missing.",
-          code: "RECIPE_ID_MISSING",
-          statusCode: 400,
-          timestamp: new Date().toISOString(),
-          requestId,
-        },
-        { status: 400 }
-      );
+    const parsedParams = validate(paramsSchema, resolvedParams);
+    if (!parsedParams.ok) {
+      logger.error('API:RecipeDetail', 'Recipe ID is missing or invalid after resolving params.', { resolvedParams, fieldErrors: parsedParams.errors, requestId });
+      return validationErrorResponse("RECIPE_ID_MISSING", parsedParams.errors, requestId);
     }
+    const recipeId = parsedParams.value.id;
 
     // --- The rest of the function remains the same ---
 
-    // Load recipes from JSON file
-    logger.debug('API:RecipeDetail', 'Loading recipes from file');
-    const recipesPath = path.join(process.cwd(), "public", "data", "recipes.json");
-
-    let recipes: DetailedRecipe[];
+    // Load recipes from the shared repository
+    let repository: RecipeRepository;
     try {
-      const fileContent = await fs.readFile(recipesPath, "utf8");
-      recipes = JSON.parse(fileContent);
-      logger.debug('API:RecipeDetail', 'Recipes loaded successfully', { totalRecipes: recipes.length, requestId });
-    } catch (fileError) {
-      logger.error('API:RecipeDetail', 'Failed to read or parse recipes file', { /* ... error logging ... */ });
-      return NextResponse.json( /*... file error response ...*/ { status: 500 });
+      repository = await getRecipeRepository();
+    } catch (loadError) {
+      return recipeLoadErrorResponse(loadError, requestId, 'API:RecipeDetail');
     }
+    const recipes = repository.recipes;
 
     // Use fuzzy matching to find recipe
-    const { recipe, matchType, normalizedRequestedId, matchedId } = findRecipeById(
-      recipes,
-      rawId // Use the awaited ID
+    const { recipe, matchType, normalizedRequestedId, matchedId } = findInRepository(
+      repository,
+      recipeId // Use the validated ID
     );
 
     // Log ID validation details
     const sampleIds = recipes.slice(0, 5).map(r => r?.id || 'invalid_id').filter(id => id !== 'invalid_id');
-    logIdValidation(rawId, normalizedRequestedId, !!recipe, sampleIds);
+    logIdValidation(recipeId, normalizedRequestedId, !!recipe, sampleIds);
 
     // Handle case where recipe is not found
     if (!recipe) {
-      const suggestions = generateIdSuggestions(recipes, rawId, 3);
-      logger.warn('API:RecipeDetail', 'Recipe not found', { /* ... logging ... */ });
-      const processingTime = Date.now() - startTime;
-      return NextResponse.json( /*... 404 response ...*/ { status: 404 });
+      const suggestions = generateIdSuggestions(recipes, recipeId, 3);
+      logger.warn('API:RecipeDetail', 'Recipe not found', {
+        recipeId,
+        normalizedRequestedId,
+        suggestions: suggestions.map((suggestion) => suggestion.id),
+        processingTime: `${Date.now() - startTime}ms`,
+        requestId,
+      });
+      return apiErrorResponse("RECIPE_NOT_FOUND", {
+        requestId,
+        error: `Recipe "${recipeId}" was not found.`,
+        details: { suggestions },
+      });
     }
 
     // --- Success Case ---
     const processingTime = Date.now() - startTime;
-    // ... (Success logging and response logic - remains the same) ...
-     if (matchType !== 'exact') {
-       logger.warn('API:RecipeDetail', `Non-exact match used: ${matchType}`, { /*...*/ });
-     } else {
-       logger.success('API:RecipeDetail', 'Recipe found (exact match)', { /*...*/ });
-     }
-     return NextResponse.json({ recipe, /*...*/ }); // Default status is 200
+    if (matchType !== 'exact') {
+      logger.warn('API:RecipeDetail', `Non-exact match used: ${matchType}`, { recipeId, matchedId, requestId });
+    } else {
+      logger.success('API:RecipeDetail', 'Recipe found (exact match)', {
+        recipeId: matchedId,
+        processingTime: `${processingTime}ms`,
+        requestId,
+      });
+    }
+    return NextResponse.json({ recipe }); // Default status is 200
 
   } catch (error) { // General catch block
     const processingTime = Date.now() - startTime;
@@ -101,6 +105,131 @@ export async function GET(
         requestId,
       }, error instanceof Error ? error : undefined);
 
-    return NextResponse.json( /*... 500 error response ...*/ { status: 500 });
+    return apiErrorResponse("RECIPE_DETAIL_ERROR", { requestId });
+  }
+}
+
+/**
+ * Find the user recipe a PUT or DELETE targets. Only exact id matches count,
+ * and bundled recipes can't be changed. Returns the recipe id, or the error
+ * response to send.
+ */
+async function resolveUserRecipe(
+  context: ApiContext,
+  requestId: string,
+  logContext: string
+): Promise<{ recipeId: string } | { response: NextResponse }> {
+  const parsedParams = validate(paramsSchema, await context.params);
+  if (!parsedParams.ok) {
+    logger.warn(logContext, 'Recipe ID is missing or invalid', { fieldErrors: parsedParams.errors, requestId });
+    return { response: validationErrorResponse("RECIPE_ID_MISSING", parsedParams.errors, requestId) };
+  }
+  const requestedId = parsedParams.value.id;
+
+  let repository: RecipeRepository;
+  try {
+    repository = await getRecipeRepository();
+  } catch (loadError) {
+    return { response: recipeLoadErrorResponse(loadError, requestId, logContext) };
+  }
+
+  const recipe = getExactRecipe(repository, requestedId);
+  if (!recipe) {
+    logger.warn(logContext, 'Recipe not found', { requestedId, requestId });
+    return { response: apiErrorResponse("RECIPE_NOT_FOUND", { requestId, error: `Recipe "${requestedId}" was not found.` }) };
+  }
+  if (recipe.source !== "user") {
+    logger.warn(logContext, 'Attempted to change a bundled recipe', { recipeId: recipe.id, requestId });
+    return { response: apiErrorResponse("RECIPE_NOT_EDITABLE", { requestId }) };
+  }
+  return { recipeId: recipe.id };
+}
+
+/**
+ * Replace a user recipe; the body is a RecipeInput
+ */
+export async function PUT(request: NextRequest, context: ApiContext) {
+  const startTime = Date.now();
+  const requestId = `req_${Math.random().toString(36).substring(7)}`;
+
+  logger.info('API:RecipeUpdate', 'Request received', { requestId });
+
+  let rawBody: unknown;
+  try {
+    rawBody = await request.json();
+  } catch (parseError) {
+    logger.warn('API:RecipeUpdate', 'Validation failed: Unreadable body', {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      requestId,
+    });
+    return apiErrorResponse("INVALID_REQUEST_BODY", { requestId });
+  }
+
+  const parsed = validate(recipeInputSchema, rawBody);
+  if (!parsed.ok) {
+    logger.warn('API:RecipeUpdate', 'Validation failed', { fieldErrors: parsed.errors, requestId });
+    return validationErrorResponse("RECIPE_INVALID_INPUT", parsed.errors, requestId);
   }
-}
\ No newline at end of file
+
+  const target = await resolveUserRecipe(context, requestId, 'API:RecipeUpdate');
+  if ("response" in target) return target.response;
+
+  try {
+    const recipe = await updateUserRecipe(target.recipeId, parsed.value);
+    if (!recipe) {
+      // Deleted between the lookup and the write
+      return apiErrorResponse("RECIPE_NOT_FOUND", { requestId, error: `Recipe "${target.recipeId}" was not found.` });
+    }
+
+    logger.success('API:RecipeUpdate', 'Recipe updated', {
+      recipeId: recipe.id,
+      processingTime: `${Date.now() - startTime}ms`,
+      requestId,
+    });
+    return NextResponse.json({ recipe });
+  } catch (error) {
+    logger.error('API:RecipeUpdate', 'Failed to save recipe', {
+      recipeId: target.recipeId,
+      error: error instanceof Error ? error.message : String(error),
+      processingTime: `${Date.now() - startTime}ms`,
+      requestId,
+    }, error instanceof Error ? error : undefined);
+
+    return apiErrorResponse("RECIPE_SAVE_ERROR", { requestId });
+  }
+}
+
+/**
+ * Delete a user recipe
+ */
+export async function DELETE(request: NextRequest, context: ApiContext) {
+  const startTime = Date.now();
+  const requestId = `req_${Math.random().toString(36).substring(7)}`;
+
+  logger.info('API:RecipeDelete', 'Request received', { requestId });
+
+  const target = await resolveUserRecipe(context, requestId, 'API:RecipeDelete');
+  if ("response" in target) return target.response;
+
+  try {
+    if (!(await deleteUserRecipe(target.recipeId))) {
+      return apiErrorResponse("RECIPE_NOT_FOUND", { requestId, error: `Recipe "${target.recipeId}" was not found.` });
+    }
+
+    logger.success('API:RecipeDelete', 'Recipe deleted', {
+      recipeId: target.recipeId,
+      processingTime: `${Date.now() - startTime}ms`,
+      requestId,
+    });
+    return NextResponse.json({ recipeId: target.recipeId, deleted: true });
+  } catch (error) {
+    logger.error('API:RecipeDelete', 'Failed to delete recipe', {
+      recipeId: target.recipeId,
+      error: error instanceof Error ? error.message : String(error),
+      processingTime: `${Date.now() - startTime}ms`,
+      requestId,
+    }, error instanceof Error ? error : undefined);
+
+    return apiErrorResponse("RECIPE_SAVE_ERROR", { requestId });
+  }
+}
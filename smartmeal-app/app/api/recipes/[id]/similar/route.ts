@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRecipeRepository, findInRepository, recipeLoadErrorResponse, type RecipeRepository } from "@/lib/recipeRepository";
+import { findSimilarRecipes, DEFAULT_SIMILAR_LIMIT, DEFAULT_SIMILARITY_WEIGHTS, SIMILARITY_SIGNALS } from "@/lib/recipeSimilarity";
+import type { SimilarityWeights } from "@/types/recipe";
+import { apiErrorResponse, validationErrorResponse } from "@/lib/apiErrors";
+import { number, object, optional, refine, validateQuery } from "@/lib/validation";
+import logger from "@/lib/debug";
+
+const MAX_SIMILAR_LIMIT = 24;
+
+const weight = optional(number({ min: 0, coerce: true }));
+
+const similarQuerySchema = refine(
+  object({
+    limit: optional(number({ integer: true, min: 1, max: MAX_SIMILAR_LIMIT, coerce: true })),
+    ingredientsWeight: weight,
+    cuisineWeight: weight,
+    tagsWeight: weight,
+    nutritionWeight: weight,
+  }),
+  (query) => {
+    const weights = SIMILARITY_SIGNALS.map((signal) => query[`${signal}Weight`] ?? DEFAULT_SIMILARITY_WEIGHTS[signal]);
+    if (weights.every((value) => value === 0)) {
+      return [{ field: "weights", message: "At least one similarity weight must be greater than zero." }];
+    }
+  }
+);
+
+/**
+ * Recipes most like the given one.
+ * Query parameters: `limit` (1-24) and optional relative weights
+ * `ingredientsWeight`, `cuisineWeight`, `tagsWeight`, `nutritionWeight`.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const startTime = Date.now();
+  const requestId = `req_${Math.random().toString(36).substring(7)}`;
+  const { id: rawId } = await context.params;
+
+  logger.info('API:SimilarRecipes', 'Request received', { rawId, requestId });
+
+  // Validate the limit and weights; weights left out keep their default
+  const parsed = validateQuery(similarQuerySchema, request.nextUrl.searchParams);
+  if (!parsed.ok) {
+    logger.warn('API:SimilarRecipes', 'Validation failed', { fieldErrors: parsed.errors, requestId });
+    return validationErrorResponse("SIMILAR_RECIPES_INVALID_INPUT", parsed.errors, requestId);
+  }
+  const { limit = DEFAULT_SIMILAR_LIMIT, ...requestedWeights } = parsed.value;
+  const weights: SimilarityWeights = { ...DEFAULT_SIMILARITY_WEIGHTS };
+  SIMILARITY_SIGNALS.forEach((signal) => {
+    weights[signal] = requestedWeights[`${signal}Weight`] ?? weights[signal];
+  });
+
+  let repository: RecipeRepository;
+  try {
+    repository = await getRecipeRepository();
+  } catch (loadError) {
+    return recipeLoadErrorResponse(loadError, requestId, 'API:SimilarRecipes');
+  }
+
+  try {
+    const { recipe } = findInRepository(repository, rawId);
+    if (!recipe) {
+      logger.warn('API:SimilarRecipes', 'Recipe not found', { rawId, requestId });
+      return apiErrorResponse("RECIPE_NOT_FOUND", { requestId, error: `Recipe "${rawId}" was not found.` });
+    }
+
+    const recipes = findSimilarRecipes(recipe, repository.recipes, { limit, weights });
+    const processingTime = Date.now() - startTime;
+
+    logger.success('API:SimilarRecipes', 'Response sent', {
+      status: 200,
+      recipeId: recipe.id,
+      resultCount: recipes.length,
+      processingTime: `${processingTime}ms`,
+      requestId,
+    });
+
+    return NextResponse.json({
+      recipeId: recipe.id,
+      recipes,
+      count: recipes.length,
+      timestamp: new Date().toISOString(),
+      meta: {
+        processingTime: `${processingTime}ms`,
+        requestId,
+        weights,
+      },
+    });
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    logger.error('API:SimilarRecipes', 'Request failed', {
+      error: error instanceof Error ? error.message : String(error),
+      processingTime: `${processingTime}ms`,
+      requestId,
+    }, error instanceof Error ? error : undefined);
+
+    return apiErrorResponse("SIMILAR_RECIPES_ERROR", { requestId });
+  }
+}
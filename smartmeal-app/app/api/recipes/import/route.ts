@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRecipeRepository, recipeLoadErrorResponse, type RecipeRepository } from "@/lib/recipeRepository";
+import { findRecipeNode, importSchemaOrgRecipe, JsonLdParseError, parseJsonLd } from "@/lib/schemaOrgRecipe";
+import { createRecipeId, toUserRecipe } from "@/lib/recipeInput";
+import { apiErrorResponse, validationErrorResponse } from "@/lib/apiErrors";
+import { object, string, validate } from "@/lib/validation";
+import type { RecipeImportResult } from "@/types/recipe";
+import logger from "@/lib/debug";
+
+const importRequestSchema = object({
+  document: string({ trim: true, nonEmpty: true, maxLength: 1_000_000 }), // JSON-LD, or an HTML page containing it
+});
+
+/**
+ * Turn a schema.org Recipe (JSON-LD) into a recipe for review. Nothing is saved:
+ * the result goes to the editor, and is saved with POST /api/recipes.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = `req_${Math.random().toString(36).substring(7)}`;
+
+  logger.info('API:RecipeImport', 'Request received', { requestId });
+
+  let rawBody: unknown;
+  try {
+    rawBody = await request.json();
+  } catch (parseError) {
+    logger.warn('API:RecipeImport', 'Validation failed: Unreadable body', {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      requestId,
+    });
+    return apiErrorResponse("INVALID_REQUEST_BODY", { requestId });
+  }
+
+  const parsed = validate(importRequestSchema, rawBody);
+  if (!parsed.ok) {
+    logger.warn('API:RecipeImport', 'Validation failed', { fieldErrors: parsed.errors, requestId });
+    return validationErrorResponse("RECIPE_IMPORT_INVALID_INPUT", parsed.errors, requestId);
+  }
+
+  let recipeNode: ReturnType<typeof findRecipeNode>;
+  try {
+    recipeNode = findRecipeNode(parseJsonLd(parsed.value.document));
+  } catch (parseError) {
+    if (parseError instanceof JsonLdParseError) {
+      logger.warn('API:RecipeImport', 'Validation failed: Unreadable document', { error: parseError.message, requestId });
+      return validationErrorResponse("RECIPE_IMPORT_INVALID_INPUT", [{ field: "document", message: parseError.message }], requestId);
+    }
+    logger.error('API:RecipeImport', 'Reading the document failed', {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      processingTime: `${Date.now() - startTime}ms`,
+      requestId,
+    }, parseError instanceof Error ? parseError : undefined);
+    return apiErrorResponse("RECIPE_IMPORT_ERROR", { requestId });
+  }
+
+  if (!recipeNode) {
+    logger.warn('API:RecipeImport', 'No Recipe node in document', { requestId });
+    return apiErrorResponse("RECIPE_IMPORT_NO_RECIPE", { requestId });
+  }
+
+  let repository: RecipeRepository;
+  try {
+    repository = await getRecipeRepository();
+  } catch (loadError) {
+    return recipeLoadErrorResponse(loadError, requestId, 'API:RecipeImport');
+  }
+
+  try {
+    const { input, issues } = importSchemaOrgRecipe(recipeNode);
+    // The id it would be saved under today; POST /api/recipes assigns the real one
+    const recipe = toUserRecipe(input, createRecipeId(input.title, (id) => repository.byId.has(id)));
+    const processingTime = Date.now() - startTime;
+
+    logger.success('API:RecipeImport', 'Recipe imported', {
+      title: input.title,
+      ingredientCount: input.ingredients.length,
+      stepCount: input.instructions.length,
+      issueCount: issues.length,
+      processingTime: `${processingTime}ms`,
+      requestId,
+    });
+
+    const result: RecipeImportResult = { input, recipe, issues };
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('API:RecipeImport', 'Import failed', {
+      error: error instanceof Error ? error.message : String(error),
+      processingTime: `${Date.now() - startTime}ms`,
+      requestId,
+    }, error instanceof Error ? error : undefined);
+
+    return apiErrorResponse("RECIPE_IMPORT_ERROR", { requestId });
+  }
+}
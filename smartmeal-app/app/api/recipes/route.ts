@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRecipeRepository, recipeLoadErrorResponse, type RecipeRepository } from "@/lib/recipeRepository";
+import { createUserRecipe } from "@/lib/userRecipeStore";
+import { recipeInputSchema } from "@/lib/recipeInput";
+import { apiErrorResponse, validationErrorResponse } from "@/lib/apiErrors";
+import { object, oneOf, optional, validate, validateQuery } from "@/lib/validation";
+import type { RecipeSource } from "@/types/recipe";
+import logger from "@/lib/debug";
+
+const RECIPE_SOURCES: RecipeSource[] = ["bundled", "user"];
+
+const listQuerySchema = object({
+  source: optional(oneOf(RECIPE_SOURCES)), // Only bundled or only user recipes
+});
+
+/**
+ * All recipes, bundled and user-written (`?source=user` for just the user's own)
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = `req_${Math.random().toString(36).substring(7)}`;
+
+  const parsed = validateQuery(listQuerySchema, request.nextUrl.searchParams);
+  if (!parsed.ok) {
+    logger.warn('API:RecipeList', 'Validation failed', { fieldErrors: parsed.errors, requestId });
+    return validationErrorResponse("RECIPE_LIST_INVALID_INPUT", parsed.errors, requestId);
+  }
+  const { source } = parsed.value;
+
+  let repository: RecipeRepository;
+  try {
+    repository = await getRecipeRepository();
+  } catch (loadError) {
+    return recipeLoadErrorResponse(loadError, requestId, 'API:RecipeList');
+  }
+
+  const recipes = source
+    ? repository.recipes.filter((recipe) => (recipe.source || "bundled") === source)
+    : repository.recipes;
+  const processingTime = Date.now() - startTime;
+
+  logger.success('API:RecipeList', 'Response sent', {
+    source: source || "all",
+    count: recipes.length,
+    processingTime: `${processingTime}ms`,
+    requestId,
+  });
+
+  return NextResponse.json({
+    recipes,
+    count: recipes.length,
+    timestamp: new Date().toISOString(),
+    meta: {
+      processingTime: `${processingTime}ms`,
+      requestId,
+    },
+  });
+}
+
+/**
+ * Save a new user recipe; the body is a RecipeInput
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = `req_${Math.random().toString(36).substring(7)}`;
+
+  logger.info('API:RecipeCreate', 'Request received', { requestId });
+
+  let rawBody: unknown;
+  try {
+    rawBody = await request.json();
+  } catch (parseError) {
+    logger.warn('API:RecipeCreate', 'Validation failed: Unreadable body', {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      requestId,
+    });
+    return apiErrorResponse("INVALID_REQUEST_BODY", { requestId });
+  }
+
+  const parsed = validate(recipeInputSchema, rawBody);
+  if (!parsed.ok) {
+    logger.warn('API:RecipeCreate', 'Validation failed', { fieldErrors: parsed.errors, requestId });
+    return validationErrorResponse("RECIPE_INVALID_INPUT", parsed.errors, requestId);
+  }
+
+  let repository: RecipeRepository;
+  try {
+    repository = await getRecipeRepository();
+  } catch (loadError) {
+    return recipeLoadErrorResponse(loadError, requestId, 'API:RecipeCreate');
+  }
+
+  try {
+    const recipe = await createUserRecipe(parsed.value, (id) => repository.byId.has(id));
+    const processingTime = Date.now() - startTime;
+
+    logger.success('API:RecipeCreate', 'Recipe created', {
+      recipeId: recipe.id,
+      processingTime: `${processingTime}ms`,
+      requestId,
+    });
+
+    return NextResponse.json({ recipe }, { status: 201 });
+  } catch (error) {
+    logger.error('API:RecipeCreate', 'Failed to save recipe', {
+      error: error instanceof Error ? error.message : String(error),
+      processingTime: `${Date.now() - startTime}ms`,
+      requestId,
+    }, error instanceof Error ? error : undefined);
+
+    return apiErrorResponse("RECIPE_SAVE_ERROR", { requestId });
+  }
+}
@@ -1,104 +1,218 @@
 import { NextRequest, NextResponse } from "next/server";
-import { searchRecipes } from "@/lib/recipeSearch";
-import type { DetailedRecipe } from "@/types/recipe";
+import { searchRecipes, DEFAULT_MAX_MISSING } from "@/lib/recipeSearch";
+import { resolveIngredientList } from "@/lib/ingredientOntology";
+import { paginate, fingerprintQuery, InvalidCursorError } from "@/lib/pagination";
+import { HIGH_PROTEIN_CALORIE_SHARE } from "@/lib/nutritionCalculator";
+import type { CuisineType, DetailedRecipe, DietaryFilter, Difficulty, MealType, Nutrition, NutritionRanges, SearchMode, SortOption } from "@/types/recipe";
+import { getRecipeRepository, recipeLoadErrorResponse } from "@/lib/recipeRepository";
+import { getUnknownSearchParams, searchRequestFromParams } from "@/lib/searchQueryString";
+import { apiErrorResponse, validationErrorResponse } from "@/lib/apiErrors";
+import { array, boolean, number, numericRange, object, oneOf, optional, refine, string, validate, type Infer } from "@/lib/validation";
 import logger from "@/lib/debug";
-import { promises as fs } from "fs";
-import path from "path";
+
+const DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
+const MEAL_TYPES: MealType[] = ["Breakfast", "Lunch", "Dinner", "Snack"];
+const SEARCH_MODES: SearchMode[] = ["match", "cookNow"];
+const SORT_OPTIONS: SortOption[] = ["bestMatch", "quickest", "easiest", "fewestMissing", "topRated"];
+const NUTRIENTS: (keyof Nutrition)[] = ["calories", "protein", "carbs", "fats", "fiber", "sodium", "sugar"];
+
+const stringList = optional(array(string({ trim: true })));
+const range = optional(numericRange());
+
+const filtersSchema = object({
+  cuisine: optional(string({ trim: true })),
+  dietaryFilters: stringList,
+  excludeIngredients: stringList, // Names or groups such as "nuts"
+  difficulty: optional(array(oneOf(DIFFICULTIES), { allowSingle: true })),
+  mealTypes: optional(array(oneOf(MEAL_TYPES), { allowSingle: true })),
+  maxTime: optional(number({ min: 0 })), // Shorthand for a total time maximum (filter panel)
+  prepTime: range,
+  cookTime: range,
+  totalTime: range,
+  nutrition: optional(
+    object(Object.fromEntries(NUTRIENTS.map((nutrient) => [nutrient, range])) as Record<keyof Nutrition, typeof range>)
+  ),
+  highProtein: optional(boolean()), // Shorthand for minProteinShare = HIGH_PROTEIN_CALORIE_SHARE
+  minProteinShare: optional(number({ min: 0, max: 1 })),
+  sortBy: optional(oneOf(SORT_OPTIONS)),
+  minMatchPercentage: optional(number({ min: 0, max: 100 })),
+});
+
+// Same shape for POST bodies and (via searchRequestFromParams) GET query strings
+const searchRequestSchema = refine(
+  object({
+    ingredients: stringList,
+    query: optional(string({ trim: true, maxLength: 200 })), // Full-text query
+    filters: optional(filtersSchema),
+    mode: optional(oneOf(SEARCH_MODES)), // "cookNow" ranks by missing ingredients
+    maxMissing: optional(number({ integer: true, min: 0 })),
+    limit: optional(number({ integer: true, min: 1 })),
+    cursor: optional(string()),
+    page: optional(number({ integer: true, min: 1 })),
+    pageSize: optional(number({ integer: true, min: 1 })),
+    personalization: optional(
+      object({
+        preferredCuisines: stringList,
+        dietaryRestrictions: stringList,
+        favoriteIds: stringList,
+        dismissedIds: stringList,
+      })
+    ),
+    ratings: optional(
+      array(object({ recipeId: string({ trim: true, nonEmpty: true }), rating: number({ integer: true, min: 1, max: 5 }) }))
+    ),
+  }),
+  ({ ingredients = [], query, mode }) => {
+    // Either ingredients or a text query is required; "cook now" needs ingredients
+    const hasIngredients = ingredients.some(Boolean);
+    if (!hasIngredients && !query) {
+      return [{ field: "ingredients", message: "Please enter at least one ingredient or a search term." }];
+    }
+    if (mode === "cookNow" && !hasIngredients) {
+      return [{ field: "ingredients", message: "Enter the ingredients you have to find recipes you can cook now." }];
+    }
+  }
+);
+
+type SearchFilters = NonNullable<Infer<typeof filtersSchema>>;
+
+/**
+ * Turn validated filters into search parameters: expand the maxTime and
+ * highProtein shorthands and drop empty values
+ */
+function toSearchFilters(filters: Partial<SearchFilters>, isCookNow: boolean) {
+  const { maxTime, totalTime } = filters;
+  const nutrition: NutritionRanges = {};
+  NUTRIENTS.forEach((nutrient) => {
+    const nutrientRange = filters.nutrition?.[nutrient];
+    if (nutrientRange) nutrition[nutrient] = nutrientRange;
+  });
+
+  return {
+    cuisine: filters.cuisine as CuisineType | undefined,
+    dietaryFilters: (filters.dietaryFilters || []) as DietaryFilter[],
+    excludeIngredients: (filters.excludeIngredients || []).filter(Boolean),
+    difficulty: filters.difficulty?.length ? [...new Set(filters.difficulty)] : undefined,
+    mealTypes: filters.mealTypes?.length ? [...new Set(filters.mealTypes)] : undefined,
+    prepTime: filters.prepTime,
+    cookTime: filters.cookTime,
+    totalTime:
+      maxTime === undefined
+        ? totalTime
+        : { ...totalTime, max: totalTime?.max === undefined ? maxTime : Math.min(totalTime.max, maxTime) },
+    nutrition: Object.keys(nutrition).length > 0 ? nutrition : undefined,
+    minProteinShare: filters.minProteinShare ?? (filters.highProtein ? HIGH_PROTEIN_CALORIE_SHARE : undefined),
+    sortBy: filters.sortBy || (isCookNow ? "fewestMissing" : "bestMatch"),
+    minMatchPercentage: filters.minMatchPercentage ?? 1,
+  };
+}
 
 export async function POST(request: NextRequest) {
+  return handleSearch("POST", () => request.json());
+}
+
+/**
+ * Same search with its parameters in the query string, so a search can be linked to
+ * (see lib/searchQueryString.ts for the parameter names)
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  return handleSearch("GET", async () => ({
+    ...searchRequestFromParams(params),
+    // Carried through so validation reports them instead of dropping them
+    ...Object.fromEntries(getUnknownSearchParams(params).map((name) => [name, params.get(name)])),
+  }));
+}
+
+/**
+ * Validate a search request, run it and return one page of results
+ */
+async function handleSearch(method: "GET" | "POST", readBody: () => Promise<unknown>) {
   const startTime = Date.now();
   const requestId = `req_${Math.random().toString(36).substring(7)}`;
-  const recipesPath = path.join(process.cwd(), "public", "data", "recipes.json");
 
   let allRecipes: DetailedRecipe[];
   try {
-    const file = await fs.readFile(recipesPath, "utf8");
-    allRecipes = JSON.parse(file);
-    logger.debug('API:RecipeSearch', 'Recipes loaded successfully (async)', {
-      totalRecipes: allRecipes.length,
-      requestId,
-    });
-  } catch (fileError) {
-    logger.error('API:RecipeSearch', 'Failed to read recipes file (async)', {
-      path: recipesPath,
-      error: fileError instanceof Error ? fileError.message : String(fileError),
-      requestId,
-    }, fileError instanceof Error ? fileError : undefined);
-    return NextResponse.json(
-      { 
-        error: "We're having trouble loading recipes. Please try again in a moment.",
-        code: "RECIPE_FILE_READ_ERROR",
-        statusCode: 500,
-        timestamp: new Date().toISOString(),
-        requestId,
-      },
-      { status: 500 }
-    );
+    ({ recipes: allRecipes } = await getRecipeRepository());
+  } catch (loadError) {
+    return recipeLoadErrorResponse(loadError, requestId, 'API:RecipeSearch');
   }
 
   try {
     // Log request entry
-    logger.info('API:RecipeSearch', 'Request received', { requestId });
-    
-    const body = await request.json();
-    const { ingredients, filters } = body;
+    logger.info('API:RecipeSearch', 'Request received', { method, requestId });
+
+    let rawBody: unknown;
+    try {
+      rawBody = await readBody();
+    } catch (parseError) {
+      logger.warn('API:RecipeSearch', 'Validation failed: Unreadable body', {
+        error: parseError instanceof Error ? parseError.message : String(parseError),
+        requestId,
+      });
+      return apiErrorResponse("INVALID_REQUEST_BODY", { requestId });
+    }
+
+    // Validate the whole request; unknown fields and filters are rejected
+    const parsed = validate(searchRequestSchema, rawBody);
+    if (!parsed.ok) {
+      logger.warn('API:RecipeSearch', 'Validation failed', { fieldErrors: parsed.errors, requestId });
+      return validationErrorResponse("RECIPE_SEARCH_INVALID_INPUT", parsed.errors, requestId);
+    }
+
+    const { query, filters = {}, mode = "match", maxMissing, limit, cursor, page, pageSize, personalization, ratings } = parsed.value;
+    const ingredients = (parsed.value.ingredients || []).filter(Boolean);
+    const textQuery = query || "";
+    const isCookNow = mode === "cookNow";
 
     // Log request parameters
     logger.debug('API:RecipeSearch', 'Request parameters', {
       ingredients,
+      query: textQuery,
       filters,
       requestId,
     });
 
-    // Validate ingredients
-    if (!ingredients || !Array.isArray(ingredients)) {
-      logger.warn('API:RecipeSearch', 'Validation failed: Invalid ingredients', {
-        received: ingredients,
-        expectedType: 'array',
-        requestId,
-      });
-      return NextResponse.json(
-        { 
-          error: "Please enter at least one ingredient to search.",
-          code: "RECIPE_SEARCH_INVALID_INPUT",
-          statusCode: 400,
-          timestamp: new Date().toISOString(),
-          requestId,
-        },
-        { status: 400 }
-      );
-    }
-
-    if (ingredients.length === 0) {
-      logger.warn('API:RecipeSearch', 'Validation failed: Empty ingredients array', {
-        requestId,
-      });
-      return NextResponse.json(
-        { 
-          error: "Please enter at least one ingredient to search.",
-          code: "RECIPE_SEARCH_INVALID_INPUT",
-          statusCode: 400,
-          timestamp: new Date().toISOString(),
-          requestId,
-        },
-        { status: 400 }
-      );
-    }
+    // Resolve user ingredients against the ontology (synonyms, plurals, variants)
+    const resolvedIngredients = resolveIngredientList(ingredients);
+    logger.debug('API:RecipeSearch', 'Ingredients resolved', {
+      resolved: resolvedIngredients.map((ing) => `${ing.input} -> ${ing.canonical}`),
+      requestId,
+    });
 
     // Execute search
     logger.debug('API:RecipeSearch', 'Executing search algorithm');
+    const appliedFilters = toSearchFilters(filters, isCookNow);
     const results = await searchRecipes(allRecipes, {
-      ingredients,
-      cuisine: filters?.cuisine,
-      dietaryFilters: filters?.dietaryFilters || [],
-      sortBy: filters?.sortBy || "bestMatch",
-      minMatchPercentage: filters?.minMatchPercentage || 1,
+      ingredients: resolvedIngredients.map((ing) => ing.input),
+      query: textQuery,
+      mode,
+      maxMissing,
+      ...appliedFilters,
+      personalization,
+      ratings,
     });
 
+    // Slice out the requested page; cursors are tied to this exact search
+    const fingerprint = fingerprintQuery({ ingredients, query: textQuery, filters, mode, maxMissing, personalization, ratings });
+    let resultPage;
+    try {
+      resultPage = paginate(results.recipes, { limit, cursor, page, pageSize }, fingerprint);
+    } catch (cursorError) {
+      if (!(cursorError instanceof InvalidCursorError)) throw cursorError;
+      logger.warn('API:RecipeSearch', 'Validation failed: Invalid cursor', { cursor, requestId });
+      return apiErrorResponse("RECIPE_SEARCH_INVALID_CURSOR", {
+        requestId,
+        error: cursorError.message,
+        fieldErrors: [{ field: "cursor", message: cursorError.message }],
+      });
+    }
+
     // Log search results
     logger.debug('API:RecipeSearch', 'Search completed', {
       matchesFound: results.totalMatches,
-      recipesReturned: results.recipes.length,
+      recipesReturned: resultPage.items.length,
+      offset: resultPage.pageInfo.offset,
       requestId,
     });
 
@@ -113,12 +227,26 @@ export async function POST(request: NextRequest) {
     });
 
     return NextResponse.json({
-      recipes: results.recipes,
+      recipes: resultPage.items,
       count: results.totalMatches,
+      facets: results.facets,
+      hasMore: resultPage.pageInfo.hasMore,
+      nextCursor: resultPage.pageInfo.nextCursor,
+      pagination: resultPage.pageInfo,
       timestamp: new Date().toISOString(),
       meta: {
         processingTime: `${processingTime}ms`,
         requestId,
+        query: textQuery || undefined,
+        mode,
+        maxMissing: isCookNow ? maxMissing ?? DEFAULT_MAX_MISSING : undefined,
+        appliedFilters,
+        personalization: results.personalization ? { enabled: true, ...results.personalization } : { enabled: false },
+        resolvedIngredients: resolvedIngredients.map((ing) => ({
+          input: ing.input,
+          canonical: ing.canonical,
+          known: ing.known,
+        })),
       },
     });
   } catch (error) {
@@ -129,15 +257,6 @@ export async function POST(request: NextRequest) {
       requestId,
     }, error instanceof Error ? error : undefined);
     
-    return NextResponse.json(
-      { 
-        error: "Failed to search recipes. Please try again.",
-        code: "RECIPE_SEARCH_ERROR",
-        statusCode: 500,
-        timestamp: new Date().toISOString(),
-        requestId,
-      },
-      { status: 500 }
-    );
+    return apiErrorResponse("RECIPE_SEARCH_ERROR", { requestId });
   }
 }
\ No newline at end of file
@@ -26,6 +26,9 @@ export default function Dashboard() {
               <Link href="/favorites" className="text-neutral hover:text-foreground">
                 Favorites
               </Link>
+              <Link href="/history" className="text-neutral hover:text-foreground">
+                History
+              </Link>
               <Link href="/profile" className="text-neutral hover:text-foreground">
                 Profile
               </Link>
@@ -82,6 +85,12 @@ export default function Dashboard() {
               href="/search"
               icon="🔍"
             />
+            <ActionCard
+              title="Write a Recipe"
+              description="Add your own recipe"
+              href="/recipes/new"
+              icon="✍️"
+            />
            
             <ActionCard
               title="Shopping List"
@@ -95,6 +104,12 @@ export default function Dashboard() {
               href="/favorites"
               icon="⭐"
             />
+            <ActionCard
+              title="Cooking History"
+              description="What you cooked and when"
+              href="/history"
+              icon="🍳"
+            />
             <ActionCard
               title="Set Goals"
               description="Configure nutrition targets"
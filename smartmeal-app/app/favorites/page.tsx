@@ -1,29 +1,47 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 // --- Add necessary imports ---
 import { useRouter, useSearchParams } from 'next/navigation'; //
 import { useMealPlan } from "@/contexts/MealPlanContext"; //
+import { useFavorites } from "@/contexts/FavoritesContext";
 import type { MealSlot, DayOfWeek, MealType } from "@/types/mealPlan"; //
 import type { Recipe, DetailedRecipe } from "@/types/recipe"; // Import DetailedRecipe
 // --- Keep existing imports ---
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"; //
 import { Button } from "@/components/ui/button"; //
 import { Badge } from "@/components/ui/badge"; //
+import { Input } from "@/components/ui/input";
 import Image from "next/image"; //
 import logger from "@/lib/debug"; // Optional: Add logging
 
 export default function FavoritesPage() {
-  const [favorites, setFavorites] = useState<Recipe[]>([]); // Keep state for favorite recipes (using basic Recipe type for display)
   const [allRecipes, setAllRecipes] = useState<DetailedRecipe[]>([]); // Add state for all recipe details (needed for MealSlot)
   const [loading, setLoading] = useState(true); //
   const [filterCuisine, setFilterCuisine] = useState<string>("All"); //
   const [filterDifficulty, setFilterDifficulty] = useState<string>("All"); //
+  const [filterCollection, setFilterCollection] = useState<string>("All"); // A collection id, or "All"
+  const [managingCollections, setManagingCollections] = useState(false);
+  const [newCollectionName, setNewCollectionName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null); // Collection being renamed
 
   // --- Get router, searchParams and context functions ---
   const router = useRouter(); //
   const searchParams = useSearchParams(); //
   const { updateMealSlot } = useMealPlan(); //
+  const {
+    favorites: favoriteIds,
+    collections,
+    removeFavorite: removeFromFavorites,
+    clearFavorites,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    moveCollection,
+    addToCollection,
+    removeFromCollection,
+    getCollectionsFor,
+  } = useFavorites();
 
   // Check if we are in "add to plan" mode by reading URL params
   const targetDay = searchParams.get('targetDay') as DayOfWeek | null; //
@@ -34,44 +52,11 @@ export default function FavoritesPage() {
     async function loadData() {
       setLoading(true); //
       try {
-        // Load favorite IDs from localStorage
-        const stored = localStorage.getItem("smartmeal_favorites"); //
-        const favoriteIds: string[] = stored ? JSON.parse(stored) : []; //
-
-        if (favoriteIds.length === 0) {
-          setLoading(false); //
-          setAllRecipes([]); // Ensure allRecipes is empty if no favorites
-          return;
-        }
-
         // Load full recipe data (needed for nutrition details when adding to plan)
-        const response = await fetch("/data/recipes.json"); // Fetch detailed recipes
-        if (!response.ok) throw new Error("Failed to load recipes.json"); // Add error check
-        const loadedAllRecipes: DetailedRecipe[] = await response.json(); //
+        const response = await fetch("/api/recipes"); // Bundled and user-written recipes
+        if (!response.ok) throw new Error(`Failed to load recipes: ${response.status}`); // Add error check
+        const { recipes: loadedAllRecipes }: { recipes: DetailedRecipe[] } = await response.json(); //
         setAllRecipes(loadedAllRecipes); // Store all detailed recipes
-
-        // Filter favorite recipes from the full list
-        const favoriteDetailedRecipes = loadedAllRecipes.filter((r) =>
-          favoriteIds.includes(r.id) //
-        );
-        // Map DetailedRecipe to the basic Recipe type for display in cards if needed
-        const favoriteDisplayRecipes = favoriteDetailedRecipes.map(dr => ({
-            id: dr.id, //
-            title: dr.title, //
-            image: dr.image, //
-            prepTime: dr.prepTime, //
-            cookTime: dr.cookTime, //
-            totalTime: dr.totalTime, //
-            servings: dr.servings, //
-            difficulty: dr.difficulty, //
-            mealType: dr.mealType, //
-            cuisine: dr.cuisine, //
-             // Add matchPercentage if your RecipeCard uses it, default to 0
-            matchPercentage: 0,
-            // availableIngredients/missingIngredients are usually from search, omit here
-        }));
-        setFavorites(favoriteDisplayRecipes); // Set the display list
-
       } catch (error) {
         logger.error("FavoritesPage:Load", "Failed to load favorites or recipes", {}, error instanceof Error ? error : undefined); //
       } finally {
@@ -81,6 +66,27 @@ export default function FavoritesPage() {
     loadData();
   }, []); // Run once on mount
 
+  // Favorite recipes from the full list, mapped to the basic Recipe type for the cards
+  const favorites = useMemo<Recipe[]>(
+    () =>
+      allRecipes
+        .filter((r) => favoriteIds.includes(r.id))
+        .map((dr) => ({
+          id: dr.id,
+          title: dr.title,
+          image: dr.image,
+          prepTime: dr.prepTime,
+          cookTime: dr.cookTime,
+          totalTime: dr.totalTime,
+          servings: dr.servings,
+          difficulty: dr.difficulty,
+          mealType: dr.mealType,
+          cuisine: dr.cuisine,
+          matchPercentage: 0,
+        })),
+    [allRecipes, favoriteIds]
+  );
+
   // --- New Handler for Clicking a Recipe Card ---
   const handleRecipeClick = (recipeId: string) => {
     if (isAddingToPlanMode && targetDay && targetMeal) {
@@ -122,23 +128,46 @@ export default function FavoritesPage() {
 
 
   const removeFavorite = (recipeId: string) => {
-    // Keep existing removeFavorite logic...
-    const updated = favorites.filter((r) => r.id !== recipeId); //
-    setFavorites(updated); //
-    const favoriteIds = updated.map((r) => r.id); //
-    localStorage.setItem("smartmeal_favorites", JSON.stringify(favoriteIds)); //
+    removeFromFavorites(recipeId);
     logger.info("FavoritesPage:RemoveFav", `Removed ${recipeId} from favorites`); //
   };
 
   const clearAll = () => {
-    // Keep existing clearAll logic...
     if (confirm("Are you sure you want to clear all favorites?")) { //
-      setFavorites([]); //
-      localStorage.setItem("smartmeal_favorites", JSON.stringify([])); //
+      clearFavorites();
       logger.info("FavoritesPage:ClearAll", "Cleared all favorites"); //
     }
   };
 
+  // --- Collections ---
+  const handleCreateCollection = () => {
+    const collectionId = createCollection(newCollectionName);
+    if (!collectionId) return;
+    setNewCollectionName("");
+    logger.info("FavoritesPage:Collections", `Created collection "${newCollectionName.trim()}"`);
+  };
+
+  const handleRenameCollection = () => {
+    if (!renaming) return;
+    renameCollection(renaming.id, renaming.name);
+    setRenaming(null);
+  };
+
+  const handleDeleteCollection = (collectionId: string, name: string) => {
+    if (!confirm(`Delete the collection "${name}"? Its recipes stay in your favorites.`)) return;
+    deleteCollection(collectionId);
+    if (filterCollection === collectionId) setFilterCollection("All");
+    logger.info("FavoritesPage:Collections", `Deleted collection "${name}"`);
+  };
+
+  const toggleInCollection = (collectionId: string, recipeId: string, isInCollection: boolean) => {
+    if (isInCollection) {
+      removeFromCollection(collectionId, recipeId);
+    } else {
+      addToCollection(collectionId, recipeId);
+    }
+  };
+
   // Keep filtering logic...
   const cuisines = ["All", ...new Set(favorites.map((r) => r.cuisine))]; //
   const difficulties = ["All", "Easy", "Medium", "Hard"]; //
@@ -146,6 +175,7 @@ export default function FavoritesPage() {
       // ... keep filter checks ...
       if (filterCuisine !== "All" && recipe.cuisine !== filterCuisine) return false; //
       if (filterDifficulty !== "All" && recipe.difficulty !== filterDifficulty) return false; //
+      if (filterCollection !== "All" && !collections.find((c) => c.id === filterCollection)?.recipeIds.includes(recipe.id)) return false;
       return true; //
   });
 
@@ -220,6 +250,86 @@ export default function FavoritesPage() {
                   </div>
              </div>
            )}
+
+           {/* Collections */}
+           {favorites.length > 0 && (
+             <div className="mt-4 space-y-3">
+               <div className="flex flex-wrap items-center gap-2" role="radiogroup" aria-label="Collection">
+                 <Button
+                   variant={filterCollection === "All" ? "primary" : "ghost"}
+                   size="sm"
+                   role="radio"
+                   aria-checked={filterCollection === "All"}
+                   onClick={() => setFilterCollection("All")}
+                 >
+                   All favorites ({favorites.length})
+                 </Button>
+                 {collections.map((collection) => (
+                   <Button
+                     key={collection.id}
+                     variant={filterCollection === collection.id ? "primary" : "ghost"}
+                     size="sm"
+                     role="radio"
+                     aria-checked={filterCollection === collection.id}
+                     onClick={() => setFilterCollection(collection.id)}
+                   >
+                     📁 {collection.name} ({collection.recipeIds.filter((id) => favoriteIds.includes(id)).length})
+                   </Button>
+                 ))}
+                 {!isAddingToPlanMode && (
+                   <Button variant="secondary" size="sm" onClick={() => setManagingCollections(!managingCollections)} aria-expanded={managingCollections}>
+                     {managingCollections ? "Done" : "Manage collections"}
+                   </Button>
+                 )}
+               </div>
+
+               {managingCollections && (
+                 <div className="rounded-lg border p-4 space-y-3 max-w-xl">
+                   {collections.length > 0 && (
+                     <ol className="space-y-2" aria-label="Collections">
+                       {collections.map((collection, index) => (
+                         <li key={collection.id} className="flex items-center gap-2">
+                           {renaming?.id === collection.id ? (
+                             <>
+                               <Input
+                                 value={renaming.name}
+                                 onChange={(e) => setRenaming({ id: collection.id, name: e.target.value })}
+                                 onKeyDown={(e) => { if (e.key === "Enter") handleRenameCollection(); }}
+                                 aria-label={`New name for ${collection.name}`}
+                                 autoFocus
+                               />
+                               <Button variant="primary" size="sm" onClick={handleRenameCollection} disabled={!renaming.name.trim()}>Save</Button>
+                               <Button variant="ghost" size="sm" onClick={() => setRenaming(null)}>Cancel</Button>
+                             </>
+                           ) : (
+                             <>
+                               <span className="flex-1 font-medium">{collection.name}</span>
+                               <Button variant="ghost" size="sm" onClick={() => moveCollection(collection.id, -1)} disabled={index === 0} aria-label={`Move ${collection.name} up`}>↑</Button>
+                               <Button variant="ghost" size="sm" onClick={() => moveCollection(collection.id, 1)} disabled={index === collections.length - 1} aria-label={`Move ${collection.name} down`}>↓</Button>
+                               <Button variant="ghost" size="sm" onClick={() => setRenaming({ id: collection.id, name: collection.name })}>✏️ Rename</Button>
+                               <Button variant="ghost" size="sm" onClick={() => handleDeleteCollection(collection.id, collection.name)}>🗑 Delete</Button>
+                             </>
+                           )}
+                         </li>
+                       ))}
+                     </ol>
+                   )}
+                   <div className="flex gap-2">
+                     <Input
+                       value={newCollectionName}
+                       onChange={(e) => setNewCollectionName(e.target.value)}
+                       onKeyDown={(e) => { if (e.key === "Enter") handleCreateCollection(); }}
+                       placeholder='New collection, e.g. "Weeknight"'
+                       aria-label="New collection name"
+                     />
+                     <Button variant="primary" size="sm" onClick={handleCreateCollection} disabled={!newCollectionName.trim()}>
+                       + Create
+                     </Button>
+                   </div>
+                 </div>
+               )}
+             </div>
+           )}
         </div>
       </div>
 
@@ -228,7 +338,13 @@ export default function FavoritesPage() {
         {favorites.length === 0 ? (
            <Card> {/* No favorites yet */} </Card>
         ) : filteredFavorites.length === 0 ? (
-           <Card> {/* No matching filters */} </Card>
+           <Card>
+             <CardContent className="py-12 text-center text-muted-foreground">
+               {filterCollection !== "All" && filterCuisine === "All" && filterDifficulty === "All"
+                 ? "This collection is empty. Add recipes to it from the cards under \"All favorites\"."
+                 : "No favorites match these filters."}
+             </CardContent>
+           </Card>
         ) : (
           /* Recipe Grid */
           <>
@@ -313,6 +429,7 @@ export default function FavoritesPage() {
 
                      {/* --- Conditionally hide/change buttons in Add mode --- */}
                      {!isAddingToPlanMode ? (
+                        <>
                           <div className="flex gap-2 pt-2">
                              {/* In normal mode, the card click handles navigation, so button is just visual */}
                              <Button
@@ -326,6 +443,32 @@ export default function FavoritesPage() {
                              {/* You might want a button to add to plan directly from here too eventually */}
                              <Button variant="secondary" size="sm" disabled> + Plan </Button>
                           </div>
+                          {/* File the recipe in any number of collections */}
+                          {collections.length > 0 && (
+                            <details className="mt-3 text-sm" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+                              <summary className="cursor-pointer text-muted-foreground hover:text-primary">
+                                📁 {getCollectionsFor(recipe.id).map((c) => c.name).join(", ") || "Add to a collection"}
+                              </summary>
+                              <ul className="mt-2 space-y-1">
+                                {collections.map((collection) => {
+                                  const isInCollection = collection.recipeIds.includes(recipe.id);
+                                  return (
+                                    <li key={collection.id}>
+                                      <label className="flex items-center gap-2 cursor-pointer">
+                                        <input
+                                          type="checkbox"
+                                          checked={isInCollection}
+                                          onChange={() => toggleInCollection(collection.id, recipe.id, isInCollection)}
+                                        />
+                                        {collection.name}
+                                      </label>
+                                    </li>
+                                  );
+                                })}
+                              </ul>
+                            </details>
+                          )}
+                        </>
                      ) : (
                           // Visual indicator for add mode
                           <div className="mt-2 text-center p-2 bg-primary/10 rounded text-primary font-semibold border border-primary/30">
@@ -0,0 +1,209 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { StarRating } from "@/components/recipes/StarRating";
+import { useCookingHistory } from "@/contexts/CookingHistoryContext";
+import { filterCookingHistory, getCookingStats, isNotCookedInAWhile } from "@/lib/cookingHistory";
+import logger from "@/lib/debug";
+
+const PERIODS: { value: string; label: string; days?: number }[] = [
+  { value: "all", label: "All time" },
+  { value: "7", label: "Last 7 days", days: 7 },
+  { value: "30", label: "Last 30 days", days: 30 },
+  { value: "90", label: "Last 3 months", days: 90 },
+  { value: "365", label: "Last year", days: 365 },
+];
+
+const RATINGS: { value: string; label: string; min?: number }[] = [
+  { value: "any", label: "Any rating" },
+  { value: "3", label: "3 stars and up", min: 3 },
+  { value: "4", label: "4 stars and up", min: 4 },
+  { value: "5", label: "5 stars", min: 5 },
+];
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString("en-US", { weekday: "short", year: "numeric", month: "short", day: "numeric" });
+
+export default function CookingHistoryPage() {
+  const { entries, stats, removeEntry, clearHistory } = useCookingHistory();
+  const [query, setQuery] = useState("");
+  const [period, setPeriod] = useState("all");
+  const [minRating, setMinRating] = useState("any");
+
+  // Cooks matching the filters, and the per-recipe counts over just those cooks
+  const filteredEntries = useMemo(
+    () =>
+      filterCookingHistory(entries, {
+        query,
+        sinceDays: PERIODS.find((option) => option.value === period)?.days,
+        minRating: RATINGS.find((option) => option.value === minRating)?.min,
+      }),
+    [entries, query, period, minRating]
+  );
+  const recipeStats = useMemo(
+    () =>
+      Object.values(getCookingStats(filteredEntries)).sort(
+        (a, b) => b.timesCooked - a.timesCooked || (a.lastCookedAt < b.lastCookedAt ? 1 : -1)
+      ),
+    [filteredEntries]
+  );
+  const isFiltered = query.trim() !== "" || period !== "all" || minRating !== "any";
+
+  const handleClearAll = () => {
+    if (confirm("Are you sure you want to clear your whole cooking history?")) {
+      clearHistory();
+      logger.info("CookingHistory:ClearAll", "Cleared the cooking history");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="container mx-auto px-6 py-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">Cooking History</h1>
+              <p className="text-muted-foreground">
+                {entries.length} cooks of {Object.keys(stats).length} recipes
+              </p>
+            </div>
+            {entries.length > 0 && (
+              <Button variant="ghost" onClick={handleClearAll}>
+                🗑 Clear History
+              </Button>
+            )}
+          </div>
+
+          {/* Filters */}
+          {entries.length > 0 && (
+            <div className="flex flex-wrap gap-4">
+              <div>
+                <label htmlFor="history-query" className="block text-sm font-medium mb-2">Recipe</label>
+                <Input
+                  id="history-query"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search by name"
+                />
+              </div>
+              <div>
+                <label htmlFor="history-period" className="block text-sm font-medium mb-2">Cooked</label>
+                <select
+                  id="history-period"
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {PERIODS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="history-rating" className="block text-sm font-medium mb-2">Rating</label>
+                <select
+                  id="history-rating"
+                  value={minRating}
+                  onChange={(e) => setMinRating(e.target.value)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {RATINGS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="container mx-auto px-6 py-8">
+        {entries.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center space-y-4">
+              <p className="text-muted-foreground">
+                Nothing cooked yet. Tap &quot;Cooked it&quot; on a recipe, or finish its last step in step-by-step mode.
+              </p>
+              <Link href="/search" className="text-primary hover:underline">Find something to cook →</Link>
+            </CardContent>
+          </Card>
+        ) : filteredEntries.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">No cooks match these filters.</CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Per-recipe counts */}
+            <Card className="lg:col-span-1 self-start">
+              <CardHeader>
+                <CardTitle>By Recipe</CardTitle>
+                {isFiltered && <p className="text-sm text-muted-foreground">Counting the {filteredEntries.length} matching cooks</p>}
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-4" aria-label="Recipes cooked">
+                  {recipeStats.map((recipe) => (
+                    <li key={recipe.recipeId} className="border-b pb-3 last:border-b-0">
+                      <Link href={`/recipes/${encodeURIComponent(recipe.recipeId)}`} className="font-medium hover:text-primary">
+                        {recipe.recipeName}
+                      </Link>
+                      <div className="text-sm text-muted-foreground">
+                        {recipe.timesCooked} time{recipe.timesCooked === 1 ? "" : "s"} cooked · last {formatDate(recipe.lastCookedAt)}
+                      </div>
+                      <div className="flex items-center gap-2 mt-1">
+                        {recipe.averageRating && (
+                          <span className="text-sm text-muted-foreground">★ {recipe.averageRating} average</span>
+                        )}
+                        {isNotCookedInAWhile(stats[recipe.recipeId]?.lastCookedAt) && (
+                          <Badge variant="warning" size="sm">Not cooked in a while</Badge>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            {/* The log itself, newest first */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Log</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Showing {filteredEntries.length} of {entries.length} cooks
+                </p>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y" aria-label="Cooking log">
+                  {filteredEntries.map((entry) => (
+                    <li key={entry.id} className="flex items-center justify-between gap-4 py-3">
+                      <div>
+                        <time dateTime={entry.cookedAt} className="block text-xs text-muted-foreground">
+                          {formatDate(entry.cookedAt)}
+                        </time>
+                        <Link href={`/recipes/${encodeURIComponent(entry.recipeId)}`} className="font-medium hover:text-primary">
+                          {entry.recipeName}
+                        </Link>
+                        <div className="text-sm text-muted-foreground">{entry.servings} servings</div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {entry.rating && <StarRating rating={entry.rating} />}
+                        <Button variant="ghost" size="sm" onClick={() => removeEntry(entry.id)} aria-label={`Remove ${entry.recipeName} cooked ${formatDate(entry.cookedAt)}`}>
+                          ✕
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
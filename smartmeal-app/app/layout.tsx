@@ -7,6 +7,8 @@ import { ErrorBoundary } from "@/components/common/ErrorBoundary";
 
 // Import your context providers
 import { FavoritesProvider } from "@/contexts/FavoritesContext";
+import { RecipeFeedbackProvider } from "@/contexts/RecipeFeedbackContext";
+import { CookingHistoryProvider } from "@/contexts/CookingHistoryContext";
 import { MealPlanProvider } from "@/contexts/MealPlanContext";
 import { ShoppingListProvider } from "@/contexts/ShoppingListContext";
 import { ProfileProvider } from "@/contexts/ProfileContext";
@@ -31,12 +33,16 @@ export default function RootLayout({
         <ErrorBoundary level="root" context="RootLayout">
           <ProfileProvider>
             <FavoritesProvider>
-              <MealPlanProvider>
-                <ShoppingListProvider>
-                  <SkipLink href="#main-content">Skip to main content</SkipLink>
-                  {children}
-                </ShoppingListProvider>
-              </MealPlanProvider>
+              <RecipeFeedbackProvider>
+                <CookingHistoryProvider>
+                  <MealPlanProvider>
+                    <ShoppingListProvider>
+                      <SkipLink href="#main-content">Skip to main content</SkipLink>
+                      {children}
+                    </ShoppingListProvider>
+                  </MealPlanProvider>
+                </CookingHistoryProvider>
+              </RecipeFeedbackProvider>
             </FavoritesProvider>
           </ProfileProvider>
         </ErrorBoundary>
@@ -13,6 +13,8 @@ import type { ShoppingItem, IngredientCategory } from "@/types/shopping";
 import { aggregateNutrition } from "@/lib/nutritionCalculator";
 import { useMealPlan } from "@/contexts/MealPlanContext";
 import { useShoppingList } from "@/contexts/ShoppingListContext";
+import { convertAmount } from "@/lib/unitConversion";
+import { getScaleFactor, scaleIngredient } from "@/lib/recipeScaling";
 import { categorizeIngredient } from "@/lib/categoryClassifier";
 import logger from "@/lib/debug"; // Assuming you have this configured
 // --- Import jsPDF and autoTable ---
@@ -67,11 +69,11 @@ export default function PlannerPage() {
             setIsLoadingRecipes(true);
             logger.info('PlannerPage:Recipes', 'Fetching all recipes...');
             try {
-                const response = await fetch('/data/recipes.json');
+                const response = await fetch('/api/recipes'); // Bundled and user-written recipes
                 if (!response.ok) {
                     throw new Error(`Failed to fetch recipes: ${response.status} ${response.statusText}`);
                 }
-                const data = await response.json();
+                const { recipes: data } = await response.json();
                  if (!Array.isArray(data)) {
                     throw new Error("Fetched recipe data is not an array.");
                  }
@@ -169,20 +171,28 @@ export default function PlannerPage() {
                 if (slot?.recipeId) {
                     const recipe = allRecipes.find(r => r.id === slot.recipeId);
                     if (recipe?.ingredients && Array.isArray(recipe.ingredients)) {
-                        recipe.ingredients.forEach(ing => {
-                            if (typeof ing?.name !== 'string' || typeof ing?.unit !== 'string' || typeof ing?.quantity !== 'number' || isNaN(ing.quantity)) {
-                                logger.warn('PlannerPage:GenerateList', `Skipping invalid ingredient format in recipe ${recipe.id}`, { ingredient: ing });
+                        // Amounts for the servings planned in this slot
+                        const scaleFactor = getScaleFactor(recipe.servings, slot.servings ?? recipe.servings);
+                        recipe.ingredients.forEach(recipeIngredient => {
+                            if (typeof recipeIngredient?.name !== 'string' || typeof recipeIngredient?.unit !== 'string' || typeof recipeIngredient?.quantity !== 'number' || isNaN(recipeIngredient.quantity)) {
+                                logger.warn('PlannerPage:GenerateList', `Skipping invalid ingredient format in recipe ${recipe.id}`, { ingredient: recipeIngredient });
                                 return;
                             }
+                            const ing = scaleIngredient(recipeIngredient, scaleFactor);
                             const nameLower = ing.name.toLowerCase().trim();
                             const unitLower = ing.unit.toLowerCase().trim();
-                            const key = `${nameLower}||${unitLower}`;
+                            // The same ingredient in a unit that converts ("1 cup" and "4 tbsp") joins the first entry
+                            const key = Object.keys(aggregatedIngredients).find(existing =>
+                                existing.startsWith(`${nameLower}||`) &&
+                                convertAmount(1, ing.unit, aggregatedIngredients[existing].unit, ing.name) !== null
+                            ) ?? `${nameLower}||${unitLower}`;
                             if (!aggregatedIngredients[key]) {
                                 aggregatedIngredients[key] = {
                                     name: ing.name, quantity: 0, unit: ing.unit, category: categorizeIngredient(ing.name), recipeIds: []
                                 };
                             }
-                            aggregatedIngredients[key].quantity += ing.quantity;
+                            aggregatedIngredients[key].quantity +=
+                                convertAmount(ing.quantity, ing.unit, aggregatedIngredients[key].unit, ing.name) ?? ing.quantity;
                             if (!aggregatedIngredients[key].recipeIds.includes(recipe.id)) {
                                 aggregatedIngredients[key].recipeIds.push(recipe.id);
                             }
@@ -405,8 +415,9 @@ export default function PlannerPage() {
                                                         ) : ( <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-xs p-1 text-center">No Image</div> )}
                                                     </div>
                                                     <div className="flex-1 min-w-0">
-                                                        <h3 className="font-semibold mb-1 hover:text-primary cursor-pointer truncate" onClick={() => router.push(`/recipes/${meal.recipeId}`)} title={meal.recipeName || "Recipe Name Missing"}>{meal.recipeName || "Recipe Name Missing"}</h3>
+                                                        <h3 className="font-semibold mb-1 hover:text-primary cursor-pointer truncate" onClick={() => router.push(`/recipes/${meal.recipeId}${meal.servings ? `?servings=${meal.servings}` : ""}`)} title={meal.recipeName || "Recipe Name Missing"}>{meal.recipeName || "Recipe Name Missing"}</h3>
                                                         <div className="flex flex-wrap gap-1 sm:gap-2 mt-1 sm:mt-2">
+                                                            {meal.servings && <Badge variant="neutral" size="sm">{meal.servings} servings</Badge>}
                                                             {meal.calories !== null && <Badge variant="neutral" size="sm">{meal.calories} cal</Badge>}
                                                             {meal.macros && ( <> <Badge variant="info" size="sm">P: {meal.macros.protein}g</Badge> <Badge variant="info" size="sm">C: {meal.macros.carbs}g</Badge> <Badge variant="info" size="sm">F: {meal.macros.fats}g</Badge> </> )}
                                                         </div>
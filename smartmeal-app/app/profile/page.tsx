@@ -4,10 +4,12 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import type { UserProfile } from "@/types/user";
+import type { MeasurementSystem, UserProfile } from "@/types/user";
+import { useProfile } from "@/contexts/ProfileContext";
 import { calculateCalorieGoal, calculateMacroSplit } from "@/lib/nutritionCalculator";
 
 export default function ProfilePage() {
+  const { updateProfile } = useProfile();
   const [profile, setProfile] = useState<UserProfile>({
     dailyCalorieGoal: 2000,
     proteinGoal: 150,
@@ -17,6 +19,7 @@ export default function ProfilePage() {
     activityLevel: "moderately-active",
     goalType: "maintain",
     preferredCuisines: [],
+    measurementSystem: "original",
   });
 
   const [personalInfo, setPersonalInfo] = useState({
@@ -44,7 +47,8 @@ export default function ProfilePage() {
   }, []);
 
   const handleSave = () => {
-    localStorage.setItem("smartmeal_profile", JSON.stringify(profile));
+    // Through the context, so open pages pick up the change (e.g. measurement units)
+    updateProfile(profile);
     setSaved(true);
     setTimeout(() => setSaved(false), 3000);
   };
@@ -89,6 +93,12 @@ export default function ProfilePage() {
     "American",
   ];
 
+  const measurementOptions: { value: MeasurementSystem; label: string; example: string }[] = [
+    { value: "original", label: "As written", example: "Amounts as each recipe gives them" },
+    { value: "metric", label: "Metric", example: "g, kg, ml, l" },
+    { value: "imperial", label: "Imperial", example: "cups, oz, lb" },
+  ];
+
   const toggleDietary = (restriction: string) => {
     if (profile.dietaryRestrictions.includes(restriction)) {
       setProfile({
@@ -330,6 +340,39 @@ export default function ProfilePage() {
               </CardContent>
             </Card>
 
+            {/* Measurement Units */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Measurement Units</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground mb-3">
+                  How ingredient amounts are shown in recipes and on your shopping list.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2" role="radiogroup" aria-label="Measurement units">
+                  {measurementOptions.map((option) => {
+                    const selected = (profile.measurementSystem || "original") === option.value;
+                    return (
+                      <button
+                        key={option.value}
+                        role="radio"
+                        aria-checked={selected}
+                        onClick={() => setProfile({ ...profile, measurementSystem: option.value })}
+                        className={`px-4 py-3 rounded-lg border-2 text-left transition-all ${
+                          selected
+                            ? "border-primary bg-primary/10"
+                            : "border-gray-300 hover:border-gray-400"
+                        }`}
+                      >
+                        <span className="block font-medium">{option.label}</span>
+                        <span className="block text-xs text-muted-foreground">{option.example}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Cuisine Preferences */}
             <Card>
               <CardHeader>
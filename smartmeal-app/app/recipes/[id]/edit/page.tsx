@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import type { DetailedRecipe } from "@/types/recipe";
+import { RecipeEditor } from "@/components/recipes/RecipeEditor";
+import { LoadingScreen } from "@/components/common/Loading";
+import { ErrorMessage, NotFoundError } from "@/components/common/ErrorMessage";
+import logger from "@/lib/debug";
+
+export default function EditRecipePage() {
+  const params = useParams();
+  const recipeId = params.id as string;
+  const [recipe, setRecipe] = useState<DetailedRecipe | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/recipes/${encodeURIComponent(recipeId)}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`API Error: ${response.status}`);
+        const data = await response.json();
+        if (!cancelled) setRecipe(data.recipe ?? null);
+      })
+      .catch((error) => {
+        logger.warn('RecipeEditor:Load', `Failed to load recipe ${recipeId} for editing`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        if (!cancelled) setRecipe(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recipeId]);
+
+  if (loading) {
+    return <LoadingScreen message="Loading recipe..." />;
+  }
+
+  if (!recipe) {
+    return <NotFoundError resourceType="Recipe" resourceId={recipeId} />;
+  }
+
+  // Bundled recipes are read-only
+  if (recipe.source !== "user") {
+    return (
+      <ErrorMessage
+        code="RECIPE_NOT_EDITABLE"
+        message="Only recipes you created can be edited."
+        onNavigate={{ label: "Back to Recipe", href: `/recipes/${encodeURIComponent(recipe.id)}` }}
+      />
+    );
+  }
+
+  return <RecipeEditor recipe={recipe} />;
+}
@@ -0,0 +1,52 @@
+import type { Metadata } from "next";
+import { getRecipeRepository, findInRepository } from "@/lib/recipeRepository";
+import { serializeJsonLd, toSchemaOrgRecipe } from "@/lib/schemaOrgRecipe";
+import type { DetailedRecipe } from "@/types/recipe";
+import logger from "@/lib/debug";
+
+interface RecipeLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * The recipe for the page's id, or null if it can't be found or loaded
+ * (the client-side page shows the error then)
+ */
+async function loadRecipe(rawId: string): Promise<DetailedRecipe | null> {
+  try {
+    return findInRepository(await getRecipeRepository(), decodeURIComponent(rawId)).recipe;
+  } catch (error) {
+    logger.warn('RecipeDetail:JsonLd', `Could not load recipe ${rawId} for structured data`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const recipe = await loadRecipe((await params).id);
+  return recipe ? { title: `${recipe.title} | Smart Meal`, description: recipe.description } : {};
+}
+
+/**
+ * Server-rendered schema.org Recipe JSON-LD for the recipe pages, so the
+ * recipe can be indexed even though the page itself loads on the client
+ */
+export default async function RecipeLayout({ children, params }: RecipeLayoutProps) {
+  const recipe = await loadRecipe((await params).id);
+
+  return (
+    <>
+      {recipe && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: serializeJsonLd(toSchemaOrgRecipe(recipe, { baseUrl: process.env.NEXT_PUBLIC_APP_URL })),
+          }}
+        />
+      )}
+      {children}
+    </>
+  );
+}
@@ -2,20 +2,36 @@
 "use client";
 
 // Import React hooks, including useRef
-import React, { useState, useEffect, useRef } from "react";
-import { useParams, useRouter } from "next/navigation"; // Import useRouter
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation"; // Import useRouter
 import Image from "next/image";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import type { DetailedRecipe } from "@/types/recipe";
 import { LoadingScreen } from "@/components/common/Loading"; // Assuming you have this
 import { NotFoundError } from "@/components/common/ErrorMessage"; // Assuming you have this
 import { useFavorites } from "@/contexts/FavoritesContext"; // Import useFavorites
 import { useMealPlan } from "@/contexts/MealPlanContext"; // Import useMealPlan
 import logger from "@/lib/debug"; // Import logger
+import { calculateMatchPercentage } from "@/lib/recipeSearch";
+import { convertIngredients, formatAmount } from "@/lib/unitConversion";
+import { clampServings, getScaleFactor, getTotalNutrition, scaleIngredients, scaleTimerDuration } from "@/lib/recipeScaling";
+import { useProfile } from "@/contexts/ProfileContext";
+import { useShoppingList } from "@/contexts/ShoppingListContext";
+import { SimilarRecipesRail } from "@/components/recipes/SimilarRecipesRail";
+import { StarRating } from "@/components/recipes/StarRating";
+import { InstructionsPanel } from "@/components/recipes/InstructionsPanel";
+import { useRecipeFeedback } from "@/contexts/RecipeFeedbackContext";
+import { useCookingHistory } from "@/contexts/CookingHistoryContext";
 import type { DayOfWeek, MealType, MealSlot } from "@/types/mealPlan"; // Import Meal Plan types
 
+// Local calendar date as an <input type="date"> value (YYYY-MM-DD)
+const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
 // --- AddToPlanModal Component ---
 // We define this helper component within the same file for simplicity
 
@@ -23,6 +39,7 @@ interface AddToPlanModalProps {
   isOpen: boolean;
   onClose: () => void;
   recipe: DetailedRecipe; // Pass the full recipe
+  servings: number; // Servings chosen on the page
   onAddToPlan: (day: DayOfWeek, mealType: MealType, mealSlot: MealSlot) => void;
 }
 
@@ -43,7 +60,7 @@ const MEAL_TIMES: { value: MealType; label: string }[] = [
   { value: "dinner", label: "Dinner" },
 ];
 
-function AddToPlanModal({ isOpen, onClose, recipe, onAddToPlan }: AddToPlanModalProps) {
+function AddToPlanModal({ isOpen, onClose, recipe, servings, onAddToPlan }: AddToPlanModalProps) {
   const [selectedDay, setSelectedDay] = useState<DayOfWeek>("monday");
   const [selectedMealType, setSelectedMealType] = useState<MealType>("lunch");
   const modalRef = useRef<HTMLDivElement>(null);
@@ -65,7 +82,8 @@ function AddToPlanModal({ isOpen, onClose, recipe, onAddToPlan }: AddToPlanModal
       recipeId: recipe.id,
       recipeName: recipe.title,
       recipeImage: recipe.image || null,
-      calories: recipe.nutrition?.calories ?? null,
+      servings, // The plan's shopping list is scaled to this
+      calories: recipe.nutrition?.calories ?? null, // Still per serving: one person's meal
       macros: recipe.nutrition ? {
         protein: recipe.nutrition.protein,
         carbs: recipe.nutrition.carbs,
@@ -96,6 +114,10 @@ function AddToPlanModal({ isOpen, onClose, recipe, onAddToPlan }: AddToPlanModal
           <h2 id="addToPlanTitle" className="text-xl font-semibold">Add "{recipe.title}" to Meal Plan</h2>
           <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close modal">✕</Button>
         </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          For {servings} {servings === 1 ? "serving" : "servings"}
+          {servings !== recipe.servings && ` (the recipe makes ${recipe.servings})`}
+        </p>
 
         <div className="space-y-4">
           {/* Day Selector */}
@@ -144,15 +166,29 @@ export default function RecipeDetailPage() {
   const params = useParams();
   const router = useRouter(); // Initialize router
   const recipeId = params.id as string;
+  const searchParams = useSearchParams();
+  const haveParam = searchParams.get("have"); // Ingredients carried over from search
+  const servingsParam = Number(searchParams.get("servings")); // Servings from a meal plan slot
   const [recipe, setRecipe] = useState<DetailedRecipe | null>(null);
   const [loading, setLoading] = useState(true);
   const [checkedIngredients, setCheckedIngredients] = useState<Set<string>>(new Set());
   const [activeStep, setActiveStep] = useState<number>(0);
   const [isAddToPlanModalOpen, setIsAddToPlanModalOpen] = useState(false); // State for modal
+  const [servings, setServings] = useState(1); // Servings the page is scaled to
+  const [nutritionView, setNutritionView] = useState<"serving" | "total">("serving");
+  const [reviewText, setReviewText] = useState("");
+  const [editingNote, setEditingNote] = useState<{ step: number; text: string } | null>(null); // Step note being written
+  const [cookMode, setCookMode] = useState(false); // Step-by-step instructions panel
+  const [cookedForm, setCookedForm] = useState<{ date: string; servings: number; rating?: number } | null>(null); // "Cooked it" being logged
 
   // Get favorite functions and state
-  const { toggleFavorite, isFavorite } = useFavorites();
+  const { toggleFavorite, isFavorite, removeFavorite } = useFavorites();
   const { updateMealSlot } = useMealPlan(); // Get function for adding to meal plan
+  const { profile } = useProfile();
+  const measurementSystem = profile?.measurementSystem || "original";
+  const { addItem: addShoppingItem } = useShoppingList();
+  const { getFeedback, setRating, addReview, removeReview, setStepNote, clearFeedback } = useRecipeFeedback();
+  const { logCooked, getStats } = useCookingHistory();
 
   // Check if the current recipe is favorited
   const isCurrentFavorite = recipe ? isFavorite(recipe.id) : false;
@@ -178,6 +214,7 @@ export default function RecipeDetailPage() {
           const data = await response.json();
           if (data && data.recipe) {
             setRecipe(data.recipe);
+            setServings(servingsParam > 0 ? clampServings(servingsParam) : data.recipe.servings || 1);
             logger.info('RecipeDetail:Load', `Recipe loaded successfully: ${recipeId}`);
           } else {
             setRecipe(null); // Handle cases where response is ok but no recipe data
@@ -199,7 +236,36 @@ export default function RecipeDetailPage() {
       setLoading(false); // No ID, stop loading
       setRecipe(null);
     }
-  }, [recipeId]); // Dependency array includes recipeId
+    // Opening another meal plan slot for the same recipe changes servingsParam; reload to start from its servings
+  }, [recipeId, servingsParam]);
+
+  // --- Substitutions for the ingredients the user searched with ---
+  const substitutionsByIngredient = useMemo(() => {
+    const map = new Map<string, string>();
+    if (!recipe || !haveParam) return map;
+    const userIngredients = haveParam.split(',').map(ing => ing.trim()).filter(ing => ing);
+    const { substitutions } = calculateMatchPercentage(userIngredients, recipe.ingredients || []);
+    substitutions.forEach((sub) => map.set(sub.recipeIngredient, sub.substitute));
+    return map;
+  }, [recipe, haveParam]);
+
+  // --- Scaling to the chosen servings ---
+  const scaleFactor = recipe ? getScaleFactor(recipe.servings, servings) : 1;
+  const scaledIngredients = useMemo(
+    () => scaleIngredients(recipe?.ingredients || [], scaleFactor),
+    [recipe, scaleFactor]
+  );
+
+  // --- Ingredients in the profile's measurement units ---
+  const displayedIngredients = useMemo(
+    () => convertIngredients(scaledIngredients, measurementSystem),
+    [scaledIngredients, measurementSystem]
+  );
+
+  const changeServings = (next: number) => {
+    setServings(clampServings(next));
+    logger.debug('RecipeDetail:Servings', `Scaled to ${clampServings(next)} servings`, { recipeServings: recipe?.servings });
+  };
 
   // --- Ingredient Check Logic ---
   const toggleIngredient = (ingredientName: string) => {
@@ -235,10 +301,76 @@ export default function RecipeDetailPage() {
     }
   };
 
+  // --- Handler for deleting a user recipe ---
+  const handleDeleteRecipe = async () => {
+    if (!recipe || !window.confirm(`Delete "${recipe.title}"? This cannot be undone.`)) return;
+    try {
+      const response = await fetch(`/api/recipes/${encodeURIComponent(recipe.id)}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `API Error: ${response.status}`);
+      }
+      removeFavorite(recipe.id);
+      clearFeedback(recipe.id);
+      logger.info('RecipeDetail:Delete', `Deleted recipe ${recipe.id}`);
+      router.push("/dashboard");
+    } catch (error) {
+      logger.error('RecipeDetail:Delete', `Failed to delete recipe ${recipe.id}`, {}, error instanceof Error ? error : undefined);
+      alert(error instanceof Error ? error.message : "Failed to delete the recipe.");
+    }
+  };
+
+  // --- Handler for adding the scaled ingredients to the shopping list ---
+  const handleAddToShoppingList = () => {
+    if (!recipe) return;
+    scaledIngredients.forEach((ingredient) => {
+      // Enough for the top of a range; the list shows it in the profile's units
+      addShoppingItem(ingredient.name, ingredient.quantityMax ?? ingredient.quantity, ingredient.unit);
+    });
+    logger.info('RecipeDetail:ShoppingList', `Added ${scaledIngredients.length} ingredients from ${recipe.id}`, { servings });
+    alert(`Added ${scaledIngredients.length} ingredients for ${servings} servings to your shopping list!`);
+  };
+
+  // --- Handlers for the user's rating, reviews and step notes ---
+  const handleAddReview = () => {
+    if (!recipe || !reviewText.trim()) return;
+    addReview(recipe.id, reviewText);
+    setReviewText("");
+    logger.info('RecipeDetail:Review', `Added a review for ${recipe.id}`);
+  };
+
+  const handleSaveStepNote = () => {
+    if (!recipe || !editingNote) return;
+    setStepNote(recipe.id, editingNote.step, editingNote.text);
+    setEditingNote(null);
+  };
+
+  // --- Handlers for logging that the recipe was cooked ---
+  const openCookedForm = () => {
+    setCookedForm({ date: toDateInputValue(new Date()), servings });
+  };
+
+  const handleLogCooked = () => {
+    if (!recipe || !cookedForm) return;
+    const isToday = cookedForm.date === toDateInputValue(new Date());
+    logCooked({
+      recipeId: recipe.id,
+      recipeName: recipe.title,
+      recipeImage: recipe.image,
+      servings: clampServings(cookedForm.servings),
+      rating: cookedForm.rating,
+      cookedAt: isToday ? undefined : new Date(`${cookedForm.date}T12:00:00`).toISOString(), // Midday, so the date survives time zones
+    });
+    if (cookedForm.rating) setRating(recipe.id, cookedForm.rating); // The latest cook's rating becomes the recipe's
+    logger.info('RecipeDetail:Cooked', `Logged cooking ${recipe.id}`, { date: cookedForm.date, servings: cookedForm.servings });
+    setCookedForm(null);
+    setCookMode(false);
+  };
+
   // --- Handler for MODAL CONFIRMATION ---
   const handleConfirmAddToPlan = (day: DayOfWeek, mealType: MealType, mealSlot: MealSlot) => {
     updateMealSlot(day, mealType, mealSlot); // Call context function
-    logger.info('RecipeDetail:MealPlan', `Added ${mealSlot.recipeId} to ${day} ${mealType}`);
+    logger.info('RecipeDetail:MealPlan', `Added ${mealSlot.recipeId} to ${day} ${mealType}`, { servings: mealSlot.servings });
     // Optional: Show a success toast notification here
     alert(`${recipe?.title} added to ${day}'s ${mealType}!`); // Simple feedback
   };
@@ -259,6 +391,15 @@ export default function RecipeDetailPage() {
   const progress = totalIngredients > 0 ? Math.round((checkedCount / totalIngredients) * 100) : 0;
   // Note: activeStep state management logic would go here if you implement step-by-step interaction
 
+  // --- Nutrition for one serving, or for every serving cooked ---
+  const showTotalNutrition = nutritionView === "total";
+  const nutrition = recipe.nutrition && showTotalNutrition ? getTotalNutrition(recipe.nutrition, servings) : recipe.nutrition;
+
+  // --- The user's own rating, reviews and step notes ---
+  const feedback = getFeedback(recipe.id);
+  const stepNotes = feedback?.stepNotes || {};
+  const cookingStats = getStats(recipe.id);
+
   // --- Render Recipe Details ---
   return (
     <div className="min-h-screen bg-background">
@@ -270,6 +411,23 @@ export default function RecipeDetailPage() {
               ← Back
             </Button>
             <div className="flex gap-2">
+              {recipe.source === "user" && ( // Only the user's own recipes can be changed
+                <>
+                  <Button variant="ghost" onClick={() => router.push(`/recipes/${encodeURIComponent(recipe.id)}/edit`)}>
+                    ✏️ Edit
+                  </Button>
+                  <Button variant="ghost" onClick={handleDeleteRecipe}>
+                    🗑️ Delete
+                  </Button>
+                </>
+              )}
+              <Button
+                variant="ghost"
+                onClick={() => { window.location.href = `/api/recipes/${encodeURIComponent(recipe.id)}/jsonld`; }} // Served as a file download
+                title="Download as schema.org JSON-LD"
+              >
+                ⬇ JSON-LD
+              </Button>
               <Button
                 variant="ghost"
                 onClick={handleToggleFavorite}
@@ -310,6 +468,7 @@ export default function RecipeDetailPage() {
                 {recipe.description}
               </p>
               <div className="flex flex-wrap gap-2 mb-4">
+                {recipe.source === "user" && <Badge variant="warning">My recipe</Badge>}
                 <Badge variant="info">{recipe.cuisine}</Badge>
                 <Badge
                   variant={
@@ -330,6 +489,19 @@ export default function RecipeDetailPage() {
                 ))}
               </div>
 
+              <div className="flex items-center gap-3 mb-4">
+                <StarRating rating={feedback?.rating} onChange={(rating) => setRating(recipe.id, rating)} size="lg" />
+                <span className="text-sm text-muted-foreground">
+                  {feedback?.rating ? "Your rating (click again to clear)" : "Rate this recipe"}
+                </span>
+                <span className="text-sm text-muted-foreground">
+                  ·{" "}
+                  {cookingStats
+                    ? `Cooked ${cookingStats.timesCooked} time${cookingStats.timesCooked === 1 ? "" : "s"}, last on ${new Date(cookingStats.lastCookedAt).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })}`
+                    : "Not cooked yet"}
+                </span>
+              </div>
+
               <div className="grid grid-cols-4 gap-4 text-center border-t border-b py-4 my-4">
                 <div>
                   <div className="text-2xl font-bold text-primary">{recipe.prepTime || '-'}m</div>
@@ -344,8 +516,23 @@ export default function RecipeDetailPage() {
                   <div className="text-sm text-muted-foreground">Total</div>
                 </div>
                 <div>
-                  <div className="text-2xl font-bold text-primary">{recipe.servings || '-'}</div>
-                  <div className="text-sm text-muted-foreground">Servings</div>
+                  <div className="flex items-center justify-center gap-2" role="group" aria-label="Adjust servings">
+                    <Button variant="ghost" size="sm" onClick={() => changeServings(servings - 1)} disabled={servings <= 1} aria-label="Decrease servings">
+                      −
+                    </Button>
+                    <span className="text-2xl font-bold text-primary" aria-live="polite">{servings}</span>
+                    <Button variant="ghost" size="sm" onClick={() => changeServings(servings + 1)} aria-label="Increase servings">
+                      +
+                    </Button>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Servings
+                    {servings !== recipe.servings && (
+                      <button className="ml-1 text-primary hover:underline" onClick={() => changeServings(recipe.servings)}>
+                        (reset to {recipe.servings})
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
@@ -354,7 +541,12 @@ export default function RecipeDetailPage() {
             <Card>
               <CardHeader>
                 <div className="flex justify-between items-center">
-                  <CardTitle>Ingredients</CardTitle>
+                  <div>
+                    <CardTitle>Ingredients</CardTitle>
+                    {servings !== recipe.servings && (
+                      <p className="text-sm text-muted-foreground">Scaled for {servings} servings (recipe makes {recipe.servings})</p>
+                    )}
+                  </div>
                   <span className="text-sm text-muted-foreground" aria-live="polite">
                     {checkedCount} of {totalIngredients} checked ({progress}%)
                   </span>
@@ -372,7 +564,7 @@ export default function RecipeDetailPage() {
               <CardContent>
                 {totalIngredients > 0 ? (
                   <ul className="space-y-3">
-                    {recipe.ingredients.map((ingredient, index) => (
+                    {displayedIngredients.map((ingredient, index) => (
                       <li key={`${ingredient.name}-${index}`} className="flex items-start gap-3">
                         <input
                           type="checkbox"
@@ -390,12 +582,19 @@ export default function RecipeDetailPage() {
                               : ""
                             }`}
                         >
-                          <span className="font-medium">{ingredient.quantity}</span>{" "}
+                          <span className="font-medium">{formatAmount(ingredient.quantity, ingredient.quantityMax)}</span>{" "}
                           <span className="text-muted-foreground">
                             {ingredient.unit}
                           </span>{" "}
                           {ingredient.name}
-                          {ingredient.substitutions && ingredient.substitutions.length > 0 && (
+                          {ingredient.preparation && (
+                            <span className="text-muted-foreground">, {ingredient.preparation}</span>
+                          )}
+                          {substitutionsByIngredient.has(ingredient.name) ? (
+                            <span className="text-xs text-blue-600 ml-2 font-medium">
+                              ⇄ Swap: use {substitutionsByIngredient.get(ingredient.name)} instead
+                            </span>
+                          ) : ingredient.substitutions && ingredient.substitutions.length > 0 && (
                             <span className="text-xs text-blue-500 ml-2">(subs available)</span>
                           )}
                         </label>
@@ -408,15 +607,34 @@ export default function RecipeDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Step-by-step cooking; finishing the last step offers to log the cook */}
+            {cookMode && recipe.instructions.length > 0 && (
+              <InstructionsPanel
+                instructions={recipe.instructions.map((instruction) => instruction.text)}
+                prepTime={recipe.prepTime}
+                cookTime={recipe.cookTime}
+                onComplete={openCookedForm}
+              />
+            )}
+
             {/* Instructions */}
             <Card>
               <CardHeader>
-                <CardTitle>Instructions</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Instructions</CardTitle>
+                  {recipe.instructions.length > 0 && (
+                    <Button variant={cookMode ? "ghost" : "secondary"} size="sm" onClick={() => setCookMode(!cookMode)}>
+                      {cookMode ? "Stop cooking" : "👩‍🍳 Cook step by step"}
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 {recipe.instructions && recipe.instructions.length > 0 ? (
                   <ol className="space-y-4">
-                    {recipe.instructions.map((instruction, index) => (
+                    {recipe.instructions.map((instruction, index) => {
+                      const timerDuration = scaleTimerDuration(instruction, scaleFactor);
+                      return (
                       <li key={instruction.step} className="flex gap-4 items-start">
                         <div
                           className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center font-bold border-2 ${activeStep === index
@@ -436,14 +654,50 @@ export default function RecipeDetailPage() {
                             {instruction.text}
                           </p>
                           {/* Simple Timer display (Full timer component would replace this) */}
-                          {instruction.timerDuration && (
+                          {timerDuration && (
                             <Badge variant="neutral" size="sm" className="mt-2">
-                              ⏱ {Math.floor(instruction.timerDuration / 60)} min
+                              ⏱ {Math.floor(timerDuration / 60)} min
+                              {timerDuration !== instruction.timerDuration && ` (${Math.floor((instruction.timerDuration || 0) / 60)} min as written)`}
                             </Badge>
                           )}
+                          {/* Private note on this step */}
+                          {editingNote?.step === instruction.step ? (
+                            <div className="mt-2 space-y-2">
+                              <Textarea
+                                value={editingNote.text}
+                                onChange={(e) => setEditingNote({ step: instruction.step, text: e.target.value })}
+                                placeholder="e.g. Use half the chili next time"
+                                className="min-h-[60px] text-sm"
+                                aria-label={`Note for step ${instruction.step}`}
+                                autoFocus
+                              />
+                              <div className="flex gap-2">
+                                <Button variant="primary" size="sm" onClick={handleSaveStepNote}>Save note</Button>
+                                <Button variant="ghost" size="sm" onClick={() => setEditingNote(null)}>Cancel</Button>
+                              </div>
+                            </div>
+                          ) : stepNotes[instruction.step] ? (
+                            <div className="mt-2 rounded-lg bg-yellow-50 border border-yellow-200 px-3 py-2 text-sm">
+                              <span aria-hidden="true">📝</span> {stepNotes[instruction.step]}
+                              <button
+                                className="ml-2 text-primary hover:underline"
+                                onClick={() => setEditingNote({ step: instruction.step, text: stepNotes[instruction.step] })}
+                              >
+                                Edit
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              className="mt-2 text-xs text-muted-foreground hover:text-primary"
+                              onClick={() => setEditingNote({ step: instruction.step, text: "" })}
+                            >
+                              + Add note
+                            </button>
+                          )}
                         </div>
                       </li>
-                    ))}
+                      );
+                    })}
                   </ol>
                 ) : (
                   <p className="text-muted-foreground">No instructions provided for this recipe.</p>
@@ -451,6 +705,47 @@ export default function RecipeDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Reviews */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Reviews</CardTitle>
+                <p className="text-sm text-muted-foreground">Only stored on this device</p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Textarea
+                    value={reviewText}
+                    onChange={(e) => setReviewText(e.target.value)}
+                    placeholder="How did it turn out? What would you change?"
+                    className="min-h-[80px]"
+                    aria-label="Write a review"
+                  />
+                  <Button variant="primary" size="sm" onClick={handleAddReview} disabled={!reviewText.trim()}>
+                    Add Review
+                  </Button>
+                </div>
+                {feedback && feedback.reviews.length > 0 ? (
+                  <ul className="space-y-3" aria-label="Your reviews">
+                    {feedback.reviews.map((review) => (
+                      <li key={review.id} className="border-t pt-3">
+                        <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                          <time dateTime={review.createdAt}>
+                            {new Date(review.createdAt).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })}
+                          </time>
+                          <button className="hover:text-red-600" onClick={() => removeReview(recipe.id, review.id)} aria-label="Delete review">
+                            Delete
+                          </button>
+                        </div>
+                        <p className="text-sm whitespace-pre-line">{review.text}</p>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No reviews yet.</p>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Video Embed */}
             {recipe.videoId && (
               <Card>
@@ -479,12 +774,26 @@ export default function RecipeDetailPage() {
           <div className="space-y-6 lg:sticky lg:top-24 self-start"> {/* Sticky column */}
 
             {/* Nutrition Panel */}
-            {recipe.nutrition ? (
+            {nutrition ? (
               <Card>
                 <CardHeader>
                   <CardTitle>Nutrition Facts</CardTitle>
+                  <div className="flex gap-1 mt-2" role="radiogroup" aria-label="Nutrition shown">
+                    {(["serving", "total"] as const).map((view) => (
+                      <Button
+                        key={view}
+                        variant={nutritionView === view ? "primary" : "ghost"}
+                        size="sm"
+                        role="radio"
+                        aria-checked={nutritionView === view}
+                        onClick={() => setNutritionView(view)}
+                      >
+                        {view === "serving" ? "Per serving" : `Total (${servings})`}
+                      </Button>
+                    ))}
+                  </div>
                   <p className="text-sm text-muted-foreground">
-                    Per serving ({recipe.servings} servings)
+                    {showTotalNutrition ? `All ${servings} servings together` : "Per serving"}
                   </p>
                 </CardHeader>
                 <CardContent>
@@ -492,7 +801,7 @@ export default function RecipeDetailPage() {
                     {/* Calories */}
                     <div className="border-b pb-3 text-center">
                       <div className="text-4xl font-bold text-primary mb-1">
-                        {recipe.nutrition.calories}
+                        {nutrition.calories}
                       </div>
                       <div className="text-sm text-muted-foreground">
                         Calories
@@ -500,12 +809,12 @@ export default function RecipeDetailPage() {
                     </div>
                     {/* Other Nutrients */}
                     <div className="space-y-2">
-                      <NutritionRow label="Protein" value={recipe.nutrition.protein} unit="g" color="bg-blue-500" goal={50} /> {/* Example Goal */}
-                      <NutritionRow label="Carbs" value={recipe.nutrition.carbs} unit="g" color="bg-yellow-500" goal={300} /> {/* Example Goal */}
-                      <NutritionRow label="Fats" value={recipe.nutrition.fats} unit="g" color="bg-orange-500" goal={70} /> {/* Example Goal */}
-                      <NutritionRow label="Fiber" value={recipe.nutrition.fiber} unit="g" color="bg-green-500" goal={30} /> {/* Example Goal */}
-                      <NutritionRow label="Sodium" value={recipe.nutrition.sodium} unit="mg" color="bg-red-500" goal={2300} /> {/* Example Goal */}
-                      <NutritionRow label="Sugar" value={recipe.nutrition.sugar} unit="g" color="bg-pink-500" goal={50} /> {/* Example Goal */}
+                      <NutritionRow label="Protein" value={nutrition.protein} unit="g" color="bg-blue-500" goal={showTotalNutrition ? undefined : 50} /> {/* Example Goal */}
+                      <NutritionRow label="Carbs" value={nutrition.carbs} unit="g" color="bg-yellow-500" goal={showTotalNutrition ? undefined : 300} /> {/* Example Goal */}
+                      <NutritionRow label="Fats" value={nutrition.fats} unit="g" color="bg-orange-500" goal={showTotalNutrition ? undefined : 70} /> {/* Example Goal */}
+                      <NutritionRow label="Fiber" value={nutrition.fiber} unit="g" color="bg-green-500" goal={showTotalNutrition ? undefined : 30} /> {/* Example Goal */}
+                      <NutritionRow label="Sodium" value={nutrition.sodium} unit="mg" color="bg-red-500" goal={showTotalNutrition ? undefined : 2300} /> {/* Example Goal */}
+                      <NutritionRow label="Sugar" value={nutrition.sugar} unit="g" color="bg-pink-500" goal={showTotalNutrition ? undefined : 50} /> {/* Example Goal */}
                     </div>
                   </div>
                 </CardContent>
@@ -545,7 +854,51 @@ export default function RecipeDetailPage() {
                 <CardTitle>Quick Actions</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                <Button variant="secondary" className="w-full" disabled> {/* Placeholder */}
+                {cookedForm ? (
+                  <div className="space-y-3 rounded-lg border p-3" role="group" aria-label="Log that you cooked this">
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="text-sm">
+                        <span className="block mb-1 font-medium">Date</span>
+                        <Input
+                          type="date"
+                          value={cookedForm.date}
+                          max={toDateInputValue(new Date())}
+                          onChange={(e) => setCookedForm({ ...cookedForm, date: e.target.value })}
+                        />
+                      </label>
+                      <label className="text-sm">
+                        <span className="block mb-1 font-medium">Servings</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={cookedForm.servings}
+                          onChange={(e) => setCookedForm({ ...cookedForm, servings: Number(e.target.value) })}
+                        />
+                      </label>
+                    </div>
+                    <div className="text-sm">
+                      <span className="block mb-1 font-medium">How was it? (optional)</span>
+                      <StarRating
+                        rating={cookedForm.rating}
+                        onChange={(rating) => setCookedForm({ ...cookedForm, rating: rating ?? undefined })}
+                        size="lg"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="primary" size="sm" className="flex-1" onClick={handleLogCooked} disabled={!cookedForm.date}>
+                        Save
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setCookedForm(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <Button variant="primary" className="w-full" onClick={openCookedForm}>
+                    ✅ Cooked it
+                  </Button>
+                )}
+                <Button variant="secondary" className="w-full" onClick={handleAddToShoppingList} disabled={totalIngredients === 0}>
                   📋 Add to Shopping List
                 </Button>
                 <Button variant="secondary" className="w-full" disabled> {/* Placeholder */}
@@ -558,6 +911,11 @@ export default function RecipeDetailPage() {
             </Card>
           </div> {/* End Right Column */}
         </div>
+
+        {/* More Like This */}
+        <div className="mt-8">
+          <SimilarRecipesRail recipeId={recipe.id} />
+        </div>
       </div>
 
       {/* --- RENDER THE MODAL --- */}
@@ -568,6 +926,7 @@ export default function RecipeDetailPage() {
           isOpen={isAddToPlanModalOpen}
           onClose={() => setIsAddToPlanModalOpen(false)}
           recipe={recipe} // Pass the loaded recipe data
+          servings={servings}
           onAddToPlan={handleConfirmAddToPlan} // Pass the handler function
         />
       )}
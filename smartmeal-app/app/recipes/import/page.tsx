@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ErrorMessage } from "@/components/common/ErrorMessage";
+import { RecipeEditor } from "@/components/recipes/RecipeEditor";
+import type { RecipeImportIssue, RecipeImportIssueKind, RecipeImportResult } from "@/types/recipe";
+import { ApiRequestError } from "@/lib/errorCodes";
+import logger from "@/lib/debug";
+
+const ISSUE_GROUPS: { kind: RecipeImportIssueKind; title: string }[] = [
+  { kind: "unmapped", title: "Not imported" },
+  { kind: "partial", title: "Partly imported" },
+  { kind: "defaulted", title: "Filled in with a default" },
+];
+
+// --- ImportReport Component ---
+// What didn't carry over from the document, shown above the editor
+
+function ImportReport({ issues, onStartOver }: { issues: RecipeImportIssue[]; onStartOver: () => void }) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Review the import</CardTitle>
+          <Button type="button" variant="ghost" size="sm" onClick={onStartOver}>
+            Import another
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {issues.length === 0
+            ? "Everything in the document was imported. Check the recipe below, then save it."
+            : "Some of the document couldn't be imported as is. Check the recipe below and fill in anything missing before saving."}
+        </p>
+      </CardHeader>
+      {issues.length > 0 && (
+        <CardContent className="space-y-4">
+          {ISSUE_GROUPS.map(({ kind, title }) => {
+            const group = issues.filter((issue) => issue.kind === kind);
+            if (group.length === 0) return null;
+            return (
+              <div key={kind}>
+                <h3 className="font-semibold mb-2">{title} ({group.length})</h3>
+                <ul className="space-y-1 text-sm">
+                  {group.map((issue, index) => (
+                    <li key={`${issue.property}-${index}`}>
+                      <code className="rounded bg-gray-100 px-1">{issue.property}</code> {issue.message}
+                      {issue.value && <span className="block text-muted-foreground truncate">{issue.value}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+// --- Main Page Component ---
+export default function ImportRecipePage() {
+  const [documentText, setDocumentText] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<ApiRequestError | null>(null);
+  const [result, setResult] = useState<RecipeImportResult | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setDocumentText(await file.text());
+    setError(null);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/recipes/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ document: documentText }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new ApiRequestError(data, response.status);
+
+      logger.info('RecipeImport:Import', `Imported "${data.input.title}"`, { issueCount: data.issues.length });
+      setResult(data);
+    } catch (importError) {
+      const requestError = ApiRequestError.from(importError, "Failed to import the recipe.");
+      logger.warn('RecipeImport:Import', 'Import failed', { code: requestError.code, message: requestError.message });
+      setError(requestError);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <RecipeEditor
+        initialInput={result.input}
+        intro={<ImportReport issues={result.issues} onStartOver={() => setResult(null)} />}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="container mx-auto px-6 py-6">
+          <h1 className="text-3xl font-bold mb-2">Import a Recipe</h1>
+          <p className="text-muted-foreground">
+            Paste or upload a schema.org Recipe in JSON-LD, the format most recipe sites embed in their pages.
+          </p>
+        </div>
+      </div>
+
+      <main className="container mx-auto px-6 py-8 max-w-4xl space-y-6" id="main-content">
+        {error && <ErrorMessage code={error.code} message={error.message} fieldErrors={error.fieldErrors} />}
+
+        <Card>
+          <CardContent className="space-y-4 pt-6">
+            <div>
+              <label htmlFor="import-document" className="block text-sm font-medium mb-2">
+                JSON-LD (or the page&apos;s HTML source)
+              </label>
+              <Textarea
+                id="import-document"
+                value={documentText}
+                onChange={(e) => setDocumentText(e.target.value)}
+                className="min-h-[280px] font-mono text-sm"
+                placeholder='{ "@context": "https://schema.org", "@type": "Recipe", "name": "..." }'
+              />
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <label className="text-sm">
+                <span className="mr-2 font-medium">Or upload a file:</span>
+                <input type="file" accept=".json,.jsonld,.html,.htm,application/ld+json,application/json,text/html" onChange={handleFileChange} />
+              </label>
+              <Button variant="primary" onClick={handleImport} disabled={importing || !documentText.trim()}>
+                {importing ? "Importing..." : "Import Recipe"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <p className="text-sm text-muted-foreground">
+          Prefer to type it in? <Link href="/recipes/new" className="text-primary hover:underline">Write a recipe</Link> instead.
+        </p>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import Link from "next/link";
+import { RecipeEditor } from "@/components/recipes/RecipeEditor";
+
+export default function NewRecipePage() {
+  return (
+    <RecipeEditor
+      intro={
+        <p className="text-sm text-muted-foreground">
+          Found a recipe on another site?{" "}
+          <Link href="/recipes/import" className="text-primary hover:underline">Import it from JSON-LD</Link>
+        </p>
+      }
+    />
+  );
+}
@@ -1,86 +1,289 @@
 // smartmeal-app/app/search/page.tsx
 "use client";
 
-import { useState } from "react"; // Keep useState
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import Link from "next/link";
-import { useRouter } from 'next/navigation'; // Import useRouter for navigation
+import { useRouter, usePathname, useSearchParams } from 'next/navigation'; // Import useRouter for navigation
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { RecipeGrid } from "@/components/recipes/RecipeGrid"; // Import RecipeGrid
 import { FilterPanel } from "@/components/search/FilterPanel"; // Import FilterPanel
 import { LoadingSpinner } from "@/components/common/Loading"; // Import LoadingSpinner
 import { ErrorMessage } from "@/components/common/ErrorMessage"; // Import ErrorMessage
+import { useProfile } from "@/contexts/ProfileContext";
+import { useFavorites } from "@/contexts/FavoritesContext";
+import { useRecipeFeedback } from "@/contexts/RecipeFeedbackContext";
+import { useCookingHistory } from "@/contexts/CookingHistoryContext";
+import { ApiRequestError } from "@/lib/errorCodes";
+import {
+  createStorageStore,
+  loadDismissedRecipes,
+  loadPersonalizeSearch,
+  saveDismissedRecipes,
+  savePersonalizeSearch,
+  STORAGE_KEYS,
+} from "@/lib/localStorage";
+import { useStoredValue } from "@/hooks/useStoredValue";
+import { getRestrictionExclusions } from "@/lib/ingredientOntology";
+import { searchRequestFromParams, searchRequestToParams, type SearchRequest } from "@/lib/searchQueryString";
 import type { Recipe } from "@/types/recipe"; // Import Recipe type
-import type { CuisineType, DietaryFilter } from "@/types/recipe"; // Import filter types
+import type { Difficulty, MealType, NutritionRanges, SearchFacets, TimeRange } from "@/types/recipe"; // Import filter types
+import type { PersonalizationSummary, RecipeRating, SearchPersonalization } from "@/types/user";
+
+// Filters the API reports as applied (response meta.appliedFilters)
+interface AppliedFilters {
+  cuisine?: string;
+  dietaryFilters?: string[];
+  excludeIngredients?: string[];
+  difficulty?: Difficulty[];
+  mealTypes?: MealType[];
+  prepTime?: TimeRange;
+  cookTime?: TimeRange;
+  totalTime?: TimeRange;
+  nutrition?: NutritionRanges;
+  minProteinShare?: number;
+}
+
+/**
+ * Human-readable labels for the filters the search applied
+ */
+function describeAppliedFilters(applied: AppliedFilters): string[] {
+  const describeRange = (label: string, range?: TimeRange) => {
+    if (!range) return null;
+    if (range.min !== undefined && range.max !== undefined) return `${label} ${range.min}–${range.max} min`;
+    if (range.max !== undefined) return `${label} ≤ ${range.max} min`;
+    if (range.min !== undefined) return `${label} ≥ ${range.min} min`;
+    return null;
+  };
+
+  return [
+    applied.cuisine,
+    ...(applied.dietaryFilters || []),
+    ...(applied.excludeIngredients || []).map((ingredient) => `No ${ingredient}`),
+    applied.difficulty && applied.difficulty.length > 0 ? applied.difficulty.join(" or ") : null,
+    applied.mealTypes && applied.mealTypes.length > 0 ? applied.mealTypes.join(" or ") : null,
+    describeRange("Prep", applied.prepTime),
+    describeRange("Cook", applied.cookTime),
+    describeRange("Total", applied.totalTime),
+    ...Object.entries(applied.nutrition || {}).map(([nutrient, range]) => {
+      if (range?.min !== undefined && range.max !== undefined) return `${nutrient} ${range.min}–${range.max}`;
+      if (range?.max !== undefined) return `${nutrient} ≤ ${range.max}`;
+      if (range?.min !== undefined) return `${nutrient} ≥ ${range.min}`;
+      return null;
+    }),
+    applied.minProteinShare !== undefined ? `≥ ${Math.round(applied.minProteinShare * 100)}% kcal from protein` : null,
+  ].filter((label): label is string => !!label);
+}
+
+const NO_DISMISSED: string[] = [];
+
+const personalizeStore = createStorageStore(STORAGE_KEYS.PERSONALIZE_SEARCH, loadPersonalizeSearch, savePersonalizeSearch, true);
+const dismissedStore = createStorageStore(STORAGE_KEYS.DISMISSED_RECIPES, loadDismissedRecipes, saveDismissedRecipes, NO_DISMISSED);
+
+// Run a search against the API and return the parsed response. Personalized and
+// "top rated" searches are POSTed so favorites, dismissed recipes and ratings stay
+// out of URLs and logs.
+const fetchResults = async (request: SearchRequest) => {
+  const response = request.personalization || request.ratings
+    ? await fetch("/api/recipes/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      })
+    : await fetch(`/api/recipes/search?${searchRequestToParams(request).toString()}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ApiRequestError(errorData, response.status);
+  }
+
+  return response.json();
+};
+
+// Split the comma-separated ingredients box into a clean list
+const parseIngredients = (text: string) => text.split(',').map(ing => ing.trim()).filter(ing => ing);
 
 export default function SearchPage() {
-  const [ingredients, setIngredients] = useState("");
-  const [filters, setFilters] = useState<{
-    cuisine?: CuisineType;
-    dietaryFilters: DietaryFilter[];
-    difficulty?: string;
-    maxTime?: number;
-  }>({ dietaryFilters: [] });
+  const router = useRouter(); // Initialize router
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const urlQuery = searchParams.toString(); // The URL is the source of truth for the current search
+  const urlRequest = useMemo(() => searchRequestFromParams(new URLSearchParams(urlQuery)), [urlQuery]);
+
+  const [ingredients, setIngredients] = useState(urlRequest.ingredients.join(", "));
+  const [query, setQuery] = useState(urlRequest.query || ""); // Free-text query ("curry", "one-pot")
+  const [cookNow, setCookNow] = useState(urlRequest.mode === "cookNow"); // Rank by fewest missing ingredients
+  const [maxMissing, setMaxMissing] = useState(urlRequest.maxMissing ?? 2);
+  const { profile } = useProfile();
+  const { favorites } = useFavorites();
+  const { feedback } = useRecipeFeedback();
+  const { stats: cookingStats } = useCookingHistory();
+  const profileApplied = useRef(false);
+  const personalize = useStoredValue(personalizeStore); // Boost by profile and favorites
+  const dismissedIds = useStoredValue(dismissedStore); // Recipes marked "not interested"
+  const [personalizationSummary, setPersonalizationSummary] = useState<PersonalizationSummary | null>(null);
+
+  // What the ranking is personalized on; undefined when switched off
+  const personalization = useMemo<SearchPersonalization | undefined>(
+    () =>
+      personalize && profile
+        ? {
+            preferredCuisines: profile.preferredCuisines || [],
+            dietaryRestrictions: profile.dietaryRestrictions || [],
+            favoriteIds: favorites,
+            dismissedIds,
+          }
+        : undefined,
+    [personalize, profile, favorites, dismissedIds]
+  );
+
+  // The user's star ratings, shown on the cards and sent along when sorting by "top rated"
+  const ratingsById = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(feedback).flatMap(([recipeId, entry]) => (entry.rating ? [[recipeId, entry.rating]] : []))
+      ) as Record<string, number>,
+    [feedback]
+  );
+  const ratings = useMemo<RecipeRating[] | undefined>(
+    () =>
+      urlRequest.filters.sortBy === "topRated"
+        ? Object.entries(ratingsById).map(([recipeId, rating]) => ({ recipeId, rating }))
+        : undefined,
+    [urlRequest, ratingsById]
+  );
+  const lastCooked = useMemo(
+    () => Object.fromEntries(Object.values(cookingStats).map((stats) => [stats.recipeId, stats.lastCookedAt])),
+    [cookingStats]
+  );
 
   const [searchResults, setSearchResults] = useState<Recipe[]>([]);
+  const [totalMatches, setTotalMatches] = useState(0);
+  const [appliedFilters, setAppliedFilters] = useState<AppliedFilters>({});
+  const [facets, setFacets] = useState<SearchFacets | undefined>(undefined);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [lastRequest, setLastRequest] = useState<SearchRequest | null>(null); // Reused for "load more"
   const [searching, setSearching] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const router = useRouter(); // Initialize router
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<ApiRequestError | null>(null);
 
-  const handleSearch = async () => {
-    if (!ingredients.trim()) return;
+  const hasSearchInput = !!(ingredients.trim() || query.trim());
 
+  const runSearch = useCallback(async (searchRequest: SearchRequest) => {
+    const request = { ...searchRequest, personalization, ratings };
     setSearching(true);
     setError(null);
     setSearchResults([]); // Clear previous results
+    setNextCursor(null);
 
     try {
-      const response = await fetch("/api/recipes/search", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          ingredients: ingredients.split(',').map(ing => ing.trim()).filter(ing => ing), // Split and clean ingredients
-          filters: {
-             cuisine: filters.cuisine === 'all' ? undefined : filters.cuisine, // Handle 'all' cuisine
-             dietaryFilters: filters.dietaryFilters,
-             difficulty: filters.difficulty,
-             maxTime: filters.maxTime,
-             // Add sortBy if you implement it in FilterPanel
-          }
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `API Error: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = await fetchResults(request);
+      setLastRequest(request);
       setSearchResults(data.recipes || []);
+      setTotalMatches(data.count || 0);
+      setAppliedFilters(data.meta?.appliedFilters || {});
+      setFacets(data.facets);
+      setNextCursor(data.nextCursor || null);
+      setPersonalizationSummary(data.meta?.personalization?.enabled ? data.meta.personalization : null);
 
     } catch (err: unknown) {
       console.error("Search failed:", err);
-      setError(err instanceof Error ? err.message : "An unknown error occurred during search.");
+      setError(ApiRequestError.from(err, "An unknown error occurred during search."));
     } finally {
       setSearching(false);
     }
+  }, [personalization, ratings]);
+
+  // Whenever the URL changes (search, filter change, back/forward, shared link), sync the inputs
+  useEffect(() => {
+    setIngredients(urlRequest.ingredients.join(", "));
+    setQuery(urlRequest.query || "");
+    setCookNow(urlRequest.mode === "cookNow");
+    if (urlRequest.maxMissing !== undefined) setMaxMissing(urlRequest.maxMissing);
+  }, [urlRequest]);
+
+  // ...and search, again whenever the personalization changes (runSearch changes with it).
+  // Wait for the profile when personalizing so the first search isn't run without it.
+  const waitingForProfile = personalize && !profile;
+  useEffect(() => {
+    if (waitingForProfile) return;
+    if (urlRequest.ingredients.length > 0 || urlRequest.query) {
+      runSearch(urlRequest);
+    }
+  }, [urlRequest, waitingForProfile, runSearch]);
+
+  // Pre-fill exclusions from the profile's restrictions ("Nut-Free", "Dairy-Free") once it loads,
+  // unless the URL already says what to exclude
+  useEffect(() => {
+    if (!profile || profileApplied.current) return;
+    profileApplied.current = true;
+    const exclusions = getRestrictionExclusions(profile.dietaryRestrictions || []);
+    if (exclusions.length === 0 || urlRequest.filters.excludeIngredients) return;
+    const params = searchRequestToParams({
+      ...urlRequest,
+      filters: { ...urlRequest.filters, excludeIngredients: exclusions },
+    });
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  }, [profile, urlRequest, router, pathname]);
+
+  // Put the search in the URL; the effect above runs it
+  const handleSearch = () => {
+    if (!hasSearchInput) return;
+
+    const request: SearchRequest = {
+      ...urlRequest, // Keep the filters and sort from the filter panel
+      ingredients: parseIngredients(ingredients),
+      query: query.trim() || undefined,
+      mode: cookNow ? "cookNow" : undefined,
+      maxMissing: cookNow ? maxMissing : undefined,
+      cursor: undefined,
+      page: undefined,
+    };
+    const nextQuery = searchRequestToParams(request).toString();
+
+    if (nextQuery === urlQuery) {
+      runSearch(request); // Same URL: search again without a navigation
+    } else {
+      router.push(`${pathname}?${nextQuery}`, { scroll: false });
+    }
   };
 
-  // Function to handle clicking on a recipe card
-  const handleViewDetails = (recipeId: string) => {
-    router.push(`/recipes/${recipeId}`);
+  // Fetch the next page of the last search and append it
+  const handleLoadMore = async () => {
+    if (!lastRequest || !nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const data = await fetchResults({ ...lastRequest, cursor: nextCursor });
+      setSearchResults((prev) => [...prev, ...(data.recipes || [])]);
+      setNextCursor(data.nextCursor || null);
+    } catch (err: unknown) {
+      console.error("Load more failed:", err);
+      setError(ApiRequestError.from(err, "An unknown error occurred while loading more recipes."));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleTogglePersonalize = (enabled: boolean) => {
+    personalizeStore.update(() => enabled);
   };
 
-  const handleFilterChange = (newFilters: any) => {
-     setFilters(newFilters);
-     // Optional: Trigger search immediately on filter change if ingredients are present
-     // if (ingredients.trim()) {
-     //   handleSearch();
-     // }
+  // "Not interested" (or undo); personalized searches rank dismissed recipes down
+  const handleToggleDismissed = (recipeId: string) => {
+    dismissedStore.update((current) =>
+      current.includes(recipeId) ? current.filter((id) => id !== recipeId) : [...current, recipeId]
+    );
+  };
+
+  // Function to handle clicking on a recipe card
+  const handleViewDetails = (recipeId: string) => {
+    // Pass the searched ingredients along so the detail page can show substitutions
+    const have = parseIngredients(ingredients).join(',');
+    router.push(have ? `/recipes/${recipeId}?have=${encodeURIComponent(have)}` : `/recipes/${recipeId}`);
   };
 
   return (
@@ -103,10 +306,18 @@ export default function SearchPage() {
               <CardHeader>
                 <CardTitle>Your Ingredients</CardTitle>
                 <CardDescription>
-                  Enter ingredients separated by commas (e.g., chicken, tomatoes, garlic)
+                  Enter ingredients separated by commas (e.g., chicken, tomatoes, garlic), a search term, or both
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                <Input
+                  type="search"
+                  placeholder="Search recipes (e.g., curry, one-pot, vegan)..."
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                  aria-label="Search recipes by text"
+                />
                 <Textarea
                   placeholder="tomatoes, onion, garlic, olive oil, pasta..."
                   value={ingredients}
@@ -119,9 +330,57 @@ export default function SearchPage() {
 
                 {/* --- Filters Section Removed - Use FilterPanel Below --- */}
 
+                {/* Cook Now Mode */}
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={cookNow}
+                      onChange={(e) => setCookNow(e.target.checked)}
+                      aria-describedby="cook-now-description"
+                    />
+                    <span className="font-medium">🍳 Cook now</span>
+                  </label>
+                  {cookNow && (
+                    <label className="flex items-center gap-2">
+                      missing at most
+                      <select
+                        value={maxMissing}
+                        onChange={(e) => setMaxMissing(Number(e.target.value))}
+                        className="rounded-md border border-border bg-background px-2 py-1"
+                        aria-label="Maximum missing ingredients"
+                      >
+                        {[0, 1, 2, 3, 4, 5].map((n) => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
+                      ingredients
+                    </label>
+                  )}
+                  <span id="cook-now-description" className="text-xs text-muted-foreground">
+                    Shows recipes you can make with little or no shopping first
+                  </span>
+                </div>
+
+                {/* Personalization */}
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={personalize}
+                      onChange={(e) => handleTogglePersonalize(e.target.checked)}
+                      aria-describedby="personalize-description"
+                    />
+                    <span className="font-medium">✨ Personalize results</span>
+                  </label>
+                  <span id="personalize-description" className="text-xs text-muted-foreground">
+                    Ranks up your preferred cuisines, diet and ingredients from your favorites
+                  </span>
+                </div>
+
                 <Button
                   onClick={handleSearch}
-                  disabled={!ingredients.trim() || searching}
+                  disabled={!hasSearchInput || searching || (cookNow && !ingredients.trim())}
                   className="w-full"
                   aria-label={searching ? "Searching for recipes" : "Find recipes based on your ingredients"}
                 >
@@ -133,7 +392,7 @@ export default function SearchPage() {
             </Card>
 
             {/* Filter Panel */}
-             <FilterPanel onFilterChange={handleFilterChange} />
+             <FilterPanel facets={facets} />
 
 
             {/* Results Section */}
@@ -145,9 +404,9 @@ export default function SearchPage() {
                 </div>
               )}
               {error && (
-                 <ErrorMessage variant="generic" title="Search Error" message={error} onRetry={handleSearch} />
+                 <ErrorMessage code={error.code} title="Search Error" message={error.message} fieldErrors={error.fieldErrors} onRetry={handleSearch} />
               )}
-              {!searching && !error && searchResults.length === 0 && ingredients.trim() && (
+              {!searching && !error && searchResults.length === 0 && hasSearchInput && (
                  <Card>
                    <CardContent className="py-10 text-center">
                      <p className="text-muted-foreground">No recipes found matching your ingredients and filters. Try adjusting your search.</p>
@@ -156,11 +415,49 @@ export default function SearchPage() {
               )}
               {!searching && !error && searchResults.length > 0 && (
                 // Use RecipeGrid to display actual results
-                <RecipeGrid
-                  recipes={searchResults}
-                  onViewDetails={handleViewDetails} // Pass the navigation handler
-                  // Add onAddToMealPlan and onToggleFavorite if needed later
-                />
+                <>
+                  <p className="mb-2 text-sm text-muted-foreground">
+                    Showing {searchResults.length} of {totalMatches} recipes
+                  </p>
+                  {personalizationSummary && (
+                    <p className="mb-2 text-sm text-purple-600" aria-label="Personalization">
+                      ✨ Personalized: {personalizationSummary.boostedCount} ranked up
+                      {personalizationSummary.demotedCount > 0 && `, ${personalizationSummary.demotedCount} ranked down`}
+                      {personalizationSummary.favoriteIngredients.length > 0 &&
+                        ` (favorite ingredients: ${personalizationSummary.favoriteIngredients.slice(0, 5).join(", ")})`}
+                    </p>
+                  )}
+                  {describeAppliedFilters(appliedFilters).length > 0 && (
+                    <div className="mb-4 flex flex-wrap gap-2" aria-label="Applied filters">
+                      {describeAppliedFilters(appliedFilters).map((label) => (
+                        <Badge key={label} variant="info" size="sm">{label}</Badge>
+                      ))}
+                    </div>
+                  )}
+                  <RecipeGrid
+                    recipes={searchResults}
+                    onViewDetails={handleViewDetails} // Pass the navigation handler
+                    onToggleDismissed={handleToggleDismissed}
+                    dismissedIds={dismissedIds}
+                    ratings={ratingsById}
+                    lastCooked={lastCooked}
+                    // Add onAddToMealPlan and onToggleFavorite if needed later
+                  />
+                  {nextCursor && (
+                    <div className="mt-6 flex justify-center">
+                      <Button
+                        variant="secondary"
+                        onClick={handleLoadMore}
+                        disabled={loadingMore}
+                        aria-label="Load more recipes"
+                      >
+                        {loadingMore ? (
+                          <><LoadingSpinner size="sm" /> Loading...</>
+                        ) : "Load More"}
+                      </Button>
+                    </div>
+                  )}
+                </>
               )}
             </section>
           </div>
@@ -11,6 +11,9 @@ import type { DailyNutrition } from "@/types/nutrition";
 import type { DetailedRecipe, Ingredient } from "@/types/recipe";
 import type { ShoppingList, ShoppingItem, IngredientCategory } from "@/types/shopping"; 
 import { categorizeIngredient } from "@/lib/categoryClassifier"; 
+import { formatQuantity, parseIngredientLine } from "@/lib/ingredientParser";
+import { convertToSystem, formatAmount } from "@/lib/unitConversion";
+import { useProfile } from "@/contexts/ProfileContext";
 // --- Import jsPDF and autoTable ---
 import { jsPDF } from "jspdf";
 import autoTable from 'jspdf-autotable';
@@ -33,6 +36,14 @@ export default function ShoppingListPage() {
   const [newItemName, setNewItemName] = useState(""); 
   const [newItemAmount, setNewItemAmount] = useState(""); 
   const [showCompleted, setShowCompleted] = useState(false); 
+  const { profile } = useProfile();
+  const measurementSystem = profile?.measurementSystem || "original";
+
+  // Items are stored as added; amounts are shown in the profile's measurement units
+  const displayAmount = (item: ShoppingItem) => {
+    const { quantity, unit } = convertToSystem(item, measurementSystem);
+    return `${formatAmount(quantity)} ${unit}`;
+  };
 
   useEffect(() => {
     // Load from localStorage
@@ -60,12 +71,17 @@ export default function ShoppingListPage() {
   const addItem = () => {
     if (!newItemName.trim()) return; 
 
+    // The amount may be in either box: "2 lbs" + "chicken", or "2 lbs chicken" on its own
+    const parsed = parseIngredientLine(`${newItemAmount} ${newItemName}`);
+    if (!parsed) return;
+    const { ingredient } = parsed;
+
     const newItem: ShoppingItem = {
       id: `item_${Date.now()}`, 
-      name: newItemName.trim(), 
-      quantity: parseFloat(newItemAmount) || 1, 
-      unit: newItemAmount.replace(/[0-9.]/g, '').trim() || "unit", // Basic unit parsing
-      category: categorizeIngredient(newItemName.trim()), 
+      name: ingredient.name, 
+      quantity: ingredient.quantityMax ?? ingredient.quantity, // Enough for the top of a range
+      unit: ingredient.unit || "unit", 
+      category: categorizeIngredient(ingredient.name), 
       purchased: false, 
       fromRecipes: [], 
     };
@@ -137,7 +153,7 @@ export default function ShoppingListPage() {
         if (categoryItems.length > 0) {
             text += `${cat.icon} ${cat.label.toUpperCase()}\n`;
             categoryItems.forEach((item) => {
-                text += `  ○ ${item.name} (${item.quantity} ${item.unit})\n`;
+                text += `  ○ ${item.name} (${displayAmount(item)})\n`;
             });
             text += "\n";
         }
@@ -185,7 +201,7 @@ export default function ShoppingListPage() {
         if (categoryItems.length > 0) { 
           text += `${cat.icon} ${cat.label.toUpperCase()}\n`; 
           categoryItems.forEach((item) => {
-            text += `  ○ ${item.name} (${item.quantity} ${item.unit})\n`; 
+            text += `  ○ ${item.name} (${displayAmount(item)})\n`; 
           });
           text += "\n"; 
         }
@@ -220,11 +236,12 @@ export default function ShoppingListPage() {
         const categoryItems = itemsToExport.filter((item) => item.category === cat.name); 
         if (categoryItems.length > 0) { 
            categoryItems.forEach((item, index) => {
+             const { quantity, unit } = convertToSystem(item, measurementSystem);
              tableData.push([
                 index === 0 ? `${cat.icon} ${cat.label}` : "", 
                 item.name, 
-                item.quantity.toString(), 
-                item.unit 
+                formatQuantity(quantity), // Plain "1 1/2": the PDF font has no fraction characters
+                unit 
              ]);
            });
         }
@@ -312,7 +329,7 @@ export default function ShoppingListPage() {
               <div className="flex gap-3">
                 <input
                   type="text"
-                  placeholder="Item name (e.g., Tomatoes)"
+                  placeholder="Item (e.g., Tomatoes or 2 lbs chicken breast)"
                   value={newItemName}
                   onChange={(e) => setNewItemName(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && addItem()}
@@ -400,7 +417,7 @@ export default function ShoppingListPage() {
                               {item.name}
                             </span>
                             <span className="text-sm text-muted-foreground ml-2">
-                              ({item.quantity} {item.unit})
+                              ({displayAmount(item)})
                             </span>
                           </div>
                           <button
@@ -6,13 +6,17 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { getErrorVariant } from '@/lib/errorCodes';
+import type { ErrorVariant, FieldError } from '@/types/api';
 
-export type ErrorVariant = 'network' | 'notFound' | 'validation' | 'server' | 'generic';
+export type { ErrorVariant };
 
 interface ErrorMessageProps {
   variant?: ErrorVariant;
+  code?: string; // API error code; picks the variant when none is given
   title?: string;
   message: string;
+  fieldErrors?: FieldError[];
   details?: string;
   onRetry?: () => void;
   onNavigate?: {
@@ -54,15 +58,17 @@ const variantConfig: Record<
 };
 
 export function ErrorMessage({
-  variant = 'generic',
+  variant,
+  code,
   title,
   message,
+  fieldErrors = [],
   details,
   onRetry,
   onNavigate,
   showDetails = process.env.NODE_ENV === 'development',
 }: ErrorMessageProps) {
-  const config = variantConfig[variant];
+  const config = variantConfig[variant ?? getErrorVariant(code)];
   const displayTitle = title || config.title;
   const [detailsExpanded, setDetailsExpanded] = React.useState(false);
 
@@ -76,6 +82,17 @@ export function ErrorMessage({
         {/* Message */}
         <p className="text-gray-700 dark:text-gray-300">{message}</p>
 
+        {/* Per-field problems (beyond the one already in the message) */}
+        {fieldErrors.length > 1 && (
+          <ul className="text-sm text-left text-gray-600 dark:text-gray-400 list-disc pl-5">
+            {fieldErrors.map((fieldError) => (
+              <li key={`${fieldError.field}:${fieldError.message}`}>
+                <span className="font-mono">{fieldError.field}</span>: {fieldError.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Technical Details (Development Only) */}
         {showDetails && details && (
           <div className="w-full mt-4">
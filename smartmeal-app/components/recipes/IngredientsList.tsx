@@ -1,33 +1,41 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-
-interface Ingredient {
-  name: string;
-  amount: string;
-  unit: string;
-  substitutions?: string[];
-}
+import { useProfile } from "@/contexts/ProfileContext";
+import { convertIngredients, formatAmount } from "@/lib/unitConversion";
+import { getScaleFactor, MAX_SERVINGS, scaleIngredients } from "@/lib/recipeScaling";
+import type { Ingredient } from "@/types/recipe";
 
 interface IngredientsListProps {
-  ingredients: Ingredient[];
+  ingredients: Ingredient[]; // As written for recipeServings
+  recipeServings?: number; // Servings the amounts are written for; defaults to servings (no scaling)
   servings?: number;
   onServingsChange?: (servings: number) => void;
   availableIngredients?: string[];
 }
 
 /**
- * Ingredients list component with checkboxes and substitution suggestions
+ * Ingredients list component with checkboxes and substitution suggestions.
+ * Amounts are scaled from recipeServings to servings and shown in the
+ * measurement system chosen in the profile.
  */
 export function IngredientsList({
-  ingredients,
+  ingredients: recipeIngredients,
   servings = 4,
+  recipeServings = servings,
   onServingsChange,
   availableIngredients = [],
 }: IngredientsListProps) {
+  const { profile } = useProfile();
+  const measurementSystem = profile?.measurementSystem || "original";
+  const scaleFactor = getScaleFactor(recipeServings, servings);
+  const ingredients = useMemo(
+    () => convertIngredients(scaleIngredients(recipeIngredients, scaleFactor), measurementSystem),
+    [recipeIngredients, scaleFactor, measurementSystem]
+  );
   const [checkedItems, setCheckedItems] = useState<Set<number>>(new Set());
   const [showSubstitutions, setShowSubstitutions] = useState<number | null>(null);
 
@@ -42,7 +50,7 @@ export function IngredientsList({
   };
 
   const handleServingsChange = (delta: number) => {
-    const newServings = Math.max(1, servings + delta);
+    const newServings = Math.min(MAX_SERVINGS, Math.max(1, servings + delta));
     onServingsChange?.(newServings);
   };
 
@@ -82,6 +90,7 @@ export function IngredientsList({
                 variant="secondary"
                 size="sm"
                 onClick={() => handleServingsChange(1)}
+                disabled={servings >= MAX_SERVINGS}
                 aria-label="Increase servings"
               >
                 +
@@ -132,7 +141,7 @@ export function IngredientsList({
                     checked={checked}
                     onChange={() => handleCheck(index)}
                     className="mt-1 h-5 w-5 rounded border-gray-300 text-primary focus:ring-2 focus:ring-primary cursor-pointer"
-                    aria-label={`${ingredient.amount} ${ingredient.unit} ${ingredient.name}`}
+                    aria-label={`${formatAmount(ingredient.quantity, ingredient.quantityMax)} ${ingredient.unit} ${ingredient.name}`}
                   />
 
                   {/* Ingredient Details */}
@@ -144,9 +153,12 @@ export function IngredientsList({
                   >
                     <div className="flex items-center gap-2">
                       <span className="font-medium">
-                        {ingredient.amount} {ingredient.unit}
+                        {formatAmount(ingredient.quantity, ingredient.quantityMax)} {ingredient.unit}
                       </span>
                       <span>{ingredient.name}</span>
+                      {ingredient.preparation && (
+                        <span className="text-sm text-muted-foreground">{ingredient.preparation}</span>
+                      )}
                       
                       {/* Availability Badge */}
                       {available && (
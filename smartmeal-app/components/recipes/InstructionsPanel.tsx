@@ -9,6 +9,7 @@ interface InstructionsPanelProps {
   instructions: string[];
   prepTime?: number;
   cookTime?: number;
+  onComplete?: () => void; // Called when the last open step is marked done
 }
 
 /**
@@ -18,6 +19,7 @@ export function InstructionsPanel({
   instructions,
   prepTime,
   cookTime,
+  onComplete,
 }: InstructionsPanelProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [completedSteps, setCompletedSteps] = useState<Set<number>>(new Set());
@@ -31,6 +33,10 @@ export function InstructionsPanel({
     }
     setCompletedSteps(newCompleted);
 
+    if (newCompleted.size === instructions.length && completedSteps.size < instructions.length) {
+      onComplete?.();
+    }
+
     // Auto-advance to next step
     if (!newCompleted.has(stepIndex) && stepIndex < instructions.length - 1) {
       setCurrentStep(stepIndex + 1);
@@ -2,15 +2,127 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import type { Recipe } from "@/types/recipe";
+import type { RankingCriterion, RankingExplanation, Recipe, SortOption, TextSnippet } from "@/types/recipe";
 import Image from "next/image";
+import { StarRating } from "./StarRating";
+import { isNotCookedInAWhile } from "@/lib/cookingHistory";
 
 interface RecipeCardProps {
   recipe: Recipe;
   onViewDetails?: (recipeId: string) => void;
   onAddToMealPlan?: (recipeId: string) => void;
   onToggleFavorite?: (recipeId: string) => void;
+  onToggleDismissed?: (recipeId: string) => void; // "Not interested": personalized search ranks it down
   isFavorite?: boolean;
+  isDismissed?: boolean;
+  rating?: number; // The user's own 1-5 star rating
+  lastCookedAt?: string; // From the cooking history; never cooked when not set
+}
+
+/**
+ * Render a text snippet with its query hits highlighted
+ */
+function HighlightedSnippet({ snippet }: { snippet: TextSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+
+  return <p className="text-xs text-muted-foreground line-clamp-2">{parts}</p>;
+}
+
+const SORT_LABELS: Record<SortOption, string> = {
+  bestMatch: "Best match",
+  quickest: "Quickest",
+  easiest: "Easiest",
+  fewestMissing: "Fewest missing",
+  topRated: "Top rated",
+};
+
+const CRITERION_LABELS: Record<RankingCriterion, string> = {
+  weightedMatch: "weighted match",
+  personalizedMatch: "personalized match",
+  relevance: "text relevance",
+  matchPercentage: "ingredient match",
+  totalTime: "total time",
+  missingCount: "missing ingredients",
+  missingWeight: "how essential the missing ones are",
+  difficulty: "difficulty",
+  userRating: "your rating",
+  id: "recipe ID",
+};
+
+const formatWeight = (weight: number) => String(Math.round(weight * 100) / 100);
+
+/**
+ * Expandable "Why this recipe?" breakdown of a search result's ranking
+ */
+function RankingExplanationDetails({ explanation }: { explanation: RankingExplanation }) {
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-muted-foreground hover:text-primary">Why this recipe?</summary>
+      <div className="mt-2 space-y-2">
+        <p>
+          {explanation.score}% weighted match, sorted by {SORT_LABELS[explanation.sortBy] ?? explanation.sortBy}
+          {explanation.decidedBy && <> (placed after the previous result on {CRITERION_LABELS[explanation.decidedBy]})</>}
+        </p>
+
+        {explanation.contributions.length > 0 && (
+          <ul aria-label="Match contributions">
+            {explanation.contributions.map((contribution, index) => (
+              <li
+                key={`${contribution.ingredient}-${index}`}
+                className={
+                  contribution.status === "matched"
+                    ? "text-green-600"
+                    : contribution.status === "substituted"
+                    ? "text-blue-600"
+                    : "text-muted-foreground"
+                }
+              >
+                <span aria-hidden="true">
+                  {contribution.status === "matched" ? "✓" : contribution.status === "substituted" ? "⇄" : "✗"}
+                </span>{" "}
+                {contribution.ingredient}
+                {contribution.via && contribution.via !== contribution.ingredient && <> via {contribution.via}</>} ({contribution.role},{" "}
+                {formatWeight(contribution.credit)}/{formatWeight(contribution.weight)})
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {explanation.boosts.length > 0 && (
+          <ul aria-label="Personalization boosts">
+            {explanation.boosts.map((boost) => (
+              <li key={boost.reason} className={boost.points < 0 ? "text-orange-600" : "text-purple-600"}>
+                {boost.points > 0 ? "+" : ""}
+                {formatWeight(boost.points)} {boost.reason}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {explanation.filtersPassed.length > 0 && (
+          <p className="text-muted-foreground">
+            Passed: {explanation.filtersPassed.map((filter) => `${filter.name} (${filter.detail})`).join("; ")}
+          </p>
+        )}
+
+        <p className="text-muted-foreground">
+          Tie-breakers: {explanation.tieBreakers.map((criterion) => CRITERION_LABELS[criterion]).join(" → ")}
+        </p>
+      </div>
+    </details>
+  );
 }
 
 export function RecipeCard({
@@ -18,7 +130,11 @@ export function RecipeCard({
   onViewDetails,
   onAddToMealPlan,
   onToggleFavorite,
+  onToggleDismissed,
   isFavorite = false,
+  isDismissed = false,
+  rating,
+  lastCookedAt,
 }: RecipeCardProps) {
   const matchPercentage = recipe.matchPercentage || 0;
   const hasMatch = matchPercentage > 0;
@@ -73,11 +189,13 @@ export function RecipeCard({
         <CardTitle id={`recipe-title-${recipe.id}`} className="line-clamp-2 text-lg">
           {recipe.title}
         </CardTitle>
+        {rating && <StarRating rating={rating} />}
       </CardHeader>
 
       <CardContent className="space-y-3">
         {/* Tags */}
         <div className="flex flex-wrap gap-2" role="list" aria-label="Recipe tags">
+          {recipe.source === "user" && <Badge variant="warning" size="sm" role="listitem">My recipe</Badge>}
           <Badge variant="info" size="sm" role="listitem">{recipe.cuisine}</Badge>
           <Badge
             variant={
@@ -93,8 +211,18 @@ export function RecipeCard({
             {recipe.difficulty}
           </Badge>
           <Badge variant="neutral" size="sm" role="listitem">{recipe.mealType}</Badge>
+          {isNotCookedInAWhile(lastCookedAt) && (
+            <Badge variant="warning" size="sm" role="listitem" title={`Last cooked ${new Date(lastCookedAt!).toLocaleDateString()}`}>
+              Not cooked in a while
+            </Badge>
+          )}
         </div>
 
+        {/* Text Search Snippet (best non-title hit) */}
+        {recipe.snippets && recipe.snippets.some((snippet) => snippet.field !== "title") && (
+          <HighlightedSnippet snippet={recipe.snippets.find((snippet) => snippet.field !== "title")!} />
+        )}
+
         {/* Time Info */}
         <div className="grid grid-cols-3 gap-2 text-center text-sm" role="group" aria-label="Recipe timing information">
           <div>
@@ -117,14 +245,40 @@ export function RecipeCard({
             <div className="text-green-600">
               <span aria-hidden="true">✓</span> {recipe.availableIngredients.length} ingredients you have
             </div>
+            {/* Matches that resolved through a synonym or variant */}
+            {recipe.matchedIngredients
+              ?.filter((match) => match.matchType === "synonym" || match.matchType === "variant")
+              .map((match) => (
+                <div key={match.recipeIngredient} className="text-muted-foreground">
+                  {match.userIngredient} → {match.canonical}
+                </div>
+              ))}
+            {recipe.substitutedIngredients && recipe.substitutedIngredients.length > 0 && (
+              <div className="text-blue-600">
+                <span aria-hidden="true">⇄</span> {recipe.substitutedIngredients.length} with substitutions
+              </div>
+            )}
             {recipe.missingIngredients.length > 0 && (
               <div className="text-orange-600">
                 <span aria-hidden="true">⚠</span> {recipe.missingIngredients.length} ingredients needed
               </div>
             )}
+            {/* "Cook now" mode: exactly what to pick up, by store section */}
+            {recipe.missingByCategory && recipe.missingByCategory.length > 0 && (
+              <ul className="pl-4 text-muted-foreground" aria-label="Missing ingredients by shopping category">
+                {recipe.missingByCategory.map((group) => (
+                  <li key={group.category}>
+                    <span className="font-medium">{group.label}:</span> {group.items.join(", ")}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
+        {/* Ranking explanation (search results only) */}
+        {recipe.explanation && <RankingExplanationDetails explanation={recipe.explanation} />}
+
         {/* Action Buttons */}
         <div className="flex gap-2 pt-2" role="group" aria-label="Recipe actions">
           <Button
@@ -144,6 +298,18 @@ export function RecipeCard({
           >
             + Plan
           </Button>
+          {onToggleDismissed && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onToggleDismissed(recipe.id)}
+              aria-pressed={isDismissed}
+              aria-label={isDismissed ? `Undo not interested in ${recipe.title}` : `Not interested in ${recipe.title}`}
+              title={isDismissed ? "Undo not interested" : "Not interested"}
+            >
+              {isDismissed ? "↺" : "✕"}
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
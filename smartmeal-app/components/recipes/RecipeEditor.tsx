@@ -0,0 +1,503 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ErrorMessage } from "@/components/common/ErrorMessage";
+import type { DetailedRecipe, Nutrition, RecipeInput } from "@/types/recipe";
+import type { FieldError } from "@/types/api";
+import {
+  NUTRITION_FIELDS,
+  RECIPE_DIFFICULTIES,
+  RECIPE_MEAL_TYPES,
+  createEmptyRecipeInput,
+  recipeInputSchema,
+  recipeToInput,
+} from "@/lib/recipeInput";
+import { validate } from "@/lib/validation";
+import { formatQuantity, parseIngredientLines, parseQuantity } from "@/lib/ingredientParser";
+import { ApiRequestError } from "@/lib/errorCodes";
+import logger from "@/lib/debug";
+
+// Rows carry a key so React keeps the right inputs when rows are removed or moved
+interface IngredientRow {
+  key: number;
+  name: string;
+  quantity: string; // As typed: "1 1/2", "½" or a range such as "2-3"
+  unit: string;
+  preparation: string;
+  substitutions: string; // Comma-separated
+}
+
+interface InstructionRow {
+  key: number;
+  text: string;
+  timerMinutes: string;
+}
+
+// The form's state: numbers are kept as typed and converted on save
+interface RecipeDraft {
+  title: string;
+  description: string;
+  image: string;
+  prepTime: string;
+  cookTime: string;
+  servings: string;
+  difficulty: string;
+  mealType: string;
+  cuisine: string;
+  dietaryTags: string; // Comma-separated
+  videoId: string;
+  nutrition: Record<keyof Nutrition, string>;
+  ingredients: IngredientRow[];
+  instructions: InstructionRow[];
+}
+
+const NUTRITION_LABELS: Record<keyof Nutrition, string> = {
+  calories: "Calories",
+  protein: "Protein (g)",
+  carbs: "Carbs (g)",
+  fats: "Fats (g)",
+  fiber: "Fiber (g)",
+  sodium: "Sodium (mg)",
+  sugar: "Sugar (g)",
+};
+
+const SELECT_CLASS_NAME =
+  "w-full px-4 py-2 h-12 border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary";
+
+let nextRowKey = 0;
+const rowKey = () => nextRowKey++;
+
+const splitList = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+// A typed amount as quantity and quantityMax; anything unreadable is passed on for the schema to report
+function toQuantity(value: string) {
+  if (value.trim() === "") return { quantity: undefined };
+  const parsed = parseQuantity(value);
+  if (!parsed || parsed.rest) return { quantity: value };
+  return { quantity: parsed.quantity, quantityMax: parsed.quantityMax };
+}
+
+const emptyIngredientRow = (): IngredientRow => ({ key: rowKey(), name: "", quantity: "", unit: "", preparation: "", substitutions: "" });
+
+function toDraft(input: RecipeInput): RecipeDraft {
+  return {
+    title: input.title,
+    description: input.description,
+    image: input.image || "",
+    prepTime: String(input.prepTime),
+    cookTime: String(input.cookTime),
+    servings: String(input.servings),
+    difficulty: input.difficulty,
+    mealType: input.mealType,
+    cuisine: input.cuisine,
+    dietaryTags: input.dietaryTags.join(", "),
+    videoId: input.videoId || "",
+    nutrition: Object.fromEntries(
+      NUTRITION_FIELDS.map((field) => [field, String(input.nutrition[field])])
+    ) as Record<keyof Nutrition, string>,
+    ingredients: input.ingredients.map((ingredient) => ({
+      key: rowKey(),
+      name: ingredient.name,
+      quantity: formatQuantity(ingredient.quantity, ingredient.quantityMax),
+      unit: ingredient.unit,
+      preparation: ingredient.preparation || "",
+      substitutions: (ingredient.substitutions || []).join(", "),
+    })),
+    instructions: input.instructions.map((instruction) => ({
+      key: rowKey(),
+      text: instruction.text,
+      timerMinutes: instruction.timerDuration ? String(Math.round(instruction.timerDuration / 60)) : "",
+    })),
+  };
+}
+
+// The request body; left unvalidated so the schema reports every problem
+function fromDraft(draft: RecipeDraft) {
+  return {
+    title: draft.title,
+    description: draft.description,
+    image: draft.image.trim() || undefined,
+    prepTime: toNumber(draft.prepTime),
+    cookTime: toNumber(draft.cookTime),
+    servings: toNumber(draft.servings),
+    difficulty: draft.difficulty,
+    mealType: draft.mealType,
+    cuisine: draft.cuisine,
+    ingredients: draft.ingredients.map((row) => ({
+      name: row.name,
+      ...toQuantity(row.quantity),
+      unit: row.unit,
+      preparation: row.preparation.trim() || undefined,
+      substitutions: splitList(row.substitutions),
+    })),
+    instructions: draft.instructions.map((row) => {
+      const minutes = toNumber(row.timerMinutes);
+      return { text: row.text, timerDuration: minutes === undefined ? undefined : Math.round(minutes * 60) };
+    }),
+    nutrition: Object.fromEntries(NUTRITION_FIELDS.map((field) => [field, toNumber(draft.nutrition[field])])),
+    dietaryTags: splitList(draft.dietaryTags),
+    videoId: draft.videoId.trim() || undefined,
+  };
+}
+
+function FieldHint({ errors }: { errors: FieldError[] }) {
+  if (errors.length === 0) return null;
+  return (
+    <ul className="mt-1 text-sm text-error" role="alert">
+      {errors.map((error) => (
+        <li key={`${error.field}-${error.message}`}>{error.message}</li>
+      ))}
+    </ul>
+  );
+}
+
+interface RecipeEditorProps {
+  recipe?: DetailedRecipe; // The user recipe to edit; a new recipe when left out
+  initialInput?: RecipeInput; // Starting values for a new recipe, e.g. from an import
+  intro?: React.ReactNode; // Shown above the form
+}
+
+/**
+ * Form for writing or editing a user recipe, with rows of ingredients and
+ * steps that can be added, removed and reordered
+ */
+export function RecipeEditor({ recipe, initialInput, intro }: RecipeEditorProps) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<RecipeDraft>(() =>
+    toDraft(recipe ? recipeToInput(recipe) : initialInput || createEmptyRecipeInput())
+  );
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [saveError, setSaveError] = useState<ApiRequestError | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pastedIngredients, setPastedIngredients] = useState("");
+
+  const isEditing = !!recipe;
+
+  // Errors for a field, or for every field under a prefix such as "ingredients[0]"
+  const errorsFor = (field: string) =>
+    fieldErrors.filter((error) => error.field === field || error.field.startsWith(`${field}.`) || error.field.startsWith(`${field}[`));
+
+  const update = <K extends keyof RecipeDraft>(field: K, value: RecipeDraft[K]) => {
+    setDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  const updateIngredient = (key: number, changes: Partial<IngredientRow>) => {
+    update("ingredients", draft.ingredients.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  // Rows from a pasted list ("2 cups flour" per line), replacing the row left blank
+  const addPastedIngredients = () => {
+    const rows = parseIngredientLines(pastedIngredients).map(({ ingredient }) => ({
+      key: rowKey(),
+      name: ingredient.name,
+      quantity: formatQuantity(ingredient.quantity, ingredient.quantityMax),
+      unit: ingredient.unit,
+      preparation: ingredient.preparation || "",
+      substitutions: (ingredient.substitutions || []).join(", "),
+    }));
+    if (rows.length === 0) return;
+    const kept = draft.ingredients.filter((row) => row.name.trim() || row.quantity.trim() || row.unit.trim());
+    update("ingredients", [...kept, ...rows]);
+    setPastedIngredients("");
+    logger.debug('RecipeEditor:Ingredients', `Added ${rows.length} pasted ingredients`);
+  };
+
+  const updateInstruction = (key: number, changes: Partial<InstructionRow>) => {
+    update("instructions", draft.instructions.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const moveInstruction = (index: number, offset: -1 | 1) => {
+    const rows = [...draft.instructions];
+    [rows[index], rows[index + offset]] = [rows[index + offset], rows[index]];
+    update("instructions", rows);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaveError(null);
+
+    // Check locally first so problems show without a round trip
+    const parsed = validate(recipeInputSchema, fromDraft(draft));
+    if (!parsed.ok) {
+      setFieldErrors(parsed.errors);
+      logger.debug('RecipeEditor:Validate', 'Recipe has invalid fields', { fieldErrors: parsed.errors });
+      return;
+    }
+    setFieldErrors([]);
+
+    setSaving(true);
+    try {
+      const response = await fetch(isEditing ? `/api/recipes/${encodeURIComponent(recipe.id)}` : "/api/recipes", {
+        method: isEditing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(parsed.value),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new ApiRequestError(data, response.status);
+
+      logger.info('RecipeEditor:Save', `Saved recipe ${data.recipe.id}`, { isEditing });
+      router.push(`/recipes/${encodeURIComponent(data.recipe.id)}`);
+    } catch (error) {
+      const requestError = ApiRequestError.from(error, "Failed to save the recipe.");
+      logger.error('RecipeEditor:Save', 'Failed to save recipe', { code: requestError.code }, requestError);
+      setFieldErrors(requestError.fieldErrors);
+      setSaveError(requestError);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="min-h-screen bg-background" onSubmit={handleSubmit} noValidate>
+      {/* Header */}
+      <div className="bg-white border-b sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold">{isEditing ? "Edit Recipe" : "New Recipe"}</h1>
+              <p className="text-muted-foreground">
+                {isEditing ? recipe.title : "Write down a recipe of your own"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="ghost" onClick={() => router.back()}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" disabled={saving}>
+                {saving ? "Saving..." : "💾 Save Recipe"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <main className="container mx-auto px-6 py-8 max-w-4xl space-y-6" id="main-content">
+        {intro}
+        {saveError && (
+          <ErrorMessage code={saveError.code} message={saveError.message} fieldErrors={saveError.fieldErrors} />
+        )}
+        {!saveError && fieldErrors.length > 0 && (
+          <p className="rounded-lg border border-error/30 bg-error/5 px-4 py-3 text-sm text-error" role="alert">
+            Please fix the {fieldErrors.length === 1 ? "problem" : `${fieldErrors.length} problems`} below before saving.
+          </p>
+        )}
+
+        {/* Basics */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Basics</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <label htmlFor="recipe-title" className="block text-sm font-medium mb-2">Title</label>
+              <Input id="recipe-title" value={draft.title} onChange={(e) => update("title", e.target.value)} placeholder="e.g. Weeknight Chana Masala" />
+              <FieldHint errors={errorsFor("title")} />
+            </div>
+            <div>
+              <label htmlFor="recipe-description" className="block text-sm font-medium mb-2">Description</label>
+              <Textarea id="recipe-description" value={draft.description} onChange={(e) => update("description", e.target.value)} className="min-h-[80px]" />
+              <FieldHint errors={errorsFor("description")} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="recipe-cuisine" className="block text-sm font-medium mb-2">Cuisine</label>
+                <Input id="recipe-cuisine" value={draft.cuisine} onChange={(e) => update("cuisine", e.target.value)} placeholder="e.g. indian" />
+                <FieldHint errors={errorsFor("cuisine")} />
+              </div>
+              <div>
+                <label htmlFor="recipe-difficulty" className="block text-sm font-medium mb-2">Difficulty</label>
+                <select id="recipe-difficulty" value={draft.difficulty} onChange={(e) => update("difficulty", e.target.value)} className={SELECT_CLASS_NAME}>
+                  {RECIPE_DIFFICULTIES.map((difficulty) => (
+                    <option key={difficulty} value={difficulty}>{difficulty}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="recipe-meal-type" className="block text-sm font-medium mb-2">Meal</label>
+                <select id="recipe-meal-type" value={draft.mealType} onChange={(e) => update("mealType", e.target.value)} className={SELECT_CLASS_NAME}>
+                  {RECIPE_MEAL_TYPES.map((mealType) => (
+                    <option key={mealType} value={mealType}>{mealType}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="recipe-prep-time" className="block text-sm font-medium mb-2">Prep time (min)</label>
+                <Input id="recipe-prep-time" type="number" min={0} value={draft.prepTime} onChange={(e) => update("prepTime", e.target.value)} />
+                <FieldHint errors={errorsFor("prepTime")} />
+              </div>
+              <div>
+                <label htmlFor="recipe-cook-time" className="block text-sm font-medium mb-2">Cook time (min)</label>
+                <Input id="recipe-cook-time" type="number" min={0} value={draft.cookTime} onChange={(e) => update("cookTime", e.target.value)} />
+                <FieldHint errors={errorsFor("cookTime")} />
+              </div>
+              <div>
+                <label htmlFor="recipe-servings" className="block text-sm font-medium mb-2">Servings</label>
+                <Input id="recipe-servings" type="number" min={1} value={draft.servings} onChange={(e) => update("servings", e.target.value)} />
+                <FieldHint errors={errorsFor("servings")} />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="recipe-tags" className="block text-sm font-medium mb-2">Dietary tags (comma-separated)</label>
+              <Input id="recipe-tags" value={draft.dietaryTags} onChange={(e) => update("dietaryTags", e.target.value)} placeholder="e.g. vegetarian, gluten-free" />
+              <FieldHint errors={errorsFor("dietaryTags")} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="recipe-image" className="block text-sm font-medium mb-2">Image path (optional)</label>
+                <Input id="recipe-image" value={draft.image} onChange={(e) => update("image", e.target.value)} placeholder="/images/my-recipe.jpg" />
+                <FieldHint errors={errorsFor("image")} />
+              </div>
+              <div>
+                <label htmlFor="recipe-video" className="block text-sm font-medium mb-2">YouTube video id (optional)</label>
+                <Input id="recipe-video" value={draft.videoId} onChange={(e) => update("videoId", e.target.value)} placeholder="dQw4w9WgXcQ" />
+                <FieldHint errors={errorsFor("videoId")} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Ingredients */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Ingredients</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FieldHint errors={fieldErrors.filter((error) => error.field === "ingredients")} />
+            {draft.ingredients.map((row, index) => (
+              <fieldset key={row.key} className="rounded-lg border border-border p-4">
+                <legend className="px-1 text-sm font-medium">Ingredient {index + 1}</legend>
+                <div className="grid grid-cols-2 sm:grid-cols-6 gap-3">
+                  <Input aria-label={`Ingredient ${index + 1} quantity`} inputMode="decimal" value={row.quantity} onChange={(e) => updateIngredient(row.key, { quantity: e.target.value })} placeholder="Qty" />
+                  <Input aria-label={`Ingredient ${index + 1} unit`} value={row.unit} onChange={(e) => updateIngredient(row.key, { unit: e.target.value })} placeholder="Unit" />
+                  <Input aria-label={`Ingredient ${index + 1} name`} className="col-span-2 sm:col-span-4" value={row.name} onChange={(e) => updateIngredient(row.key, { name: e.target.value })} placeholder="Ingredient" />
+                  <Input aria-label={`Ingredient ${index + 1} preparation`} className="col-span-2 sm:col-span-2" value={row.preparation} onChange={(e) => updateIngredient(row.key, { preparation: e.target.value })} placeholder="Preparation, e.g. minced" />
+                  <Input aria-label={`Ingredient ${index + 1} substitutes`} className="col-span-2 sm:col-span-3" value={row.substitutions} onChange={(e) => updateIngredient(row.key, { substitutions: e.target.value })} placeholder="Substitutes, comma-separated (optional)" />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update("ingredients", draft.ingredients.filter((other) => other.key !== row.key))}
+                    disabled={draft.ingredients.length === 1}
+                    aria-label={`Remove ingredient ${index + 1}`}
+                  >
+                    ✕ Remove
+                  </Button>
+                </div>
+                <FieldHint errors={errorsFor(`ingredients[${index}]`)} />
+              </fieldset>
+            ))}
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={() => update("ingredients", [...draft.ingredients, emptyIngredientRow()])}
+            >
+              + Add Ingredient
+            </Button>
+            <div className="rounded-lg border border-dashed border-border p-4 space-y-3">
+              <label htmlFor="recipe-paste-ingredients" className="block text-sm font-medium">
+                Paste an ingredient list
+              </label>
+              <Textarea
+                id="recipe-paste-ingredients"
+                value={pastedIngredients}
+                onChange={(e) => setPastedIngredients(e.target.value)}
+                placeholder={"One per line, e.g.\n1 1/2 cups diced tomatoes (or canned)\n2-3 cloves garlic, minced"}
+                rows={4}
+              />
+              <Button type="button" variant="secondary" size="sm" onClick={addPastedIngredients} disabled={!pastedIngredients.trim()}>
+                + Add Lines as Ingredients
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Instructions */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Instructions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FieldHint errors={fieldErrors.filter((error) => error.field === "instructions")} />
+            {draft.instructions.map((row, index) => (
+              <fieldset key={row.key} className="rounded-lg border border-border p-4">
+                <legend className="px-1 text-sm font-medium">Step {index + 1}</legend>
+                <Textarea
+                  aria-label={`Step ${index + 1}`}
+                  value={row.text}
+                  onChange={(e) => updateInstruction(row.key, { text: e.target.value })}
+                  className="min-h-[80px]"
+                />
+                <div className="mt-3 flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-2 text-sm">
+                    Timer (min)
+                    <Input type="number" min={0} step="any" value={row.timerMinutes} onChange={(e) => updateInstruction(row.key, { timerMinutes: e.target.value })} className="h-10 w-24" />
+                  </label>
+                  <div className="ml-auto flex gap-1">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => moveInstruction(index, -1)} disabled={index === 0} aria-label={`Move step ${index + 1} up`}>
+                      ↑
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => moveInstruction(index, 1)} disabled={index === draft.instructions.length - 1} aria-label={`Move step ${index + 1} down`}>
+                      ↓
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => update("instructions", draft.instructions.filter((other) => other.key !== row.key))}
+                      disabled={draft.instructions.length === 1}
+                      aria-label={`Remove step ${index + 1}`}
+                    >
+                      ✕ Remove
+                    </Button>
+                  </div>
+                </div>
+                <FieldHint errors={errorsFor(`instructions[${index}]`)} />
+              </fieldset>
+            ))}
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={() => update("instructions", [...draft.instructions, { key: rowKey(), text: "", timerMinutes: "" }])}
+            >
+              + Add Step
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Nutrition */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Nutrition (per serving)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {NUTRITION_FIELDS.map((field) => (
+                <div key={field}>
+                  <label htmlFor={`nutrition-${field}`} className="block text-sm font-medium mb-2">{NUTRITION_LABELS[field]}</label>
+                  <Input
+                    id={`nutrition-${field}`}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draft.nutrition[field]}
+                    onChange={(e) => update("nutrition", { ...draft.nutrition, [field]: e.target.value })}
+                  />
+                  <FieldHint errors={errorsFor(`nutrition.${field}`)} />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </form>
+  );
+}
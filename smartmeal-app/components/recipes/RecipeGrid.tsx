@@ -7,7 +7,11 @@ interface RecipeGridProps {
   onViewDetails?: (recipeId: string) => void;
   onAddToMealPlan?: (recipeId: string) => void;
   onToggleFavorite?: (recipeId: string) => void;
+  onToggleDismissed?: (recipeId: string) => void;
   favoriteIds?: string[];
+  dismissedIds?: string[];
+  ratings?: Record<string, number>; // The user's star ratings by recipe id
+  lastCooked?: Record<string, string>; // When each recipe was last cooked, by recipe id
   emptyMessage?: string;
 }
 
@@ -16,7 +20,11 @@ export function RecipeGrid({
   onViewDetails,
   onAddToMealPlan,
   onToggleFavorite,
+  onToggleDismissed,
   favoriteIds = [],
+  dismissedIds = [],
+  ratings = {},
+  lastCooked = {},
   emptyMessage = "No recipes found",
 }: RecipeGridProps) {
   if (recipes.length === 0) {
@@ -36,7 +44,11 @@ export function RecipeGrid({
           onViewDetails={onViewDetails}
           onAddToMealPlan={onAddToMealPlan}
           onToggleFavorite={onToggleFavorite}
+          onToggleDismissed={onToggleDismissed}
           isFavorite={favoriteIds.includes(recipe.id)}
+          isDismissed={dismissedIds.includes(recipe.id)}
+          rating={ratings[recipe.id]}
+          lastCookedAt={lastCooked[recipe.id]}
         />
       ))}
     </div>
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSkeleton } from "@/components/common/Loading";
+import type { SimilarRecipe } from "@/types/recipe";
+import logger from "@/lib/debug";
+
+interface SimilarRecipesRailProps {
+  recipeId: string;
+  limit?: number;
+}
+
+/**
+ * Horizontal "More like this" rail of recipes similar to the given one
+ */
+export function SimilarRecipesRail({ recipeId, limit = 6 }: SimilarRecipesRailProps) {
+  const [recipes, setRecipes] = useState<SimilarRecipe[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/recipes/${encodeURIComponent(recipeId)}/similar?limit=${limit}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`API Error: ${response.status}`);
+        const data = await response.json();
+        if (!cancelled) setRecipes(Array.isArray(data.recipes) ? data.recipes : []);
+      })
+      .catch((error) => {
+        logger.warn('RecipeDetail:Similar', `Failed to load similar recipes for ${recipeId}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        if (!cancelled) setRecipes([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recipeId, limit]);
+
+  // Nothing worth showing
+  if (recipes && recipes.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>More like this</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="flex gap-4 overflow-x-auto pb-2" aria-label="Similar recipes" aria-busy={recipes === null}>
+          {recipes === null
+            ? Array.from({ length: 3 }, (_, index) => (
+                <li key={index} className="w-48 flex-shrink-0">
+                  <LoadingSkeleton className="aspect-video w-full mb-2" />
+                  <LoadingSkeleton className="h-4 w-3/4" />
+                </li>
+              ))
+            : recipes.map((recipe) => (
+                <li key={recipe.id} className="w-48 flex-shrink-0">
+                  <Link href={`/recipes/${recipe.id}`} className="group block">
+                    <div className="relative aspect-video rounded-lg overflow-hidden bg-gray-100 mb-2">
+                      <Image
+                        src={recipe.image || "/images/placeholder-recipe.png"}
+                        alt={`${recipe.title} recipe photo`}
+                        fill
+                        className="object-cover"
+                      />
+                    </div>
+                    <p className="text-sm font-medium line-clamp-2 group-hover:text-primary">{recipe.title}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant="info" size="sm">{recipe.cuisine}</Badge>
+                      <Badge variant="neutral" size="sm">{Math.round(recipe.similarity * 100)}% similar</Badge>
+                    </div>
+                    {recipe.sharedIngredients.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1 line-clamp-1">
+                        Also uses {recipe.sharedIngredients.slice(0, 3).join(", ")}
+                      </p>
+                    )}
+                  </Link>
+                </li>
+              ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
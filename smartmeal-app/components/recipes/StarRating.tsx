@@ -0,0 +1,48 @@
+"use client";
+
+import React from "react";
+
+interface StarRatingProps {
+  rating?: number; // 1-5; no stars filled when unrated
+  onChange?: (rating: number | null) => void; // Read-only when omitted
+  size?: "sm" | "lg";
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+/**
+ * 1-5 star rating, read-only or clickable. Clicking the current rating clears it.
+ */
+export function StarRating({ rating, onChange, size = "sm" }: StarRatingProps) {
+  const textSize = size === "lg" ? "text-2xl" : "text-sm";
+
+  if (!onChange) {
+    return (
+      <span className={`${textSize} text-yellow-500`} aria-label={rating ? `Rated ${rating} out of 5` : "Not rated"}>
+        {STARS.map((star) => (
+          <span key={star} aria-hidden="true" className={star <= (rating || 0) ? "" : "text-gray-300"}>
+            ★
+          </span>
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <div className={`flex ${textSize}`} role="radiogroup" aria-label="Your rating">
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={rating === star}
+          aria-label={`${star} star${star > 1 ? "s" : ""}`}
+          onClick={() => onChange(rating === star ? null : star)}
+          className={`px-0.5 transition-colors hover:text-yellow-400 ${star <= (rating || 0) ? "text-yellow-500" : "text-gray-300"}`}
+        >
+          ★
+        </button>
+      ))}
+    </div>
+  );
+}
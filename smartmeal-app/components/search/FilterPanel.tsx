@@ -1,121 +1,197 @@
 "use client";
 
 import React, { useState } from "react";
+import { useRouter, usePathname, useSearchParams } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { CuisineType, DietaryFilter } from "@/types/recipe";
+import { Input } from "@/components/ui/input";
+import { searchRequestFromParams, searchRequestToParams } from "@/lib/searchQueryString";
+import type { FacetCount, SearchFacets, SortOption } from "@/types/recipe";
+
+// The filters this panel manages
+export interface FilterPanelFilters {
+  cuisine?: string;
+  dietaryFilters: string[];
+  difficulty: string[];
+  mealTypes: string[];
+  maxTime?: number;
+  maxCalories?: number; // Per serving
+  highProtein: boolean;
+  excludeIngredients: string[];
+  sortBy?: SortOption;
+}
 
 interface FilterPanelProps {
-  onFilterChange: (filters: {
-    cuisine?: string;
-    dietaryFilters: string[];
-    difficulty?: string;
-    maxTime?: number;
-  }) => void;
-  initialFilters?: {
-    cuisine?: string;
-    dietaryFilters?: string[];
-    difficulty?: string;
-    maxTime?: number;
-  };
+  onFilterChange?: (filters: FilterPanelFilters) => void;
+  facets?: SearchFacets; // Options and counts from the last search
 }
 
-const CUISINES = [
-  { value: "all", label: "All Cuisines" },
-  { value: "italian", label: "Italian" },
-  { value: "chinese", label: "Chinese" },
-  { value: "mexican", label: "Mexican" },
-  { value: "indian", label: "Indian" },
-  { value: "thai", label: "Thai" },
-  { value: "japanese", label: "Japanese" },
-  { value: "mediterranean", label: "Mediterranean" },
-  { value: "american", label: "American" },
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: "bestMatch", label: "Best match" },
+  { value: "fewestMissing", label: "Fewest missing" },
+  { value: "quickest", label: "Quickest" },
+  { value: "easiest", label: "Easiest" },
+  { value: "topRated", label: "Top rated" },
 ];
 
-const DIETARY_FILTERS = [
-  { value: "vegetarian", label: "Vegetarian", icon: "🥬" },
-  { value: "vegan", label: "Vegan", icon: "🌱" },
-  { value: "gluten-free", label: "Gluten-Free", icon: "🌾" },
-  { value: "keto", label: "Keto", icon: "🥑" },
-  { value: "low-carb", label: "Low-Carb", icon: "🥗" },
+const DIETARY_ICONS: Record<string, string> = {
+  vegetarian: "🥬",
+  vegan: "🌱",
+  "gluten-free": "🌾",
+  keto: "🥑",
+  "low-carb": "🥗",
+};
+
+const CALORIE_LIMITS = [
+  { value: 400, label: "Under 400 kcal" },
+  { value: 600, label: "Under 600 kcal" },
+  { value: 800, label: "Under 800 kcal" },
 ];
 
-const DIFFICULTIES = ["Easy", "Medium", "Hard"];
+/**
+ * Facet options plus any selected value the current results no longer contain,
+ * so an active filter can always be switched off
+ */
+function withSelected(options: FacetCount[] | undefined, selected: string[]): FacetCount[] {
+  const list = options ? [...options] : [];
+  selected.forEach((value) => {
+    if (!list.some((option) => option.value === value)) {
+      list.push({ value, label: value, count: 0 });
+    }
+  });
+  return list;
+}
 
-const TIME_RANGES = [
-  { value: 15, label: "Under 15 min" },
-  { value: 30, label: "Under 30 min" },
-  { value: 45, label: "Under 45 min" },
-  { value: 60, label: "Under 1 hour" },
-];
+export function FilterPanel({ onFilterChange, facets }: FilterPanelProps) {
+  // Filters live in the URL so a search link reproduces them
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const request = searchRequestFromParams(new URLSearchParams(searchParams.toString()));
 
-export function FilterPanel({ onFilterChange, initialFilters }: FilterPanelProps) {
-  const [cuisine, setCuisine] = useState(initialFilters?.cuisine || "all");
-  const [dietaryFilters, setDietaryFilters] = useState<string[]>(
-    initialFilters?.dietaryFilters || []
-  );
-  const [difficulty, setDifficulty] = useState(initialFilters?.difficulty || "");
-  const [maxTime, setMaxTime] = useState(initialFilters?.maxTime);
+  const cuisine = request.filters.cuisine || "all";
+  const dietaryFilters = request.filters.dietaryFilters || [];
+  const difficulty = request.filters.difficulty || [];
+  const mealTypes = request.filters.mealTypes || [];
+  const maxTime = request.filters.maxTime;
+  const maxCalories = request.filters.nutrition?.calories?.max;
+  const highProtein = request.filters.highProtein || false;
+  const excludeIngredients = request.filters.excludeIngredients || [];
+  const sortBy = request.filters.sortBy as SortOption | undefined;
+  const defaultSort: SortOption = request.mode === "cookNow" ? "fewestMissing" : "bestMatch";
+
+  const [excludeInput, setExcludeInput] = useState("");
   const [isExpanded, setIsExpanded] = useState(false);
 
   const toggleDietaryFilter = (filter: string) => {
     const updated = dietaryFilters.includes(filter)
       ? dietaryFilters.filter((f) => f !== filter)
       : [...dietaryFilters, filter];
-    setDietaryFilters(updated);
-    applyFilters(cuisine, updated, difficulty, maxTime);
+    applyFilters({ dietaryFilters: updated });
   };
 
   const handleCuisineChange = (newCuisine: string) => {
-    setCuisine(newCuisine);
-    applyFilters(newCuisine, dietaryFilters, difficulty, maxTime);
+    applyFilters({ cuisine: newCuisine });
   };
 
   const handleDifficultyChange = (newDifficulty: string) => {
-    const updated = difficulty === newDifficulty ? "" : newDifficulty;
-    setDifficulty(updated);
-    applyFilters(cuisine, dietaryFilters, updated, maxTime);
+    const updated = difficulty.includes(newDifficulty)
+      ? difficulty.filter((d) => d !== newDifficulty)
+      : [...difficulty, newDifficulty];
+    applyFilters({ difficulty: updated });
+  };
+
+  const toggleMealType = (mealType: string) => {
+    const updated = mealTypes.includes(mealType)
+      ? mealTypes.filter((m) => m !== mealType)
+      : [...mealTypes, mealType];
+    applyFilters({ mealTypes: updated });
   };
 
   const handleTimeChange = (time: number) => {
-    const updated = maxTime === time ? undefined : time;
-    setMaxTime(updated);
-    applyFilters(cuisine, dietaryFilters, difficulty, updated);
+    applyFilters({ maxTime: maxTime === time ? undefined : time });
+  };
+
+  const handleCaloriesChange = (calories: number) => {
+    applyFilters({ maxCalories: maxCalories === calories ? undefined : calories });
+  };
+
+  const toggleHighProtein = () => {
+    applyFilters({ highProtein: !highProtein });
+  };
+
+  const addExcludedIngredients = () => {
+    const added = excludeInput
+      .split(",")
+      .map((ing) => ing.trim().toLowerCase())
+      .filter((ing) => ing && !excludeIngredients.includes(ing));
+    setExcludeInput("");
+    if (added.length === 0) return;
+    applyFilters({ excludeIngredients: [...excludeIngredients, ...added] });
+  };
+
+  const removeExcludedIngredient = (ingredient: string) => {
+    applyFilters({ excludeIngredients: excludeIngredients.filter((ing) => ing !== ingredient) });
   };
 
-  const applyFilters = (
-    c: string,
-    d: string[],
-    diff: string,
-    time?: number
-  ) => {
-    onFilterChange({
-      cuisine: c === "all" ? undefined : c,
-      dietaryFilters: d,
-      difficulty: diff || undefined,
-      maxTime: time,
+  // Write the current filters, with the changed ones overridden, back to the URL
+  const applyFilters = (changed: Partial<FilterPanelFilters>) => {
+    const next: FilterPanelFilters = {
+      cuisine, dietaryFilters, difficulty, mealTypes, maxTime, maxCalories, highProtein, excludeIngredients, sortBy,
+      ...changed,
+    };
+    const { nutrition, ...otherFilters } = request.filters;
+    const { calories, ...otherNutrients } = nutrition || {};
+
+    const params = searchRequestToParams({
+      ...request,
+      cursor: undefined, // Changing filters starts again from the first page
+      page: undefined,
+      filters: {
+        ...otherFilters, // Keep filters set outside the panel (e.g. prep time ranges in a shared link)
+        cuisine: next.cuisine === "all" ? undefined : next.cuisine,
+        dietaryFilters: next.dietaryFilters,
+        difficulty: next.difficulty,
+        mealTypes: next.mealTypes,
+        maxTime: next.maxTime,
+        nutrition: {
+          ...otherNutrients,
+          calories: next.maxCalories || calories?.min !== undefined ? { min: calories?.min, max: next.maxCalories } : undefined,
+        },
+        highProtein: next.highProtein,
+        excludeIngredients: next.excludeIngredients,
+        sortBy: next.sortBy,
+      },
     });
+
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+    onFilterChange?.({ ...next, cuisine: next.cuisine === "all" ? undefined : next.cuisine });
   };
 
   const clearAllFilters = () => {
-    setCuisine("all");
-    setDietaryFilters([]);
-    setDifficulty("");
-    setMaxTime(undefined);
-    onFilterChange({
-      cuisine: undefined,
+    setExcludeInput("");
+    applyFilters({
+      cuisine: "all",
       dietaryFilters: [],
-      difficulty: undefined,
+      difficulty: [],
+      mealTypes: [],
       maxTime: undefined,
+      maxCalories: undefined,
+      highProtein: false,
+      excludeIngredients: [],
     });
   };
 
   const activeFilterCount =
     (cuisine !== "all" ? 1 : 0) +
     dietaryFilters.length +
-    (difficulty ? 1 : 0) +
-    (maxTime ? 1 : 0);
+    difficulty.length +
+    mealTypes.length +
+    (maxTime ? 1 : 0) +
+    (maxCalories ? 1 : 0) +
+    (highProtein ? 1 : 0) +
+    excludeIngredients.length;
 
   return (
     <Card>
@@ -157,10 +233,48 @@ export function FilterPanel({ onFilterChange, initialFilters }: FilterPanelProps
       {isExpanded && (
         <CardContent className="space-y-6" id="filter-content" role="region" aria-labelledby="filter-label">
           {/* Cuisine Filter */}
+          {/* Sort */}
+          <fieldset>
+            <legend className="block text-sm font-medium mb-3">Sort By</legend>
+            <div className="grid grid-cols-2 gap-2" role="group" aria-label="Sort order">
+              {SORT_OPTIONS.map((option) => {
+                const isActive = (sortBy || defaultSort) === option.value;
+                return (
+                  <Button
+                    key={option.value}
+                    variant={isActive ? "primary" : "secondary"}
+                    size="sm"
+                    onClick={() => applyFilters({ sortBy: option.value === defaultSort ? undefined : option.value })}
+                    aria-pressed={isActive}
+                    aria-label={`Sort by ${option.label}`}
+                  >
+                    {option.label}
+                  </Button>
+                );
+              })}
+            </div>
+          </fieldset>
+
+          {!facets && (
+            <p className="text-sm text-muted-foreground">
+              Search first to see which cuisines, diets and cooking times are available.
+            </p>
+          )}
+
           <fieldset>
             <legend className="block text-sm font-medium mb-3">Cuisine</legend>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-2" role="group" aria-label="Cuisine filter options">
-              {CUISINES.map((c) => (
+              <Button
+                variant={cuisine === "all" ? "primary" : "secondary"}
+                size="sm"
+                onClick={() => handleCuisineChange("all")}
+                className="w-full"
+                aria-pressed={cuisine === "all"}
+                aria-label="Filter by All Cuisines"
+              >
+                All Cuisines
+              </Button>
+              {withSelected(facets?.cuisine, cuisine === "all" ? [] : [cuisine]).map((c) => (
                 <Button
                   key={c.value}
                   variant={cuisine === c.value ? "primary" : "secondary"}
@@ -168,9 +282,9 @@ export function FilterPanel({ onFilterChange, initialFilters }: FilterPanelProps
                   onClick={() => handleCuisineChange(c.value)}
                   className="w-full"
                   aria-pressed={cuisine === c.value}
-                  aria-label={`Filter by ${c.label}`}
+                  aria-label={`Filter by ${c.label} (${c.count} recipes)`}
                 >
-                  {c.label}
+                  {c.label} <span className="text-xs opacity-70">({c.count})</span>
                 </Button>
               ))}
             </div>
@@ -182,7 +296,7 @@ export function FilterPanel({ onFilterChange, initialFilters }: FilterPanelProps
               Dietary Preferences
             </legend>
             <div className="flex flex-wrap gap-2" role="group" aria-label="Dietary preferences">
-              {DIETARY_FILTERS.map((filter) => (
+              {withSelected(facets?.dietaryTags, dietaryFilters).map((filter) => (
                 <button
                   key={filter.value}
                   onClick={() => toggleDietaryFilter(filter.value)}
@@ -192,30 +306,95 @@ export function FilterPanel({ onFilterChange, initialFilters }: FilterPanelProps
                       : "border-gray-300 hover:border-gray-400"
                   }`}
                   aria-pressed={dietaryFilters.includes(filter.value)}
-                  aria-label={`${filter.label} filter`}
+                  aria-label={`${filter.label} filter (${filter.count} recipes)`}
                 >
-                  <span aria-hidden="true">{filter.icon}</span>
+                  <span aria-hidden="true">{DIETARY_ICONS[filter.value] || "🍽️"}</span>
                   <span className="text-sm">{filter.label}</span>
+                  <span className="text-xs opacity-70">{filter.count}</span>
                 </button>
               ))}
             </div>
           </fieldset>
 
+          {/* Excluded Ingredients */}
+          <fieldset>
+            <legend className="block text-sm font-medium mb-3">
+              Exclude Ingredients <span className="text-xs text-muted-foreground">(allergies, dislikes)</span>
+            </legend>
+            <div className="flex gap-2">
+              <Input
+                placeholder="peanuts, shellfish, dairy..."
+                value={excludeInput}
+                onChange={(e) => setExcludeInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addExcludedIngredients()}
+                aria-label="Ingredients to exclude"
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={addExcludedIngredients}
+                disabled={!excludeInput.trim()}
+                aria-label="Add excluded ingredients"
+              >
+                Add
+              </Button>
+            </div>
+            {excludeIngredients.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2" role="list" aria-label="Excluded ingredients">
+                {excludeIngredients.map((ingredient) => (
+                  <Badge key={ingredient} variant="danger" size="sm" role="listitem">
+                    🚫 {ingredient}
+                    <button
+                      onClick={() => removeExcludedIngredient(ingredient)}
+                      className="ml-1"
+                      aria-label={`Stop excluding ${ingredient}`}
+                    >
+                      ×
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </fieldset>
+
           {/* Difficulty Filter */}
           <fieldset>
-            <legend className="block text-sm font-medium mb-3">Difficulty</legend>
+            <legend className="block text-sm font-medium mb-3">
+              Difficulty <span className="text-xs text-muted-foreground">(select any)</span>
+            </legend>
             <div className="flex gap-2" role="group" aria-label="Difficulty filter">
-              {DIFFICULTIES.map((diff) => (
+              {withSelected(facets?.difficulty, difficulty).map((diff) => (
                 <Button
-                  key={diff}
-                  variant={difficulty === diff ? "primary" : "secondary"}
+                  key={diff.value}
+                  variant={difficulty.includes(diff.value) ? "primary" : "secondary"}
                   size="sm"
-                  onClick={() => handleDifficultyChange(diff)}
+                  onClick={() => handleDifficultyChange(diff.value)}
                   className="flex-1"
-                  aria-pressed={difficulty === diff}
-                  aria-label={`${diff} difficulty`}
+                  aria-pressed={difficulty.includes(diff.value)}
+                  aria-label={`${diff.label} difficulty (${diff.count} recipes)`}
+                >
+                  {diff.label} <span className="text-xs opacity-70">({diff.count})</span>
+                </Button>
+              ))}
+            </div>
+          </fieldset>
+
+          {/* Meal Type Filter */}
+          <fieldset>
+            <legend className="block text-sm font-medium mb-3">
+              Meal Type <span className="text-xs text-muted-foreground">(select any)</span>
+            </legend>
+            <div className="grid grid-cols-2 gap-2" role="group" aria-label="Meal type filter">
+              {withSelected(facets?.mealType, mealTypes).map((meal) => (
+                <Button
+                  key={meal.value}
+                  variant={mealTypes.includes(meal.value) ? "primary" : "secondary"}
+                  size="sm"
+                  onClick={() => toggleMealType(meal.value)}
+                  aria-pressed={mealTypes.includes(meal.value)}
+                  aria-label={`${meal.label} (${meal.count} recipes)`}
                 >
-                  {diff}
+                  {meal.label} <span className="text-xs opacity-70">({meal.count})</span>
                 </Button>
               ))}
             </div>
@@ -227,20 +406,51 @@ export function FilterPanel({ onFilterChange, initialFilters }: FilterPanelProps
               Cooking Time
             </legend>
             <div className="grid grid-cols-2 gap-2" role="group" aria-label="Cooking time filter">
-              {TIME_RANGES.map((range) => (
+              {withSelected(facets?.totalTime, maxTime ? [String(maxTime)] : []).map((range) => (
                 <Button
                   key={range.value}
-                  variant={maxTime === range.value ? "primary" : "secondary"}
+                  variant={maxTime === Number(range.value) ? "primary" : "secondary"}
                   size="sm"
-                  onClick={() => handleTimeChange(range.value)}
-                  aria-pressed={maxTime === range.value}
-                  aria-label={`${range.label} cooking time`}
+                  onClick={() => handleTimeChange(Number(range.value))}
+                  disabled={range.count === 0 && maxTime !== Number(range.value)}
+                  aria-pressed={maxTime === Number(range.value)}
+                  aria-label={`${range.label} cooking time (${range.count} recipes)`}
                 >
-                  {range.label}
+                  {range.label} <span className="text-xs opacity-70">({range.count})</span>
                 </Button>
               ))}
             </div>
           </fieldset>
+
+          {/* Nutrition Filter */}
+          <fieldset>
+            <legend className="block text-sm font-medium mb-3">
+              Nutrition <span className="text-xs text-muted-foreground">(per serving)</span>
+            </legend>
+            <div className="grid grid-cols-2 gap-2" role="group" aria-label="Nutrition filter">
+              {CALORIE_LIMITS.map((limit) => (
+                <Button
+                  key={limit.value}
+                  variant={maxCalories === limit.value ? "primary" : "secondary"}
+                  size="sm"
+                  onClick={() => handleCaloriesChange(limit.value)}
+                  aria-pressed={maxCalories === limit.value}
+                  aria-label={`${limit.label} per serving`}
+                >
+                  {limit.label}
+                </Button>
+              ))}
+              <Button
+                variant={highProtein ? "primary" : "secondary"}
+                size="sm"
+                onClick={toggleHighProtein}
+                aria-pressed={highProtein}
+                aria-label="High-protein recipes only"
+              >
+                💪 High-Protein
+              </Button>
+            </div>
+          </fieldset>
         </CardContent>
       )}
     </Card>
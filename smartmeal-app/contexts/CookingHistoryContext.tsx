@@ -0,0 +1,78 @@
+"use client";
+
+import React, { createContext, useContext, useMemo } from "react";
+import { createStorageStore, loadCookingHistory, saveCookingHistory, STORAGE_KEYS } from "@/lib/localStorage";
+import { useStoredValue } from "@/hooks/useStoredValue";
+import { getCookingStats, type CookingStats } from "@/lib/cookingHistory";
+import type { CookingLogEntry } from "@/types/user";
+
+interface CookingHistoryContextType {
+  entries: CookingLogEntry[]; // Newest first
+  stats: Record<string, CookingStats>; // Keyed by recipe id
+  logCooked: (entry: Omit<CookingLogEntry, "id" | "cookedAt"> & { cookedAt?: string }) => void;
+  removeEntry: (entryId: string) => void;
+  getStats: (recipeId: string) => CookingStats | undefined;
+  clearHistory: () => void;
+}
+
+const CookingHistoryContext = createContext<CookingHistoryContextType | undefined>(undefined);
+
+const NO_ENTRIES: CookingLogEntry[] = [];
+
+const cookingHistoryStore = createStorageStore(STORAGE_KEYS.COOKING_HISTORY, loadCookingHistory, saveCookingHistory, NO_ENTRIES);
+
+export function CookingHistoryProvider({ children }: { children: React.ReactNode }) {
+  const entries = useStoredValue(cookingHistoryStore);
+  const stats = useMemo(() => getCookingStats(entries), [entries]);
+
+  const updateEntries = (change: (current: CookingLogEntry[]) => CookingLogEntry[]) => {
+    cookingHistoryStore.update(change);
+  };
+
+  // Cooked now unless another time is given
+  const logCooked = (entry: Omit<CookingLogEntry, "id" | "cookedAt"> & { cookedAt?: string }) => {
+    const newEntry: CookingLogEntry = {
+      ...entry,
+      id: `cooked_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      cookedAt: entry.cookedAt || new Date().toISOString(),
+    };
+    updateEntries((current) =>
+      [newEntry, ...current].sort((a, b) => (a.cookedAt < b.cookedAt ? 1 : a.cookedAt > b.cookedAt ? -1 : 0))
+    );
+  };
+
+  const removeEntry = (entryId: string) => {
+    updateEntries((current) => current.filter((entry) => entry.id !== entryId));
+  };
+
+  const getStats = (recipeId: string): CookingStats | undefined => {
+    return stats[recipeId];
+  };
+
+  const clearHistory = () => {
+    updateEntries(() => []);
+  };
+
+  return (
+    <CookingHistoryContext.Provider
+      value={{
+        entries,
+        stats,
+        logCooked,
+        removeEntry,
+        getStats,
+        clearHistory,
+      }}
+    >
+      {children}
+    </CookingHistoryContext.Provider>
+  );
+}
+
+export function useCookingHistory() {
+  const context = useContext(CookingHistoryContext);
+  if (context === undefined) {
+    throw new Error("useCookingHistory must be used within a CookingHistoryProvider");
+  }
+  return context;
+}
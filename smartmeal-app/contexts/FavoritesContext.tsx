@@ -1,63 +1,72 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useMemo } from "react";
+import { createStorageStore, loadFavorites, saveFavorites, STORAGE_KEYS, type FavoriteCollection, type FavoritesData } from "@/lib/localStorage";
+import { useStoredValue } from "@/hooks/useStoredValue";
 
 interface FavoritesContextType {
-  favorites: string[];
+  favorites: string[]; // Recipe ids, oldest first
+  collections: FavoriteCollection[]; // In display order
   addFavorite: (recipeId: string) => void;
   removeFavorite: (recipeId: string) => void;
   toggleFavorite: (recipeId: string) => void;
   isFavorite: (recipeId: string) => boolean;
   clearFavorites: () => void;
+  createCollection: (name: string) => string | null;
+  renameCollection: (collectionId: string, name: string) => void;
+  deleteCollection: (collectionId: string) => void;
+  moveCollection: (collectionId: string, offset: number) => void;
+  addToCollection: (collectionId: string, recipeId: string) => void;
+  removeFromCollection: (collectionId: string, recipeId: string) => void;
+  getCollectionsFor: (recipeId: string) => FavoriteCollection[];
 }
 
 const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
 
-const STORAGE_KEY = "smartmeal_favorites";
+const EMPTY_FAVORITES: FavoritesData = { version: 2, favorites: [], collections: [] };
+
+// Loaded (and migrated from the old id list) on the first client read
+const favoritesStore = createStorageStore(STORAGE_KEYS.FAVORITES, loadFavorites, saveFavorites, EMPTY_FAVORITES);
 
 export function FavoritesProvider({ children }: { children: React.ReactNode }) {
-  const [favorites, setFavorites] = useState<string[]>([]);
-
-  useEffect(() => {
-    loadFavorites();
-  }, []);
-
-  const loadFavorites = () => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        setFavorites(Array.isArray(parsed) ? parsed : []);
-      }
-    } catch (error) {
-      console.error("Failed to load favorites:", error);
-    }
+  const data = useStoredValue(favoritesStore);
+
+  const favorites = useMemo(() => data.favorites.map((favorite) => favorite.recipeId), [data.favorites]);
+  const collections = data.collections;
+
+  const updateData = (change: (current: FavoritesData) => FavoritesData) => {
+    favoritesStore.update(change);
   };
 
-  const saveFavorites = (updatedFavorites: string[]) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedFavorites));
-    } catch (error) {
-      console.error("Failed to save favorites:", error);
-    }
+  const updateCollection = (collectionId: string, change: (collection: FavoriteCollection) => FavoriteCollection) => {
+    updateData((current) => ({
+      ...current,
+      collections: current.collections.map((collection) => (collection.id === collectionId ? change(collection) : collection)),
+    }));
   };
 
   const addFavorite = (recipeId: string) => {
-    if (!favorites.includes(recipeId)) {
-      const updated = [...favorites, recipeId];
-      setFavorites(updated);
-      saveFavorites(updated);
-    }
+    updateData((current) =>
+      current.favorites.some((favorite) => favorite.recipeId === recipeId)
+        ? current
+        : { ...current, favorites: [...current.favorites, { recipeId, addedAt: new Date().toISOString() }] }
+    );
   };
 
+  // Also takes the recipe out of every collection
   const removeFavorite = (recipeId: string) => {
-    const updated = favorites.filter((id) => id !== recipeId);
-    setFavorites(updated);
-    saveFavorites(updated);
+    updateData((current) => ({
+      ...current,
+      favorites: current.favorites.filter((favorite) => favorite.recipeId !== recipeId),
+      collections: current.collections.map((collection) => ({
+        ...collection,
+        recipeIds: collection.recipeIds.filter((id) => id !== recipeId),
+      })),
+    }));
   };
 
   const toggleFavorite = (recipeId: string) => {
-    if (favorites.includes(recipeId)) {
+    if (isFavorite(recipeId)) {
       removeFavorite(recipeId);
     } else {
       addFavorite(recipeId);
@@ -68,20 +77,94 @@ export function FavoritesProvider({ children }: { children: React.ReactNode }) {
     return favorites.includes(recipeId);
   };
 
+  // Collections are kept (empty) so they can be filled again
   const clearFavorites = () => {
-    setFavorites([]);
-    saveFavorites([]);
+    updateData((current) => ({
+      ...current,
+      favorites: [],
+      collections: current.collections.map((collection) => ({ ...collection, recipeIds: [] })),
+    }));
+  };
+
+  // Returns the new collection's id, or null when the name is blank
+  const createCollection = (name: string): string | null => {
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+
+    const collection: FavoriteCollection = {
+      id: `collection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: trimmed,
+      recipeIds: [],
+      createdAt: new Date().toISOString(),
+    };
+    updateData((current) => ({ ...current, collections: [...current.collections, collection] }));
+    return collection.id;
+  };
+
+  const renameCollection = (collectionId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateCollection(collectionId, (collection) => ({ ...collection, name: trimmed }));
+  };
+
+  // Deleting a collection keeps its recipes in favorites
+  const deleteCollection = (collectionId: string) => {
+    updateData((current) => ({
+      ...current,
+      collections: current.collections.filter((collection) => collection.id !== collectionId),
+    }));
+  };
+
+  // Move a collection up (negative offset) or down the list
+  const moveCollection = (collectionId: string, offset: number) => {
+    updateData((current) => {
+      const from = current.collections.findIndex((collection) => collection.id === collectionId);
+      const to = Math.min(current.collections.length - 1, Math.max(0, from + offset));
+      if (from === -1 || from === to) return current;
+
+      const reordered = [...current.collections];
+      const [moved] = reordered.splice(from, 1);
+      reordered.splice(to, 0, moved);
+      return { ...current, collections: reordered };
+    });
+  };
+
+  // Filing a recipe in a collection also makes it a favorite
+  const addToCollection = (collectionId: string, recipeId: string) => {
+    addFavorite(recipeId);
+    updateCollection(collectionId, (collection) =>
+      collection.recipeIds.includes(recipeId) ? collection : { ...collection, recipeIds: [...collection.recipeIds, recipeId] }
+    );
+  };
+
+  const removeFromCollection = (collectionId: string, recipeId: string) => {
+    updateCollection(collectionId, (collection) => ({
+      ...collection,
+      recipeIds: collection.recipeIds.filter((id) => id !== recipeId),
+    }));
+  };
+
+  const getCollectionsFor = (recipeId: string): FavoriteCollection[] => {
+    return collections.filter((collection) => collection.recipeIds.includes(recipeId));
   };
 
   return (
     <FavoritesContext.Provider
       value={{
         favorites,
+        collections,
         addFavorite,
         removeFavorite,
         toggleFavorite,
         isFavorite,
         clearFavorites,
+        createCollection,
+        renameCollection,
+        deleteCollection,
+        moveCollection,
+        addToCollection,
+        removeFromCollection,
+        getCollectionsFor,
       }}
     >
       {children}
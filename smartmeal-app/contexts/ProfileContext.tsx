@@ -24,6 +24,7 @@ const DEFAULT_PROFILE: UserProfile = {
   activityLevel: "moderately-active",
   goalType: "maintain",
   preferredCuisines: [],
+  measurementSystem: "original",
 };
 
 export function ProfileProvider({ children }: { children: React.ReactNode }) {
@@ -0,0 +1,127 @@
+"use client";
+
+import React, { createContext, useContext } from "react";
+import { createStorageStore, loadRecipeFeedback, saveRecipeFeedback, STORAGE_KEYS } from "@/lib/localStorage";
+import { useStoredValue } from "@/hooks/useStoredValue";
+import type { RecipeFeedback, RecipeReview } from "@/types/user";
+
+interface RecipeFeedbackContextType {
+  feedback: Record<string, RecipeFeedback>; // Keyed by recipe id
+  getFeedback: (recipeId: string) => RecipeFeedback | undefined;
+  getRating: (recipeId: string) => number | undefined;
+  setRating: (recipeId: string, rating: number | null) => void;
+  addReview: (recipeId: string, text: string) => void;
+  removeReview: (recipeId: string, reviewId: string) => void;
+  setStepNote: (recipeId: string, step: number, note: string) => void;
+  clearFeedback: (recipeId: string) => void;
+}
+
+const RecipeFeedbackContext = createContext<RecipeFeedbackContextType | undefined>(undefined);
+
+const emptyFeedback = (): RecipeFeedback => ({ reviews: [], stepNotes: {}, updatedAt: new Date().toISOString() });
+
+/**
+ * Whether a recipe's feedback holds nothing; empty entries are dropped so the stored map stays small
+ */
+function isEmptyFeedback(entry: RecipeFeedback): boolean {
+  return entry.rating === undefined && entry.reviews.length === 0 && Object.keys(entry.stepNotes).length === 0;
+}
+
+const NO_FEEDBACK: Record<string, RecipeFeedback> = {};
+
+const feedbackStore = createStorageStore(STORAGE_KEYS.RECIPE_FEEDBACK, loadRecipeFeedback, saveRecipeFeedback, NO_FEEDBACK);
+
+export function RecipeFeedbackProvider({ children }: { children: React.ReactNode }) {
+  const feedback = useStoredValue(feedbackStore);
+
+  // Apply a change to one recipe's feedback and persist the result
+  const updateFeedback = (recipeId: string, change: (entry: RecipeFeedback) => RecipeFeedback) => {
+    feedbackStore.update((current) => {
+      const entry = change(current[recipeId] || emptyFeedback());
+      const updated = { ...current };
+      if (isEmptyFeedback(entry)) {
+        delete updated[recipeId];
+      } else {
+        updated[recipeId] = { ...entry, updatedAt: new Date().toISOString() };
+      }
+      return updated;
+    });
+  };
+
+  const getFeedback = (recipeId: string): RecipeFeedback | undefined => {
+    return feedback[recipeId];
+  };
+
+  const getRating = (recipeId: string): number | undefined => {
+    return feedback[recipeId]?.rating;
+  };
+
+  // Pass null to clear the rating
+  const setRating = (recipeId: string, rating: number | null) => {
+    updateFeedback(recipeId, (entry) => ({
+      ...entry,
+      rating: rating === null ? undefined : Math.min(5, Math.max(1, Math.round(rating))),
+    }));
+  };
+
+  const addReview = (recipeId: string, text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    const review: RecipeReview = {
+      id: `review_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      text: trimmed,
+      createdAt: new Date().toISOString(),
+    };
+    updateFeedback(recipeId, (entry) => ({ ...entry, reviews: [review, ...entry.reviews] }));
+  };
+
+  const removeReview = (recipeId: string, reviewId: string) => {
+    updateFeedback(recipeId, (entry) => ({
+      ...entry,
+      reviews: entry.reviews.filter((review) => review.id !== reviewId),
+    }));
+  };
+
+  // An empty note removes it
+  const setStepNote = (recipeId: string, step: number, note: string) => {
+    updateFeedback(recipeId, (entry) => {
+      const stepNotes = { ...entry.stepNotes };
+      if (note.trim()) {
+        stepNotes[step] = note.trim();
+      } else {
+        delete stepNotes[step];
+      }
+      return { ...entry, stepNotes };
+    });
+  };
+
+  const clearFeedback = (recipeId: string) => {
+    updateFeedback(recipeId, () => emptyFeedback());
+  };
+
+  return (
+    <RecipeFeedbackContext.Provider
+      value={{
+        feedback,
+        getFeedback,
+        getRating,
+        setRating,
+        addReview,
+        removeReview,
+        setStepNote,
+        clearFeedback,
+      }}
+    >
+      {children}
+    </RecipeFeedbackContext.Provider>
+  );
+}
+
+export function useRecipeFeedback() {
+  const context = useContext(RecipeFeedbackContext);
+  if (context === undefined) {
+    throw new Error("useRecipeFeedback must be used within a RecipeFeedbackProvider");
+  }
+  return context;
+}
@@ -59,9 +59,12 @@ export function ShoppingListProvider({ children }: { children: React.ReactNode }
       fromRecipes: [],
     };
 
-    const updatedItems = [...items, newItem];
-    setItems(updatedItems);
-    saveToStorage(updatedItems);
+    // From the latest items, so several items can be added in one go
+    setItems((current) => {
+      const updatedItems = [...current, newItem];
+      saveToStorage(updatedItems);
+      return updatedItems;
+    });
   };
 
   const removeItem = (id: string) => {
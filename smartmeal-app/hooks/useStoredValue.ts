@@ -0,0 +1,12 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { StorageStore } from "@/lib/localStorage";
+
+/**
+ * Current value of a localStorage-backed store (see createStorageStore); the
+ * server value until the client has hydrated
+ */
+export function useStoredValue<T>(store: StorageStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
+}
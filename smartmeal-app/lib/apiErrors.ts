@@ -0,0 +1,39 @@
+/**
+ * API Error Responses (server-side)
+ * Builds the shared error envelope for API routes
+ */
+
+import { NextResponse } from "next/server";
+import type { ApiErrorBody, FieldError } from "@/types/api";
+import { ERROR_CODES, type ErrorCode } from "./errorCodes";
+
+interface ApiErrorOptions {
+  requestId: string;
+  error?: string; // Overrides the code's default message
+  fieldErrors?: FieldError[];
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Respond with the error envelope and the code's HTTP status
+ */
+export function apiErrorResponse(code: ErrorCode, { requestId, error, fieldErrors = [], details }: ApiErrorOptions) {
+  const { statusCode, message } = ERROR_CODES[code];
+  const body: ApiErrorBody = {
+    error: error || message,
+    code,
+    statusCode,
+    timestamp: new Date().toISOString(),
+    requestId,
+    fieldErrors,
+    ...(details ? { details } : {}),
+  };
+  return NextResponse.json(body, { status: statusCode });
+}
+
+/**
+ * Respond to a request that failed validation; the first field error becomes the message
+ */
+export function validationErrorResponse(code: ErrorCode, fieldErrors: FieldError[], requestId: string) {
+  return apiErrorResponse(code, { requestId, error: fieldErrors[0]?.message, fieldErrors });
+}
@@ -0,0 +1,93 @@
+/**
+ * Cooking History
+ * Per-recipe counts and filters over the "I cooked this" log
+ */
+
+import type { CookingLogEntry } from "@/types/user";
+
+// A recipe cooked before but not for this long gets a "not cooked in a while" nudge
+export const NOT_COOKED_IN_A_WHILE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CookingStats {
+  recipeId: string;
+  recipeName: string;
+  recipeImage?: string;
+  timesCooked: number;
+  lastCookedAt: string; // ISO timestamp
+  averageRating?: number; // Over the cooks that were rated, one decimal
+}
+
+export interface CookingHistoryFilters {
+  query?: string; // Part of the recipe name
+  sinceDays?: number; // Only cooks in the last N days
+  minRating?: number; // Only cooks rated at least this
+}
+
+/**
+ * Times cooked, last cooked and average rating for every recipe in the log, keyed by recipe id
+ */
+export function getCookingStats(entries: CookingLogEntry[]): Record<string, CookingStats> {
+  const stats: Record<string, CookingStats> = {};
+  const ratings: Record<string, number[]> = {};
+
+  entries.forEach((entry) => {
+    const current = stats[entry.recipeId];
+    if (!current) {
+      stats[entry.recipeId] = {
+        recipeId: entry.recipeId,
+        recipeName: entry.recipeName,
+        recipeImage: entry.recipeImage,
+        timesCooked: 1,
+        lastCookedAt: entry.cookedAt,
+      };
+    } else {
+      current.timesCooked += 1;
+      if (entry.cookedAt > current.lastCookedAt) {
+        // Keep the name and image from the latest cook, in case the recipe was edited
+        Object.assign(current, { recipeName: entry.recipeName, recipeImage: entry.recipeImage, lastCookedAt: entry.cookedAt });
+      }
+    }
+    if (entry.rating) ratings[entry.recipeId] = [...(ratings[entry.recipeId] || []), entry.rating];
+  });
+
+  Object.entries(ratings).forEach(([recipeId, values]) => {
+    stats[recipeId].averageRating = Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+  });
+
+  return stats;
+}
+
+/**
+ * Whole days since a timestamp
+ */
+export function daysSince(timestamp: string, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - new Date(timestamp).getTime()) / DAY_MS);
+}
+
+/**
+ * Whether a recipe that has been cooked before is due again
+ */
+export function isNotCookedInAWhile(lastCookedAt: string | undefined, now: Date = new Date()): boolean {
+  return !!lastCookedAt && daysSince(lastCookedAt, now) >= NOT_COOKED_IN_A_WHILE_DAYS;
+}
+
+/**
+ * Log entries matching the filters, newest first
+ */
+export function filterCookingHistory(
+  entries: CookingLogEntry[],
+  filters: CookingHistoryFilters,
+  now: Date = new Date()
+): CookingLogEntry[] {
+  const query = filters.query?.trim().toLowerCase();
+  return entries
+    .filter((entry) => {
+      if (query && !entry.recipeName.toLowerCase().includes(query)) return false;
+      if (filters.sinceDays !== undefined && daysSince(entry.cookedAt, now) >= filters.sinceDays) return false;
+      if (filters.minRating !== undefined && (entry.rating || 0) < filters.minRating) return false;
+      return true;
+    })
+    .sort((a, b) => (a.cookedAt < b.cookedAt ? 1 : a.cookedAt > b.cookedAt ? -1 : 0));
+}
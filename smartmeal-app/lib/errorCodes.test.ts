@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { ApiRequestError, getErrorVariant } from "./errorCodes";
+
+describe("getErrorVariant", () => {
+  it("uses the registry, and generic for unknown codes", () => {
+    expect(getErrorVariant("RECIPE_NOT_FOUND")).toBe("notFound");
+    expect(getErrorVariant("NOT_A_CODE")).toBe("generic");
+    expect(getErrorVariant()).toBe("generic");
+  });
+});
+
+describe("ApiRequestError.from", () => {
+  it("passes ApiRequestErrors through", () => {
+    const error = new ApiRequestError({ error: "Recipe not found.", code: "RECIPE_NOT_FOUND" }, 404);
+    expect(ApiRequestError.from(error, "fallback")).toBe(error);
+  });
+
+  it("gives a failed fetch the network code", () => {
+    const error = ApiRequestError.from(new TypeError("Failed to fetch"), "fallback");
+    expect(error.code).toBe("NETWORK_ERROR");
+    expect(error.statusCode).toBe(0);
+    expect(getErrorVariant(error.code)).toBe("network");
+  });
+
+  it("keeps the message of other errors without a code", () => {
+    const error = ApiRequestError.from(new SyntaxError("Unexpected token"), "fallback");
+    expect(error.code).toBeUndefined();
+    expect(error.message).toBe("Unexpected token");
+    expect(ApiRequestError.from("boom", "fallback").message).toBe("fallback");
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * API Error Codes
+ * Registry of every error code the API returns, with its HTTP status and how
+ * the UI should present it. Safe to import from client components.
+ */
+
+import type { ApiErrorBody, ErrorVariant, FieldError } from "@/types/api";
+
+interface ErrorCodeInfo {
+  statusCode: number;
+  variant: ErrorVariant;
+  message: string; // Default user-facing message
+}
+
+export const ERROR_CODES = {
+  INVALID_REQUEST_BODY: {
+    statusCode: 400,
+    variant: "validation",
+    message: "The request body must be valid JSON.",
+  },
+  RECIPE_SEARCH_INVALID_INPUT: {
+    statusCode: 400,
+    variant: "validation",
+    message: "Please check your search and try again.",
+  },
+  RECIPE_SEARCH_INVALID_CURSOR: {
+    statusCode: 400,
+    variant: "validation",
+    message: "These results have changed. Please search again.",
+  },
+  RECIPE_SEARCH_ERROR: {
+    statusCode: 500,
+    variant: "server",
+    message: "Failed to search recipes. Please try again.",
+  },
+  RECIPE_ID_MISSING: {
+    statusCode: 400,
+    variant: "validation",
+    message: "Invalid request: Recipe ID parameter is missing.",
+  },
+  RECIPE_NOT_FOUND: {
+    statusCode: 404,
+    variant: "notFound",
+    message: "Recipe not found.",
+  },
+  RECIPE_DETAIL_ERROR: {
+    statusCode: 500,
+    variant: "server",
+    message: "Failed to load the recipe. Please try again.",
+  },
+  RECIPE_INVALID_INPUT: {
+    statusCode: 400,
+    variant: "validation",
+    message: "Please check the recipe and try again.",
+  },
+  RECIPE_NOT_EDITABLE: {
+    statusCode: 403,
+    variant: "generic",
+    message: "Only recipes you created can be changed.",
+  },
+  RECIPE_SAVE_ERROR: {
+    statusCode: 500,
+    variant: "server",
+    message: "Failed to save the recipe. Please try again.",
+  },
+  RECIPE_IMPORT_INVALID_INPUT: {
+    statusCode: 400,
+    variant: "validation",
+    message: "Please paste or upload a JSON-LD document.",
+  },
+  RECIPE_IMPORT_NO_RECIPE: {
+    statusCode: 422,
+    variant: "validation",
+    message: "No schema.org Recipe was found in the document.",
+  },
+  RECIPE_IMPORT_ERROR: {
+    statusCode: 500,
+    variant: "server",
+    message: "Failed to import the recipe. Please try again.",
+  },
+  RECIPE_LIST_INVALID_INPUT: {
+    statusCode: 400,
+    variant: "validation",
+    message: "Please check the recipe list request and try again.",
+  },
+  SIMILAR_RECIPES_INVALID_INPUT: {
+    statusCode: 400,
+    variant: "validation",
+    message: "Please check the similar recipes request and try again.",
+  },
+  SIMILAR_RECIPES_ERROR: {
+    statusCode: 500,
+    variant: "server",
+    message: "Failed to find similar recipes. Please try again.",
+  },
+  RECIPE_FILE_READ_ERROR: {
+    statusCode: 500,
+    variant: "server",
+    message: "We're having trouble loading recipes. Please try again in a moment.",
+  },
+  // Set by the client when a request gets no response at all
+  NETWORK_ERROR: {
+    statusCode: 0,
+    variant: "network",
+    message: "Couldn't reach the server. Check your connection and try again.",
+  },
+} satisfies Record<string, ErrorCodeInfo>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export function isErrorCode(code: unknown): code is ErrorCode {
+  return typeof code === "string" && code in ERROR_CODES;
+}
+
+/**
+ * How to present an error code; unknown codes are generic
+ */
+export function getErrorVariant(code?: string): ErrorVariant {
+  return isErrorCode(code) ? ERROR_CODES[code].variant : "generic";
+}
+
+/**
+ * Error thrown by client code when an API call fails, carrying the envelope's code and field errors
+ */
+export class ApiRequestError extends Error {
+  readonly code?: string;
+  readonly statusCode: number;
+  readonly fieldErrors: FieldError[];
+
+  constructor(body: Partial<ApiErrorBody>, statusCode: number) {
+    super(body.error || `API Error: ${statusCode}`);
+    this.name = "ApiRequestError";
+    this.code = body.code;
+    this.statusCode = body.statusCode ?? statusCode;
+    this.fieldErrors = Array.isArray(body.fieldErrors) ? body.fieldErrors : [];
+  }
+
+  /**
+   * Wrap anything caught (network failures, parse errors) as an ApiRequestError.
+   * fetch rejects with a TypeError when the request gets no response.
+   */
+  static from(error: unknown, fallbackMessage: string): ApiRequestError {
+    if (error instanceof ApiRequestError) return error;
+    if (error instanceof TypeError) {
+      return new ApiRequestError({ error: ERROR_CODES.NETWORK_ERROR.message, code: "NETWORK_ERROR" }, 0);
+    }
+    return new ApiRequestError({ error: error instanceof Error ? error.message : fallbackMessage }, 0);
+  }
+}
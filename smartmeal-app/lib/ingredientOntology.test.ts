@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { isExcludedIngredient, matchIngredients, resolveExcludedIngredients, resolveIngredient } from "./ingredientOntology";
+
+const dairy = resolveExcludedIngredients(["dairy"]);
+const nuts = resolveExcludedIngredients(["nuts"]);
+const treeNuts = resolveExcludedIngredients(["tree nuts"]);
+const shellfish = resolveExcludedIngredients(["shellfish"]);
+
+describe("isExcludedIngredient", () => {
+  it.each(["milk", "whole milk", "butter", "ghee", "parmesan cheese", "grated cheese", "cream cheese"])("excludes %s under dairy", (name) => {
+    expect(isExcludedIngredient(name, dairy)).toBe(true);
+  });
+
+  it.each(["almond milk", "coconut milk", "cocoa butter", "unsweetened almond milk", "light coconut milk", "peanut butter"])(
+    "keeps %s under dairy",
+    (name) => {
+      expect(isExcludedIngredient(name, dairy)).toBe(false);
+    }
+  );
+
+  it.each(["buttermilk", "whey", "ricotta", "mascarpone", "ice cream"])("excludes %s under dairy", (name) => {
+    expect(isExcludedIngredient(name, dairy)).toBe(true);
+  });
+
+  it.each(["vegan cheese", "dairy-free cheese", "cream of tartar"])("keeps %s under dairy", (name) => {
+    expect(isExcludedIngredient(name, dairy)).toBe(false);
+  });
+
+  it.each(["almond milk", "peanut butter", "toasted walnut", "nuts", "mixed nuts", "chopped nuts", "pine nuts", "macadamia nuts", "brazil nuts"])(
+    "excludes %s under nuts",
+    (name) => {
+      expect(isExcludedIngredient(name, nuts)).toBe(true);
+    }
+  );
+
+  it("excludes mixed nuts but not peanuts under tree nuts", () => {
+    expect(isExcludedIngredient("mixed nuts", treeNuts)).toBe(true);
+    expect(isExcludedIngredient("cashew milk", treeNuts)).toBe(true);
+    expect(isExcludedIngredient("peanuts", treeNuts)).toBe(false);
+    expect(isExcludedIngredient("peanut butter", treeNuts)).toBe(false);
+  });
+
+  it.each(["oysters", "squid", "king prawns", "shrimp"])("excludes %s under shellfish", (name) => {
+    expect(isExcludedIngredient(name, shellfish)).toBe(true);
+  });
+});
+
+describe("products made from an ingredient", () => {
+  it.each([
+    ["almond", "almond milk"],
+    ["peanut", "peanut butter"],
+    ["cashew", "cashew milk"],
+  ])("%s doesn't stand in for %s, but excluding it rules both out", (have, product) => {
+    expect(matchIngredients(resolveIngredient(have), resolveIngredient(product))).toBeNull();
+    expect(isExcludedIngredient(product, resolveExcludedIngredients([have]))).toBe(true);
+  });
+});
+
+describe("matchIngredients", () => {
+  const match = (have: string, need: string) => matchIngredients(resolveIngredient(have), resolveIngredient(need));
+
+  it.each([
+    ["scallion", "green onion"],
+    ["garbanzo beans", "chickpeas"],
+    ["coriander leaf", "cilantro"],
+  ])("treats %s and %s as synonyms", (have, need) => {
+    expect(match(have, need)).toBe("synonym");
+  });
+
+  it("credits a specific variant for the general ingredient only", () => {
+    expect(match("cherry tomatoes", "tomato")).toBe("variant");
+    expect(match("parmesan", "cheese")).toBe("variant");
+    expect(match("tomato", "cherry tomatoes")).toBeNull();
+    expect(match("cheese", "parmesan")).toBeNull();
+  });
+
+  it.each([
+    ["arborio rice", "rice"],
+    ["rice", "jasmine rice"],
+    ["smoked sea salt", "sea salt"],
+  ])("partially matches %s and %s on the head noun", (have, need) => {
+    expect(match(have, need)).toBe("partial");
+  });
+
+  it.each([
+    ["rice", "rice vinegar"],
+    ["tomato", "tomato paste"],
+    ["oil", "peanut oil"],
+    ["oil", "avocado oil"],
+    ["coriander", "ground coriander"],
+  ])("doesn't match %s with %s", (have, need) => {
+    expect(match(have, need)).toBeNull();
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Ingredient Ontology
+ * Canonical ingredient names with synonyms, plural forms and parent/child variants
+ */
+
+import type { IngredientMatchType, IngredientRole } from "@/types/recipe";
+import { categorizeIngredient } from "./categoryClassifier";
+
+interface OntologyEntry {
+  name: string; // Canonical (singular) name
+  synonyms?: string[];
+  parent?: string; // Canonical name of the more general ingredient
+  contains?: string[]; // Canonical names of what it's made from; only exclusions read this
+  role?: IngredientRole; // Inherited from the parent when omitted, else "supporting"
+}
+
+// Canonical ingredients. Variants point at their parent so that a specific
+// ingredient ("cherry tomato") can stand in for the general one ("tomato").
+// Oils are deliberately siblings, not children of a generic "oil". Products made
+// from an ingredient ("almond milk") say so with `contains` instead: excluding
+// almonds rules them out, but having almonds doesn't mean having almond milk.
+const ONTOLOGY: OntologyEntry[] = [
+  // Produce
+  { name: "tomato", synonyms: ["roma tomato", "plum tomato"] },
+  { name: "cherry tomato", synonyms: ["grape tomato"], parent: "tomato" },
+  { name: "canned tomato", synonyms: ["tinned tomato", "diced tomato", "crushed tomato"], parent: "tomato" },
+  { name: "onion", synonyms: ["yellow onion", "white onion", "brown onion"] },
+  { name: "red onion", synonyms: ["purple onion"], parent: "onion" },
+  { name: "green onion", synonyms: ["scallion", "spring onion", "salad onion"] },
+  { name: "shallot", synonyms: ["eschalot"] },
+  { name: "garlic", synonyms: ["garlic clove", "clove garlic"] },
+  { name: "garlic powder", synonyms: ["granulated garlic"], role: "staple" },
+  { name: "ginger", synonyms: ["ginger root", "fresh ginger"] },
+  { name: "bell pepper", synonyms: ["capsicum", "sweet pepper"] },
+  { name: "red bell pepper", synonyms: ["red capsicum", "red pepper"], parent: "bell pepper" },
+  { name: "green bell pepper", synonyms: ["green capsicum", "green pepper"], parent: "bell pepper" },
+  { name: "chili", synonyms: ["chile", "chilli", "hot pepper", "chili pepper"] },
+  { name: "jalapeno", synonyms: ["jalapeno pepper"], parent: "chili" },
+  { name: "potato", synonyms: ["russet potato", "white potato"] },
+  { name: "sweet potato", synonyms: ["yam"] },
+  { name: "carrot" },
+  { name: "spinach", synonyms: ["baby spinach"] },
+  { name: "lettuce", synonyms: ["romaine", "iceberg lettuce"] },
+  { name: "zucchini", synonyms: ["courgette"] },
+  { name: "eggplant", synonyms: ["aubergine", "brinjal"] },
+  { name: "cilantro", synonyms: ["coriander leaf", "fresh coriander", "chinese parsley"] },
+  { name: "mushroom", synonyms: ["button mushroom", "white mushroom"] },
+  { name: "lemon" },
+  { name: "lime" },
+  // Proteins
+  { name: "chicken", role: "core" },
+  { name: "chicken breast", synonyms: ["boneless chicken breast"], parent: "chicken" },
+  { name: "chicken thigh", synonyms: ["boneless chicken thigh"], parent: "chicken" },
+  { name: "beef", role: "core" },
+  { name: "ground beef", synonyms: ["minced beef", "beef mince"], parent: "beef" },
+  { name: "shrimp", synonyms: ["prawn"], role: "core" },
+  { name: "egg", synonyms: ["large egg", "whole egg"], role: "core" },
+  { name: "tofu", synonyms: ["bean curd"], role: "core" },
+  { name: "chickpea", synonyms: ["garbanzo bean", "garbanzo", "chana", "ceci bean"], role: "core" },
+  { name: "black bean", synonyms: ["turtle bean"], role: "core" },
+  { name: "kidney bean", synonyms: ["rajma"], role: "core" },
+  { name: "lentil", synonyms: ["dal", "dhal"], role: "core" },
+  { name: "crab", synonyms: ["crab meat"], role: "core" },
+  { name: "lobster", role: "core" },
+  { name: "scallop", role: "core" },
+  { name: "mussel", role: "core" },
+  { name: "clam", role: "core" },
+  { name: "oyster", role: "core" },
+  { name: "squid", synonyms: ["calamari"], role: "core" },
+  // Nuts
+  { name: "peanut", synonyms: ["groundnut"] },
+  { name: "peanut butter", contains: ["peanut"] },
+  { name: "almond", synonyms: ["slivered almond", "almond flake"] },
+  { name: "almond milk", contains: ["almond"] },
+  { name: "cashew", synonyms: ["cashew nut", "kaju"] },
+  { name: "cashew milk", contains: ["cashew"] },
+  { name: "walnut" },
+  { name: "pistachio" },
+  { name: "pecan" },
+  { name: "hazelnut", synonyms: ["filbert"] },
+  { name: "macadamia", synonyms: ["macadamia nut"] },
+  { name: "brazil nut" },
+  { name: "pine nut", synonyms: ["pignoli"] },
+  // Dairy
+  { name: "milk", synonyms: ["whole milk"] },
+  { name: "butter", synonyms: ["unsalted butter", "salted butter"] },
+  { name: "ghee", synonyms: ["clarified butter"], parent: "butter" },
+  { name: "heavy cream", synonyms: ["cream", "double cream", "whipping cream", "heavy whipping cream"] },
+  { name: "buttermilk" },
+  { name: "whey" },
+  { name: "ice cream" },
+  { name: "yogurt", synonyms: ["yoghurt", "curd", "plain yogurt"] },
+  { name: "greek yogurt", parent: "yogurt" },
+  { name: "sour cream" },
+  { name: "cheese" },
+  { name: "parmesan", synonyms: ["parmigiano reggiano", "parmesan cheese"], parent: "cheese" },
+  { name: "mozzarella", synonyms: ["mozzarella cheese"], parent: "cheese" },
+  { name: "cheddar", synonyms: ["cheddar cheese"], parent: "cheese" },
+  { name: "paneer", synonyms: ["indian cottage cheese"], role: "core" },
+  { name: "ricotta", synonyms: ["ricotta cheese"], parent: "cheese" },
+  { name: "mascarpone", parent: "cheese" },
+  { name: "cream cheese", parent: "cheese" },
+  // Pantry
+  { name: "vegetable oil", synonyms: ["oil", "cooking oil", "canola oil", "sunflower oil"], role: "staple" },
+  { name: "olive oil", synonyms: ["extra virgin olive oil", "evoo"], role: "staple" },
+  { name: "coconut oil", role: "staple" },
+  { name: "sesame oil", synonyms: ["toasted sesame oil"], role: "staple" },
+  { name: "salt", synonyms: ["sea salt", "kosher salt", "table salt"], role: "staple" },
+  { name: "black pepper", synonyms: ["pepper", "ground black pepper", "peppercorn"], role: "staple" },
+  { name: "sugar", synonyms: ["white sugar", "granulated sugar", "caster sugar"], role: "staple" },
+  { name: "brown sugar", parent: "sugar" },
+  { name: "flour", synonyms: ["all purpose flour", "plain flour", "maida"], role: "staple" },
+  { name: "rice", synonyms: ["white rice"], role: "core" },
+  { name: "basmati rice", parent: "rice" },
+  { name: "pasta", role: "core" },
+  { name: "spaghetti", parent: "pasta" },
+  { name: "penne", parent: "pasta" },
+  { name: "soy sauce", synonyms: ["soya sauce", "shoyu", "tamari"] },
+  { name: "vinegar", synonyms: ["white vinegar"], role: "staple" },
+  { name: "cream of tartar", role: "staple" },
+  { name: "coconut milk" },
+  { name: "coconut cream" },
+  { name: "oat milk" },
+  { name: "soy milk", synonyms: ["soya milk"] },
+  { name: "cocoa butter" },
+  { name: "vegetable broth", synonyms: ["vegetable stock"] },
+  { name: "chicken broth", synonyms: ["chicken stock"] },
+  { name: "cumin", synonyms: ["cumin seed", "jeera", "ground cumin"], role: "staple" },
+  { name: "turmeric", synonyms: ["haldi", "ground turmeric"], role: "staple" },
+  { name: "ground coriander", synonyms: ["coriander powder", "coriander seed", "dhania powder"], role: "staple" },
+  { name: "garam masala", role: "staple" },
+  { name: "paprika", synonyms: ["smoked paprika", "sweet paprika"], role: "staple" },
+];
+
+// Irregular plurals that the suffix rules below get wrong
+const IRREGULAR_SINGULARS: Record<string, string> = {
+  leaves: "leaf",
+  loaves: "loaf",
+  halves: "half",
+  knives: "knife",
+  potatoes: "potato",
+  tomatoes: "tomato",
+  mangoes: "mango",
+  chilies: "chili",
+  chillies: "chilli",
+  anchovies: "anchovy",
+  cloves: "clove",
+  olives: "olive",
+  chives: "chive",
+};
+
+// Words ending in "s" that are already singular
+const UNCOUNTABLE = new Set([
+  "hummus",
+  "asparagus",
+  "couscous",
+  "molasses",
+  "swiss",
+  "citrus",
+  "lemongrass",
+  "grass",
+  "bass",
+  "watercress",
+  "brussels",
+  "oats",
+  "greens",
+]);
+
+/**
+ * Reduce a single word to its singular form
+ */
+export function singularize(word: string): string {
+  if (IRREGULAR_SINGULARS[word]) return IRREGULAR_SINGULARS[word];
+  if (UNCOUNTABLE.has(word) || word.length <= 3) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(ches|shes|xes|sses|zes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("ss") || word.endsWith("us")) return word;
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Normalize an ingredient name: lowercase, strip punctuation and articles,
+ * and singularize every word
+ */
+export function normalizeIngredientName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Strip accents (jalapeño -> jalapeno)
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !["a", "an", "the", "of", "fresh"].includes(word))
+    .map(singularize)
+    .join(" ")
+    .trim();
+}
+
+// Lookup tables built once at module load
+const entriesByName = new Map<string, OntologyEntry>();
+const aliasToCanonical = new Map<string, string>();
+
+ONTOLOGY.forEach((entry) => {
+  entriesByName.set(entry.name, entry);
+  aliasToCanonical.set(normalizeIngredientName(entry.name), entry.name);
+  entry.synonyms?.forEach((synonym) => {
+    aliasToCanonical.set(normalizeIngredientName(synonym), entry.name);
+  });
+});
+
+export interface ResolvedIngredient {
+  input: string; // Original text
+  normalized: string; // Normalized text
+  canonical: string; // Canonical name (normalized text when not in the ontology)
+  known: boolean; // Whether the ontology recognised the ingredient
+  viaSynonym: boolean; // Resolved through a synonym rather than the canonical name
+}
+
+/**
+ * Resolve an ingredient name to its canonical ontology entry
+ */
+export function resolveIngredient(name: string): ResolvedIngredient {
+  const normalized = normalizeIngredientName(name);
+  const canonical = aliasToCanonical.get(normalized);
+
+  if (canonical) {
+    return {
+      input: name,
+      normalized,
+      canonical,
+      known: true,
+      viaSynonym: normalized !== normalizeIngredientName(canonical),
+    };
+  }
+
+  return { input: name, normalized, canonical: normalized, known: false, viaSynonym: false };
+}
+
+/**
+ * Get the chain of ancestors for a canonical ingredient, nearest first
+ */
+export function getIngredientAncestors(canonical: string): string[] {
+  const ancestors: string[] = [];
+  let current = entriesByName.get(canonical);
+
+  while (current?.parent && !ancestors.includes(current.parent)) {
+    ancestors.push(current.parent);
+    current = entriesByName.get(current.parent);
+  }
+
+  return ancestors;
+}
+
+/**
+ * Whole-word containment ("walnut" in "toasted walnut", but never "oil" in "boil")
+ */
+function containsWords(haystack: string, needle: string): boolean {
+  if (!haystack || !needle) return false;
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+/**
+ * Whether the head noun (trailing words) of a phrase is the given name
+ * ("arborio rice" is a kind of "rice"; "rice vinegar" isn't)
+ */
+function hasHeadNoun(phrase: string, head: string): boolean {
+  if (!phrase || !head) return false;
+  return ` ${phrase}`.endsWith(` ${head}`);
+}
+
+/**
+ * Decide whether a user ingredient satisfies a recipe ingredient.
+ * Returns the kind of match, or null when they don't match.
+ */
+export function matchIngredients(
+  userIngredient: ResolvedIngredient,
+  recipeIngredient: ResolvedIngredient
+): IngredientMatchType | null {
+  if (!userIngredient.canonical || !recipeIngredient.canonical) return null;
+
+  if (userIngredient.canonical === recipeIngredient.canonical) {
+    if (userIngredient.normalized === recipeIngredient.normalized) return "exact";
+    return userIngredient.known ? "synonym" : "exact";
+  }
+
+  // A specific variant stands in for the general one: "cherry tomato" covers
+  // "tomato", but a user with "tomato" can't make a "cherry tomato" recipe
+  if (getIngredientAncestors(userIngredient.canonical).includes(recipeIngredient.canonical)) {
+    return "variant";
+  }
+
+  // Two known, unrelated ingredients never match on text alone
+  if (userIngredient.known && recipeIngredient.known) return null;
+
+  // Otherwise the shorter name has to be the head noun of the longer one,
+  // taking the canonical name of whichever side the ontology knows
+  const userName = userIngredient.known ? userIngredient.canonical : userIngredient.normalized;
+  const recipeName = recipeIngredient.known ? recipeIngredient.canonical : recipeIngredient.normalized;
+  if (hasHeadNoun(recipeName, userName) || hasHeadNoun(userName, recipeName)) {
+    return "partial";
+  }
+
+  return null;
+}
+
+/**
+ * Resolve and de-duplicate a list of user ingredients
+ */
+export function resolveIngredientList(names: string[]): ResolvedIngredient[] {
+  const seen = new Set<string>();
+  const resolved: ResolvedIngredient[] = [];
+
+  names.forEach((name) => {
+    const ingredient = resolveIngredient(name);
+    if (!ingredient.canonical || seen.has(ingredient.canonical)) return;
+    seen.add(ingredient.canonical);
+    resolved.push(ingredient);
+  });
+
+  return resolved;
+}
+
+// Relative weight of each role in the weighted match score
+export const INGREDIENT_ROLE_WEIGHTS: Record<IngredientRole, number> = {
+  core: 3,
+  supporting: 1,
+  staple: 0.25,
+};
+
+/**
+ * Get the role of an ingredient. Known ingredients use the ontology (walking up
+ * to the parent), unknown ones fall back to their shopping category.
+ */
+export function getIngredientRole(ingredient: ResolvedIngredient): IngredientRole {
+  if (ingredient.known) {
+    const lineage = [ingredient.canonical, ...getIngredientAncestors(ingredient.canonical)];
+    for (const name of lineage) {
+      const role = entriesByName.get(name)?.role;
+      if (role) return role;
+    }
+    return "supporting";
+  }
+
+  const category = categorizeIngredient(ingredient.normalized);
+  if (category === "meat-seafood") return "core";
+  if (category === "spices-condiments") return "staple";
+  return "supporting";
+}
+
+/**
+ * Get the match weight of an ingredient
+ */
+export function getIngredientWeight(ingredient: ResolvedIngredient): number {
+  return INGREDIENT_ROLE_WEIGHTS[getIngredientRole(ingredient)];
+}
+
+// Names that stand for a whole family of ingredients when excluding ("no nuts").
+// The name stays an exclusion next to its members, so "mixed nuts" is caught
+// too; children of each member are covered through the ontology.
+const TREE_NUTS = ["almond", "cashew", "walnut", "pistachio", "pecan", "hazelnut", "macadamia", "brazil nut", "pine nut"];
+const INGREDIENT_GROUPS: Record<string, string[]> = {
+  nut: ["peanut", ...TREE_NUTS],
+  "tree nut": ["nut", ...TREE_NUTS], // Unnamed nuts may be tree nuts
+  dairy: ["milk", "butter", "heavy cream", "sour cream", "yogurt", "cheese", "paneer", "buttermilk", "whey", "ice cream"],
+  shellfish: ["shrimp", "crab", "lobster", "scallop", "mussel", "clam", "oyster", "squid"],
+};
+
+// Words marking a stand-in made without a group ("vegan cheese", "dairy-free milk")
+const GROUP_FREE_MARKERS: Record<string, string[]> = {
+  dairy: ["vegan", "dairy free", "non dairy", "plant based"],
+};
+
+// Profile dietary restrictions that imply excluded ingredients
+const RESTRICTION_EXCLUSIONS: Record<string, string[]> = {
+  "nut-free": ["nut"],
+  "dairy-free": ["dairy"],
+};
+
+/**
+ * Get the ingredients a set of profile dietary restrictions excludes
+ */
+export function getRestrictionExclusions(restrictions: string[]): string[] {
+  const exclusions = restrictions.flatMap((restriction) => RESTRICTION_EXCLUSIONS[restriction.trim().toLowerCase()] || []);
+  return [...new Set(exclusions)];
+}
+
+export interface ExcludedIngredient extends ResolvedIngredient {
+  group?: string; // The group name it came from ("dairy")
+}
+
+/**
+ * Resolve excluded ingredients, adding the members of group names ("nuts", "dairy")
+ */
+export function resolveExcludedIngredients(names: string[]): ExcludedIngredient[] {
+  const seen = new Set<string>();
+  const excluded: ExcludedIngredient[] = [];
+
+  names.forEach((name) => {
+    const group = normalizeIngredientName(name);
+    const members = INGREDIENT_GROUPS[group];
+    const entries = members ? [group, ...members].map((member) => ({ ...resolveIngredient(member), group })) : [resolveIngredient(name)];
+    entries.forEach((entry) => {
+      if (!entry.canonical || seen.has(entry.canonical)) return;
+      seen.add(entry.canonical);
+      excluded.push(entry);
+    });
+  });
+
+  return excluded;
+}
+
+// Ontology entries named in ingredient text, by normalized text
+const entriesInTextCache = new Map<string, string[]>();
+
+/**
+ * The ontology entries named in text outside the ontology, without the shorter
+ * names inside them ("unsweetened almond milk" -> almond milk, not also milk)
+ */
+function findEntriesInText(text: string): string[] {
+  let entries = entriesInTextCache.get(text);
+  if (!entries) {
+    const aliases = [...aliasToCanonical.keys()].filter((alias) => containsWords(text, alias));
+    entries = aliases
+      .filter((alias) => !aliases.some((other) => other !== alias && containsWords(other, alias)))
+      .map((alias) => aliasToCanonical.get(alias)!);
+    entriesInTextCache.set(text, entries);
+  }
+  return entries;
+}
+
+/**
+ * Everything an ingredient counts as when excluding: itself, its parents, and
+ * what it is made from ("almond milk" -> almond)
+ */
+function getExclusionLineage(canonical: string): string[] {
+  const lineage = [canonical, ...getIngredientAncestors(canonical)];
+  [...lineage].forEach((name) => {
+    entriesByName.get(name)?.contains?.forEach((ingredient) => {
+      [ingredient, ...getIngredientAncestors(ingredient)].forEach((entry) => {
+        if (!lineage.includes(entry)) lineage.push(entry);
+      });
+    });
+  });
+  return lineage;
+}
+
+/**
+ * Whether text outside the ontology names an ontology entry that shares the
+ * exclusion's words without being it ("light coconut milk" holds "coconut milk", not "milk")
+ */
+function containsOtherEntry(text: string, exclusion: ResolvedIngredient): boolean {
+  for (const [alias, canonical] of aliasToCanonical) {
+    if (alias === exclusion.normalized || !containsWords(alias, exclusion.normalized) || !containsWords(text, alias)) continue;
+    if (!getExclusionLineage(canonical).includes(exclusion.canonical)) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether an ingredient is ruled out by an exclusion list: the same ingredient,
+ * a more specific variant of an excluded one or something made from one. The
+ * ontology decides for the ingredients it knows, so "almond milk" and "cocoa
+ * butter" are never dairy. Other names go by the entries they mention
+ * ("grated cheddar") and then by whole words ("mixed nuts"). Stand-ins marked
+ * as free of a group ("vegan cheese") are kept.
+ */
+export function isExcludedIngredient(name: string, excluded: ExcludedIngredient[]): boolean {
+  const ingredient = resolveIngredient(name);
+  const entries = ingredient.known ? [ingredient.canonical] : findEntriesInText(ingredient.normalized);
+  const lineage = [ingredient.canonical, ...entries].flatMap(getExclusionLineage);
+
+  return excluded.some((exclusion) => {
+    const markers = exclusion.group ? GROUP_FREE_MARKERS[exclusion.group] || [] : [];
+    if (markers.some((marker) => containsWords(ingredient.normalized, marker))) return false;
+    if (lineage.includes(exclusion.canonical)) return true;
+    return (
+      !ingredient.known &&
+      containsWords(ingredient.normalized, exclusion.normalized) &&
+      !containsOtherEntry(ingredient.normalized, exclusion)
+    );
+  });
+}
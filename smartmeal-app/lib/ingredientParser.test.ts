@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { formatIngredientLine, formatQuantity, normalizeUnit, parseIngredientLine, parseIngredientLines, parseQuantity } from "./ingredientParser";
+
+describe("parseQuantity", () => {
+  it.each([
+    ["2 eggs", 2],
+    ["1.5 cups", 1.5],
+    ["1,5 l", 1.5],
+    ["1,25 kg", 1.25],
+    ["1,000 g flour", 1000],
+    ["2,500.5 ml", 2500.5],
+    ["1,234,567 g", 1234567],
+    ["1/2 cup", 0.5],
+    ["1 1/2 cups", 1.5],
+    ["1½ cups", 1.5],
+    ["1 ½ cups", 1.5],
+    ["¾ cup", 0.75],
+    ["a pinch", 1],
+    ["half an onion", 0.5],
+  ])("reads %s as %d", (text, quantity) => {
+    expect(parseQuantity(text)?.quantity).toBe(quantity);
+  });
+
+  it.each([
+    ["2-3 cloves", 2, 3],
+    ["2 – 3 cloves", 2, 3],
+    ["½ to 1 cup", 0.5, 1],
+    ["1 or 2 chilies", 1, 2],
+    ["1,000-1,500 g", 1000, 1500],
+  ])("reads the range %s", (text, quantity, quantityMax) => {
+    expect(parseQuantity(text)).toMatchObject({ quantity, quantityMax });
+  });
+
+  it("drops a range that doesn't go up", () => {
+    expect(parseQuantity("3-2 cloves")).toEqual({ quantity: 3, quantityMax: undefined, rest: "cloves" });
+  });
+
+  it("returns null when there is no amount", () => {
+    expect(parseQuantity("salt to taste")).toBeNull();
+  });
+});
+
+describe("normalizeUnit", () => {
+  it("canonicalizes and pluralizes units", () => {
+    expect(normalizeUnit("Tablespoons")).toBe("tbsp");
+    expect(normalizeUnit("cup", 2)).toBe("cups");
+    expect(normalizeUnit("oz.")).toBe("oz");
+    expect(normalizeUnit("T")).toBe("tbsp");
+    expect(normalizeUnit("t")).toBe("tsp");
+    expect(normalizeUnit("handfull")).toBeNull();
+  });
+});
+
+describe("parseIngredientLine", () => {
+  it("splits amount, unit, name, preparation and substitutes", () => {
+    expect(parseIngredientLine("1 1/2 cups diced tomatoes (or canned)")).toEqual({
+      ingredient: { name: "tomatoes", quantity: 1.5, unit: "cups", preparation: "diced", substitutions: ["canned tomatoes"] },
+      hasQuantity: true,
+    });
+    expect(parseIngredientLine("2-3 cloves garlic, minced")?.ingredient).toEqual({
+      name: "garlic",
+      quantity: 2,
+      quantityMax: 3,
+      unit: "cloves",
+      preparation: "minced",
+      substitutions: [],
+    });
+  });
+
+  it("reads units glued to the amount", () => {
+    expect(parseIngredientLine("200g flour")?.ingredient).toMatchObject({ name: "flour", quantity: 200, unit: "g" });
+  });
+
+  it("defaults to one when no amount is written", () => {
+    expect(parseIngredientLine("salt to taste")).toEqual({
+      ingredient: { name: "salt", quantity: 1, unit: "", preparation: "to taste", substitutions: [] },
+      hasQuantity: false,
+    });
+  });
+
+  it("reads thousands separators in the amount", () => {
+    expect(parseIngredientLine("1,000 g flour")?.ingredient).toMatchObject({ name: "flour", quantity: 1000, unit: "g" });
+  });
+
+  it("skips blank lines and list bullets", () => {
+    expect(parseIngredientLine("   ")).toBeNull();
+    expect(parseIngredientLines("- 2 eggs\n\n• 1 tbsp butter or margarine").map((line) => line.ingredient)).toEqual([
+      { name: "eggs", quantity: 2, unit: "", substitutions: [] },
+      { name: "butter", quantity: 1, unit: "tbsp", substitutions: ["margarine"] },
+    ]);
+  });
+});
+
+describe("formatting", () => {
+  it("writes fractions and ranges back", () => {
+    expect(formatQuantity(1.5)).toBe("1 1/2");
+    expect(formatQuantity(0.333)).toBe("1/3");
+    expect(formatQuantity(2, 3)).toBe("2-3");
+    expect(formatQuantity(1.2)).toBe("1.2");
+  });
+
+  it.each(["2-3 cloves garlic, minced", "1 1/2 cups tomatoes, diced", "3/4 tsp salt", "1 onion, finely chopped"])(
+    "round-trips %s",
+    (line) => {
+      expect(formatIngredientLine(parseIngredientLine(line)!.ingredient)).toBe(line);
+    }
+  );
+});
@@ -0,0 +1,302 @@
+/**
+ * Ingredient Line Parser
+ * Turns free-text lines such as "1 1/2 cups diced tomatoes (or canned)" or
+ * "2-3 cloves garlic, minced" into Ingredient objects: amount (or range), unit,
+ * name, preparation notes and substitutions
+ */
+
+import type { Ingredient } from "@/types/recipe";
+
+export interface ParsedIngredientLine {
+  ingredient: Ingredient;
+  hasQuantity: boolean; // False when no amount was written ("salt to taste"); quantity is then 1
+}
+
+interface UnitDefinition {
+  singular: string;
+  plural: string; // Same as singular for abbreviations
+  aliases: string[]; // Lowercase; matched with or without a trailing "."
+}
+
+// Units and how they are written. Canonical forms follow the bundled dataset
+// ("cups", "tbsp", "tsp", "cloves", "medium").
+const UNITS: UnitDefinition[] = [
+  { singular: "tsp", plural: "tsp", aliases: ["tsp", "tsps", "teaspoon", "teaspoons", "tspn"] },
+  { singular: "tbsp", plural: "tbsp", aliases: ["tbsp", "tbsps", "tbs", "tbl", "tblsp", "tablespoon", "tablespoons"] },
+  { singular: "cup", plural: "cups", aliases: ["cup", "cups", "c"] },
+  { singular: "fl oz", plural: "fl oz", aliases: ["fl oz", "fl. oz", "fluid ounce", "fluid ounces", "floz"] },
+  { singular: "ml", plural: "ml", aliases: ["ml", "mls", "milliliter", "milliliters", "millilitre", "millilitres"] },
+  { singular: "l", plural: "l", aliases: ["l", "liter", "liters", "litre", "litres", "ltr"] },
+  { singular: "pint", plural: "pints", aliases: ["pint", "pints", "pt"] },
+  { singular: "quart", plural: "quarts", aliases: ["quart", "quarts", "qt"] },
+  { singular: "gallon", plural: "gallons", aliases: ["gallon", "gallons", "gal"] },
+  { singular: "g", plural: "g", aliases: ["g", "gs", "gram", "grams", "gr", "gramme", "grammes"] },
+  { singular: "kg", plural: "kg", aliases: ["kg", "kgs", "kilogram", "kilograms", "kilo", "kilos"] },
+  { singular: "mg", plural: "mg", aliases: ["mg", "milligram", "milligrams"] },
+  { singular: "oz", plural: "oz", aliases: ["oz", "ounce", "ounces"] },
+  { singular: "lb", plural: "lb", aliases: ["lb", "lbs", "pound", "pounds"] },
+  { singular: "pinch", plural: "pinches", aliases: ["pinch", "pinches"] },
+  { singular: "dash", plural: "dashes", aliases: ["dash", "dashes"] },
+  { singular: "handful", plural: "handfuls", aliases: ["handful", "handfuls"] },
+  { singular: "clove", plural: "cloves", aliases: ["clove", "cloves"] },
+  { singular: "can", plural: "cans", aliases: ["can", "cans", "tin", "tins"] },
+  { singular: "jar", plural: "jars", aliases: ["jar", "jars"] },
+  { singular: "package", plural: "packages", aliases: ["package", "packages", "pkg", "pkgs", "packet", "packets"] },
+  { singular: "bunch", plural: "bunches", aliases: ["bunch", "bunches"] },
+  { singular: "sprig", plural: "sprigs", aliases: ["sprig", "sprigs"] },
+  { singular: "stalk", plural: "stalks", aliases: ["stalk", "stalks"] },
+  { singular: "head", plural: "heads", aliases: ["head", "heads"] },
+  { singular: "slice", plural: "slices", aliases: ["slice", "slices"] },
+  { singular: "piece", plural: "pieces", aliases: ["piece", "pieces", "pc", "pcs"] },
+  { singular: "stick", plural: "sticks", aliases: ["stick", "sticks"] },
+  { singular: "small", plural: "small", aliases: ["small", "sm"] },
+  { singular: "medium", plural: "medium", aliases: ["medium", "med"] },
+  { singular: "large", plural: "large", aliases: ["large", "lg"] },
+];
+
+// Single-letter shorthands where case matters: "1 T sugar" is a tablespoon, "1 t salt" a teaspoon
+const CASE_SENSITIVE_UNITS: Record<string, string> = { T: "tbsp", t: "tsp" };
+
+const unitsByAlias = new Map<string, UnitDefinition>();
+UNITS.forEach((unit) => unit.aliases.forEach((alias) => unitsByAlias.set(alias, unit)));
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 1 / 4, "¾": 3 / 4, "⅕": 1 / 5, "⅖": 2 / 5, "⅗": 3 / 5, "⅘": 4 / 5,
+  "⅙": 1 / 6, "⅚": 5 / 6, "⅛": 1 / 8, "⅜": 3 / 8, "⅝": 5 / 8, "⅞": 7 / 8,
+};
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join("");
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, half: 0.5, dozen: 12,
+};
+
+// Preparation words written before the name ("diced tomatoes"), with the adverbs that go with them
+const PREPARATION_WORDS = new Set([
+  "chopped", "diced", "minced", "sliced", "grated", "shredded", "crushed", "peeled", "melted", "softened",
+  "beaten", "cubed", "julienned", "halved", "quartered", "trimmed", "rinsed", "drained", "toasted", "mashed",
+  "pitted", "seeded", "zested", "juiced", "cooked", "uncooked", "deveined", "thawed", "sifted", "packed",
+]);
+const PREPARATION_ADVERBS = new Set(["finely", "roughly", "coarsely", "thinly", "thickly", "freshly", "lightly", "firmly", "well"]);
+
+// Notes written after the name without a comma ("salt to taste")
+const TRAILING_NOTES = /\s+(to taste|as needed|for garnish|for serving|for frying|optional|divided|at room temperature)$/i;
+
+// A substitute that is only a form of the same ingredient ("or canned" -> "canned tomatoes")
+const FORM_MODIFIERS = new Set(["canned", "tinned", "dried", "frozen", "fresh", "ground", "powdered", "jarred", "bottled"]);
+
+// A number: "1,000" has a thousands separator, so only "1,5" or "1,25" reads as a decimal comma
+const THOUSANDS = `\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?(?![\\d,])`;
+const NUMBER = `(?:${THOUSANDS}|\\d+(?:[.,]\\d+)?)`;
+
+// One amount: "2", "1.5", "1,5", "1,000", "1/2", "1 1/2", "1½", "1 ½", "½"
+const AMOUNT = `(?:${NUMBER}\\s*[${FRACTION_CHARS}]|\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|${NUMBER}|[${FRACTION_CHARS}])`;
+const AMOUNT_PATTERN = new RegExp(`^(${AMOUNT})(?:\\s*(?:-|to|or)\\s*(${AMOUNT}))?`, "i");
+
+/**
+ * The value of one written amount, e.g. "1 1/2" -> 1.5
+ */
+function amountValue(text: string): number {
+  let total = 0;
+  text
+    .replace(new RegExp(`^${THOUSANDS}`), (number) => number.replace(/,/g, ""))
+    .replace(/(\d),(\d)/, "$1.$2")
+    .replace(new RegExp(`([${FRACTION_CHARS}])`, "g"), " $1")
+    .trim()
+    .split(/\s+/)
+    .forEach((part) => {
+      if (UNICODE_FRACTIONS[part] !== undefined) total += UNICODE_FRACTIONS[part];
+      else if (part.includes("/")) {
+        const [numerator, denominator] = part.split("/").map(Number);
+        if (denominator) total += numerator / denominator;
+      } else total += Number(part);
+    });
+  return Math.round(total * 1000) / 1000;
+}
+
+/**
+ * A written quantity or range ("2", "1 1/2", "2-3", "½ to 1") at the start of
+ * the text, with whatever follows it
+ */
+export function parseQuantity(text: string): { quantity: number; quantityMax?: number; rest: string } | null {
+  const source = text.trim().replace(/[–—]/g, "-");
+  const match = source.match(AMOUNT_PATTERN);
+  if (match) {
+    const quantity = amountValue(match[1]);
+    const max = match[2] ? amountValue(match[2]) : undefined;
+    return {
+      quantity,
+      quantityMax: max !== undefined && max > quantity ? max : undefined,
+      rest: source.slice(match[0].length).trim(),
+    };
+  }
+
+  // Number words: "a pinch", "two eggs", "half an onion"
+  const word = source.match(/^([a-z]+)\b\s*/i);
+  const value = word ? NUMBER_WORDS[word[1].toLowerCase()] : undefined;
+  if (word && value !== undefined) {
+    const rest = source.slice(word[0].length).replace(/^(a|an)\s+/i, "");
+    return { quantity: value, rest: rest.trim() };
+  }
+  return null;
+}
+
+/**
+ * The canonical form of a written unit for a quantity ("Tablespoons" -> "tbsp",
+ * "cup" with 2 -> "cups"), or null if it isn't a unit we know
+ */
+export function normalizeUnit(unit: string, quantity = 1): string | null {
+  if (CASE_SENSITIVE_UNITS[unit]) return CASE_SENSITIVE_UNITS[unit];
+  const definition = unitsByAlias.get(unit.toLowerCase().replace(/\.$/, "").replace(/\s+/g, " "));
+  if (!definition) return null;
+  return quantity > 1 ? definition.plural : definition.singular;
+}
+
+/**
+ * A unit at the start of the text (one or two words, or glued to the amount
+ * as in "200g"), with whatever follows it
+ */
+function takeUnit(text: string, quantity: number): { unit: string; rest: string } | null {
+  const words = text.split(/\s+/);
+  for (const count of [2, 1]) {
+    if (words.length <= count) continue; // A unit needs a name after it
+    const unit = normalizeUnit(words.slice(0, count).join(" "), quantity);
+    if (unit) return { unit, rest: words.slice(count).join(" ").replace(/^of\s+/i, "") };
+  }
+  return null;
+}
+
+/**
+ * Split leading preparation words off a name: "finely chopped onion" -> "onion", "finely chopped"
+ */
+function takeLeadingPreparation(name: string): { name: string; preparation: string[] } {
+  const words = name.split(/\s+/);
+  let index = 0;
+  while (
+    index < words.length - 1 &&
+    (PREPARATION_WORDS.has(words[index].toLowerCase().replace(/,$/, "")) ||
+      (PREPARATION_ADVERBS.has(words[index].toLowerCase()) && PREPARATION_WORDS.has(words[index + 1]?.toLowerCase())))
+  ) {
+    index++;
+  }
+  if (index === 0) return { name, preparation: [] };
+  const preparation = words.slice(0, index).join(" ").replace(/,/g, "").replace(/\s+and$/i, "");
+  return { name: words.slice(index).join(" ").replace(/^and\s+/i, ""), preparation: [preparation] };
+}
+
+/**
+ * A substitute as the full ingredient name: a lone form ("canned") applies to the same ingredient
+ */
+function expandSubstitute(substitute: string, name: string): string {
+  const text = substitute.replace(/^(or|use|sub|substitute)\s+/i, "").trim();
+  return FORM_MODIFIERS.has(text.toLowerCase()) ? `${text} ${name.replace(/^(fresh|dried|canned)\s+/i, "")}` : text;
+}
+
+/**
+ * Parse one free-text ingredient line. Returns null for blank lines.
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine | null {
+  let text = line
+    .replace(/^\s*(?:[-*•·▢□]|\d+[.)](?=\s))\s*/, "") // List bullets and numbering
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!text) return null;
+
+  const preparation: string[] = [];
+  const substitutions: string[] = [];
+
+  // Parentheticals: "(or canned)" is a substitute, anything else ("(14 oz)", "(optional)") a note
+  const parentheticals: string[] = [];
+  text = text.replace(/\s*\(([^)]*)\)\s*/g, (_match, inner: string) => {
+    if (inner.trim()) parentheticals.push(inner.trim());
+    return " ";
+  }).trim();
+
+  // Amount and unit
+  const parsed = parseQuantity(text);
+  let quantity = 1;
+  let quantityMax: number | undefined;
+  let unit = "";
+  if (parsed) {
+    quantity = parsed.quantity;
+    quantityMax = parsed.quantityMax;
+    text = parsed.rest; // A unit glued to the amount ("200g") is left at the start of the rest
+
+    const found = takeUnit(text, quantityMax ?? quantity);
+    if (found) {
+      unit = found.unit;
+      text = found.rest;
+    }
+  }
+
+  // Notes after a comma, or a trailing "to taste"
+  const [beforeComma, ...afterComma] = text.split(",");
+  text = beforeComma.trim();
+  afterComma.map((note) => note.trim()).filter(Boolean).forEach((note) => {
+    if (/^or\s+/i.test(note)) substitutions.push(note);
+    else preparation.push(note);
+  });
+  const trailing = text.match(TRAILING_NOTES);
+  if (trailing) {
+    text = text.slice(0, trailing.index).trim();
+    preparation.push(trailing[1].toLowerCase());
+  }
+
+  // "butter or margarine" -> butter, with margarine as a substitute
+  const alternatives = text.split(/\s+or\s+/i);
+  text = alternatives[0];
+  substitutions.push(...alternatives.slice(1));
+
+  const leading = takeLeadingPreparation(text);
+  const name = leading.name.trim() || text.trim();
+
+  // Notes in the order they read best: "finely chopped, 14 oz, drained"
+  const notes = parentheticals.filter((inner) => {
+    if (!/^(or|use|sub|substitute)\s+/i.test(inner)) return true;
+    substitutions.push(inner);
+    return false;
+  });
+  preparation.unshift(...leading.preparation, ...notes);
+
+  const ingredient: Ingredient = { name, quantity, unit };
+  if (quantityMax !== undefined) ingredient.quantityMax = quantityMax;
+  ingredient.substitutions = substitutions.map((substitute) => expandSubstitute(substitute, name)).filter(Boolean);
+  if (preparation.length > 0) ingredient.preparation = preparation.join(", ");
+
+  return { ingredient, hasQuantity: !!parsed };
+}
+
+/**
+ * Parse several lines at once (a pasted ingredient list), skipping blank lines
+ */
+export function parseIngredientLines(text: string): ParsedIngredientLine[] {
+  return text
+    .split(/\r?\n/)
+    .map(parseIngredientLine)
+    .filter((parsed): parsed is ParsedIngredientLine => parsed !== null);
+}
+
+/**
+ * A quantity or range as written in a line: 1.5 -> "1 1/2", 2 to 3 -> "2-3"
+ */
+export function formatQuantity(quantity: number, quantityMax?: number): string {
+  const format = (value: number) => {
+    const whole = Math.floor(value);
+    const fraction = value - whole;
+    const match = [[1, 2], [1, 3], [2, 3], [1, 4], [3, 4], [1, 8], [3, 8], [5, 8], [7, 8]].find(
+      ([numerator, denominator]) => Math.abs(fraction - numerator / denominator) < 0.01
+    );
+    if (!match || fraction < 0.01) return String(Math.round(value * 100) / 100);
+    return `${whole ? `${whole} ` : ""}${match[0]}/${match[1]}`;
+  };
+  return quantityMax !== undefined ? `${format(quantity)}-${format(quantityMax)}` : format(quantity);
+}
+
+/**
+ * An ingredient written back as one line, e.g. "2-3 cloves garlic, minced"
+ */
+export function formatIngredientLine(ingredient: Ingredient): string {
+  const amount = formatQuantity(ingredient.quantity, ingredient.quantityMax);
+  const line = [amount, ingredient.unit, ingredient.name].filter(Boolean).join(" ");
+  return ingredient.preparation ? `${line}, ${ingredient.preparation}` : line;
+}
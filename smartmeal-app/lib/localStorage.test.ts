@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { migrateFavorites, type FavoritesData } from "./localStorage";
+
+describe("migrateFavorites", () => {
+  it("keeps every favorite from a version 1 id array, without collections", () => {
+    const data = migrateFavorites(["chana-masala", "user_dal", "chana-masala", 42, null]);
+    expect(data.version).toBe(2);
+    expect(data.favorites.map((favorite) => favorite.recipeId)).toEqual(["chana-masala", "user_dal"]);
+    expect(data.favorites.every((favorite) => !Number.isNaN(Date.parse(favorite.addedAt)))).toBe(true);
+    expect(data.collections).toEqual([]);
+  });
+
+  it("returns version 2 data as it is", () => {
+    const stored: FavoritesData = {
+      version: 2,
+      favorites: [{ recipeId: "dal", addedAt: "2026-01-02T03:04:05.000Z" }],
+      collections: [{ id: "weeknight", name: "Weeknight", recipeIds: ["dal"], createdAt: "2026-01-02T03:04:05.000Z" }],
+    };
+    expect(migrateFavorites(stored)).toEqual(stored);
+  });
+
+  it("fills in missing lists of version 2 data", () => {
+    expect(migrateFavorites({ version: 2, favorites: "dal" })).toEqual({ version: 2, favorites: [], collections: [] });
+  });
+
+  it.each([null, undefined, "dal", { version: 3, favorites: [] }])("starts empty from unreadable data (%j)", (stored) => {
+    expect(migrateFavorites(stored)).toEqual({ version: 2, favorites: [], collections: [] });
+  });
+});
@@ -5,7 +5,7 @@
 
 import { MealPlan } from "@/types/mealPlan";
 import { ShoppingList } from "@/types/shopping";
-import { UserProfile, SearchQuery } from "@/types/user";
+import { UserProfile, SearchQuery, RecipeFeedback, CookingLogEntry } from "@/types/user";
 
 // Storage keys
 export const STORAGE_KEYS = {
@@ -15,6 +15,10 @@ export const STORAGE_KEYS = {
   PROFILE: "smartmeal_profile",
   RECENT_SEARCHES: "smartmeal_recentsearches",
   THEME: "smartmeal_theme",
+  DISMISSED_RECIPES: "smartmeal_dismissedrecipes",
+  PERSONALIZE_SEARCH: "smartmeal_personalizesearch",
+  RECIPE_FEEDBACK: "smartmeal_recipefeedback",
+  COOKING_HISTORY: "smartmeal_cookinghistory",
 } as const;
 
 /**
@@ -98,23 +102,120 @@ export function isStorageAvailable(): boolean {
   }
 }
 
+export interface StorageStore<T> {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => T;
+  getServerSnapshot: () => T;
+  update: (change: (current: T) => T) => void;
+}
+
+/**
+ * A stored value for useSyncExternalStore. It is read from localStorage once on
+ * the client and again when another tab changes it; during hydration React uses
+ * the server value, so the first client render matches the server render.
+ */
+export function createStorageStore<T>(
+  key: string,
+  load: () => T,
+  save: (value: T) => boolean,
+  serverValue: T
+): StorageStore<T> {
+  let loaded = false;
+  let value = serverValue;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key) return;
+    loaded = false;
+    notify();
+  };
+
+  const store: StorageStore<T> = {
+    subscribe(listener) {
+      if (listeners.size === 0 && typeof window !== "undefined") window.addEventListener("storage", handleStorage);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && typeof window !== "undefined") window.removeEventListener("storage", handleStorage);
+      };
+    },
+    getSnapshot() {
+      if (!loaded) {
+        value = load();
+        loaded = true;
+      }
+      return value;
+    },
+    getServerSnapshot: () => serverValue,
+    update(change) {
+      value = change(store.getSnapshot());
+      save(value);
+      notify();
+    },
+  };
+  return store;
+}
+
 // Typed storage functions for specific data
 
 export interface FavoriteRecipe {
   recipeId: string;
-  recipeName: string;
-  recipeImage: string;
-  addedAt: string;
-  cuisine: string;
-  totalTime: number;
+  addedAt: string; // ISO timestamp
+}
+
+// A named group of favorites ("Weeknight", "Party"); a recipe can be in several
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  recipeIds: string[]; // In the order they were added
+  createdAt: string; // ISO timestamp
+}
+
+// What is stored under STORAGE_KEYS.FAVORITES; collections are kept in display order
+export interface FavoritesData {
+  version: 2;
+  favorites: FavoriteRecipe[];
+  collections: FavoriteCollection[];
+}
+
+/**
+ * Bring stored favorites up to the current shape. Version 1 was a plain array of
+ * recipe ids; those become favorites with no collections.
+ */
+export function migrateFavorites(stored: unknown): FavoritesData {
+  if (Array.isArray(stored)) {
+    const migratedAt = new Date().toISOString();
+    const recipeIds = stored.filter((id): id is string => typeof id === "string");
+    return {
+      version: 2,
+      favorites: [...new Set(recipeIds)].map((recipeId) => ({ recipeId, addedAt: migratedAt })),
+      collections: [],
+    };
+  }
+
+  const data = stored as Partial<FavoritesData> | null;
+  if (data && typeof data === "object" && data.version === 2) {
+    return {
+      version: 2,
+      favorites: Array.isArray(data.favorites) ? data.favorites : [],
+      collections: Array.isArray(data.collections) ? data.collections : [],
+    };
+  }
+
+  return { version: 2, favorites: [], collections: [] };
 }
 
-export function saveFavorites(favorites: FavoriteRecipe[]): boolean {
-  return saveToStorage(STORAGE_KEYS.FAVORITES, favorites);
+export function saveFavorites(data: FavoritesData): boolean {
+  return saveToStorage(STORAGE_KEYS.FAVORITES, data);
 }
 
-export function loadFavorites(): FavoriteRecipe[] {
-  return loadFromStorage<FavoriteRecipe[]>(STORAGE_KEYS.FAVORITES, []);
+// Stores a migrated version 1 list right away, so the migration only runs once
+export function loadFavorites(): FavoritesData {
+  const stored = loadFromStorage<unknown>(STORAGE_KEYS.FAVORITES, null);
+  const data = migrateFavorites(stored);
+  if (Array.isArray(stored)) saveFavorites(data);
+  return data;
 }
 
 export function saveMealPlan(mealPlan: MealPlan): boolean {
@@ -147,6 +248,7 @@ export function loadProfile(): UserProfile {
     activityLevel: "moderately-active",
     goalType: "maintain",
     preferredCuisines: [],
+    measurementSystem: "original",
   };
   
   return loadFromStorage<UserProfile>(STORAGE_KEYS.PROFILE, defaultProfile);
@@ -167,3 +269,38 @@ export function saveTheme(theme: "light" | "dark"): boolean {
 export function loadTheme(): "light" | "dark" {
   return loadFromStorage<"light" | "dark">(STORAGE_KEYS.THEME, "light");
 }
+
+export function saveDismissedRecipes(recipeIds: string[]): boolean {
+  return saveToStorage(STORAGE_KEYS.DISMISSED_RECIPES, recipeIds);
+}
+
+export function loadDismissedRecipes(): string[] {
+  const recipeIds = loadFromStorage<string[]>(STORAGE_KEYS.DISMISSED_RECIPES, []);
+  return Array.isArray(recipeIds) ? recipeIds : [];
+}
+
+export function savePersonalizeSearch(enabled: boolean): boolean {
+  return saveToStorage(STORAGE_KEYS.PERSONALIZE_SEARCH, enabled);
+}
+
+export function loadPersonalizeSearch(): boolean {
+  return loadFromStorage<boolean>(STORAGE_KEYS.PERSONALIZE_SEARCH, true) !== false;
+}
+
+export function saveRecipeFeedback(feedback: Record<string, RecipeFeedback>): boolean {
+  return saveToStorage(STORAGE_KEYS.RECIPE_FEEDBACK, feedback);
+}
+
+export function loadRecipeFeedback(): Record<string, RecipeFeedback> {
+  const feedback = loadFromStorage<Record<string, RecipeFeedback>>(STORAGE_KEYS.RECIPE_FEEDBACK, {});
+  return feedback && typeof feedback === "object" && !Array.isArray(feedback) ? feedback : {};
+}
+
+export function saveCookingHistory(entries: CookingLogEntry[]): boolean {
+  return saveToStorage(STORAGE_KEYS.COOKING_HISTORY, entries);
+}
+
+export function loadCookingHistory(): CookingLogEntry[] {
+  const entries = loadFromStorage<CookingLogEntry[]>(STORAGE_KEYS.COOKING_HISTORY, []);
+  return Array.isArray(entries) ? entries : [];
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { matchesNutritionTarget } from "./nutritionCalculator";
+
+const nutrition = { calories: 500, protein: 30, carbs: 50, fats: 20, fiber: 8, sodium: 600, sugar: 6 };
+
+describe("matchesNutritionTarget", () => {
+  it("matches exact amounts within the tolerance", () => {
+    expect(matchesNutritionTarget(nutrition, { calories: 550, protein: 30 })).toBe(true);
+    expect(matchesNutritionTarget(nutrition, { calories: 560 })).toBe(false);
+    expect(matchesNutritionTarget(nutrition, { calories: 560 }, 20)).toBe(true);
+  });
+
+  it("matches min/max ranges inclusively", () => {
+    expect(matchesNutritionTarget(nutrition, { calories: { max: 500 }, protein: { min: 30 } })).toBe(true);
+    expect(matchesNutritionTarget(nutrition, { sodium: { min: 100, max: 500 } })).toBe(false);
+  });
+
+  it("mixes amounts and ranges, and checks nothing for an empty target", () => {
+    expect(matchesNutritionTarget(nutrition, { calories: 490, sugar: { max: 5 } })).toBe(false);
+    expect(matchesNutritionTarget(nutrition, {})).toBe(true);
+  });
+});
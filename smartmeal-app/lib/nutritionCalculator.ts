@@ -3,10 +3,13 @@
  * Aggregate nutrition data and calculate progress toward goals
  */
 
-import { Nutrition } from "@/types/recipe";
+import { Nutrition, NumericRange } from "@/types/recipe";
 import { NutritionGoals, NutritionProgress, DailyNutrition } from "@/types/nutrition";
 import { MealSlot } from "@/types/mealPlan";
 
+// Protein share of calories at or above which a recipe counts as "high-protein"
+export const HIGH_PROTEIN_CALORIE_SHARE = 0.3;
+
 /**
  * Calculate total nutrition from multiple meals
  */
@@ -145,43 +148,33 @@ export function suggestMealsForRemainingMacros(
 }
 
 /**
- * Check if nutrition matches target (within tolerance)
+ * Check if nutrition matches target. An exact amount matches within `tolerance`
+ * percent, a min/max range inclusively; nutrients left out aren't checked.
  */
 export function matchesNutritionTarget(
   nutrition: Nutrition,
-  target: {
-    calories?: number;
-    protein?: number;
-    carbs?: number;
-    fats?: number;
-  },
+  target: Partial<Record<keyof Nutrition, number | NumericRange>>,
   tolerance: number = 10 // percentage
 ): boolean {
-  const checks: boolean[] = [];
-
-  if (target.calories !== undefined) {
-    const diff = Math.abs(nutrition.calories - target.calories);
-    const allowedDiff = target.calories * (tolerance / 100);
-    checks.push(diff <= allowedDiff);
-  }
-
-  if (target.protein !== undefined) {
-    const diff = Math.abs(nutrition.protein - target.protein);
-    const allowedDiff = target.protein * (tolerance / 100);
-    checks.push(diff <= allowedDiff);
-  }
-
-  if (target.carbs !== undefined) {
-    const diff = Math.abs(nutrition.carbs - target.carbs);
-    const allowedDiff = target.carbs * (tolerance / 100);
-    checks.push(diff <= allowedDiff);
-  }
-
-  if (target.fats !== undefined) {
-    const diff = Math.abs(nutrition.fats - target.fats);
-    const allowedDiff = target.fats * (tolerance / 100);
-    checks.push(diff <= allowedDiff);
-  }
-
-  return checks.length > 0 && checks.every((check) => check);
+  return (Object.keys(target) as (keyof Nutrition)[]).every((nutrient) => {
+    const goal = target[nutrient];
+    const value = nutrition[nutrient];
+    if (goal === undefined) return true;
+    if (typeof value !== "number") return false;
+
+    if (typeof goal === "number") {
+      return Math.abs(value - goal) <= goal * (tolerance / 100);
+    }
+    if (goal.min !== undefined && value < goal.min) return false;
+    if (goal.max !== undefined && value > goal.max) return false;
+    return true;
+  });
+}
+
+/**
+ * Share of calories that come from protein (0-1)
+ */
+export function getProteinCalorieShare(nutrition: Nutrition): number {
+  if (!nutrition.calories || nutrition.calories <= 0) return 0;
+  return (nutrition.protein * 4) / nutrition.calories; // 4 kcal per gram of protein
 }
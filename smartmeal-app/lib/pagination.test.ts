@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor, fingerprintQuery, InvalidCursorError, MAX_PAGE_SIZE, paginate } from "./pagination";
+
+const items = Array.from({ length: 30 }, (_, index) => index);
+const fingerprint = fingerprintQuery({ query: "curry", sortBy: "relevance" });
+
+describe("fingerprintQuery", () => {
+  it("is stable for the same query and differs between queries", () => {
+    expect(fingerprintQuery({ query: "curry", sortBy: "relevance" })).toBe(fingerprint);
+    expect(fingerprintQuery({ query: "curry", sortBy: "time" })).not.toBe(fingerprint);
+  });
+});
+
+describe("paginate", () => {
+  it("follows cursors through every item exactly once", () => {
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = paginate(items, { limit: 12, cursor }, fingerprint);
+      seen.push(...page.items);
+      cursor = page.pageInfo.nextCursor ?? undefined;
+    } while (cursor);
+    expect(seen).toEqual(items);
+  });
+
+  it("pages by page number and clamps the page size", () => {
+    const { items: pageItems, pageInfo } = paginate(items, { page: 3, pageSize: 10 }, fingerprint);
+    expect(pageItems).toEqual([20, 21, 22, 23, 24, 25, 26, 27, 28, 29]);
+    expect(pageInfo).toMatchObject({ page: 3, totalPages: 3, hasMore: false, nextCursor: null });
+    expect(paginate(items, { limit: 500 }, fingerprint).pageInfo.limit).toBe(MAX_PAGE_SIZE);
+  });
+});
+
+describe("decodeCursor", () => {
+  it("rejects a cursor from a different search", () => {
+    const cursor = encodeCursor(12, fingerprintQuery({ query: "soup" }));
+    expect(() => paginate(items, { cursor }, fingerprint)).toThrow(InvalidCursorError);
+  });
+
+  it.each([
+    ["garbage", "not a cursor"],
+    ["a negative offset", Buffer.from(JSON.stringify({ o: -12, f: fingerprint })).toString("base64url")],
+    ["a fractional offset", Buffer.from(JSON.stringify({ o: 1.5, f: fingerprint })).toString("base64url")],
+    ["a string offset", Buffer.from(JSON.stringify({ o: "12", f: fingerprint })).toString("base64url")],
+    ["a null payload", Buffer.from("null").toString("base64url")],
+  ])("rejects %s", (_, cursor) => {
+    expect(() => decodeCursor(cursor, fingerprint)).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Pagination Utilities
+ * Offset cursors and page/pageSize paging for API list responses
+ */
+
+export const DEFAULT_PAGE_SIZE = 12;
+export const MAX_PAGE_SIZE = 50;
+
+export interface PaginationParams {
+  limit?: number;
+  cursor?: string;
+  page?: number; // 1-based, alternative to cursor
+  pageSize?: number; // Alternative name for limit when paging by page
+}
+
+export interface PageInfo {
+  limit: number;
+  offset: number;
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+  page: number; // 1-based page the returned items belong to
+  totalPages: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+interface CursorPayload {
+  o: number; // Offset of the next item
+  f: string; // Fingerprint of the query the cursor belongs to
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Short, stable fingerprint of a query so cursors can't be replayed against a different search
+ */
+export function fingerprintQuery(query: unknown): string {
+  const text = JSON.stringify(query) ?? "";
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint };
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError("Cursor is malformed.");
+  }
+
+  if (typeof payload?.o !== "number" || !Number.isInteger(payload.o) || payload.o < 0) {
+    throw new InvalidCursorError("Cursor is malformed.");
+  }
+  if (payload.f !== fingerprint) {
+    throw new InvalidCursorError("Cursor does not belong to this search. Start again from the first page.");
+  }
+
+  return payload.o;
+}
+
+/**
+ * Slice a fully sorted list into one page.
+ * The list must be in a stable order for cursors to be consistent across requests.
+ */
+export function paginate<T>(items: T[], params: PaginationParams, fingerprint: string): Page<T> {
+  const requestedLimit = params.limit ?? params.pageSize ?? DEFAULT_PAGE_SIZE;
+  const limit = Math.min(Math.max(1, Math.floor(requestedLimit)), MAX_PAGE_SIZE);
+
+  let offset = 0;
+  if (params.cursor) {
+    offset = decodeCursor(params.cursor, fingerprint);
+  } else if (params.page !== undefined) {
+    offset = (Math.max(1, Math.floor(params.page)) - 1) * limit;
+  }
+
+  const pageItems = items.slice(offset, offset + limit);
+  const nextOffset = offset + pageItems.length;
+  const hasMore = nextOffset < items.length;
+
+  return {
+    items: pageItems,
+    pageInfo: {
+      limit,
+      offset,
+      total: items.length,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(nextOffset, fingerprint) : null,
+      page: Math.floor(offset / limit) + 1,
+      totalPages: Math.max(1, Math.ceil(items.length / limit)),
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { buildPersonalizationContext, getPersonalizationBoosts, PERSONALIZATION_POINTS } from "./personalization";
+import { buildTestRecipe } from "./testRecipes";
+
+const recipes = [
+  buildTestRecipe("chana-masala", { cuisine: "Indian", ingredients: ["chickpeas", "onion", "spinach", "salt"] }),
+  buildTestRecipe("saag", { cuisine: "Indian", ingredients: ["spinach", "paneer", "onion", "salt"] }),
+  buildTestRecipe("falafel", { cuisine: "Middle Eastern", ingredients: ["chickpeas", "parsley", "salt"], dietaryTags: ["Vegan", "Gluten-Free"] }),
+  buildTestRecipe("spinach-soup", { cuisine: "French", ingredients: ["spinach", "onion", "potato", "salt"] }),
+];
+const recipesById = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+const recipe = (id: string) => recipesById.get(id)!;
+
+describe("buildPersonalizationContext", () => {
+  it("finds non-staple ingredients that recur across favorites, most frequent first", () => {
+    const context = buildPersonalizationContext({ favoriteIds: ["chana-masala", "saag", "falafel"] }, recipesById);
+    expect(context.favoriteIngredients).toEqual(["chickpea", "onion", "spinach"]);
+  });
+
+  it("takes every ingredient of a single favorite", () => {
+    const context = buildPersonalizationContext({ favoriteIds: ["falafel"] }, recipesById);
+    expect(context.favoriteIngredients).toEqual(["chickpea", "parsley"]);
+  });
+
+  it("normalizes cuisines and restrictions and skips unknown favorites", () => {
+    const context = buildPersonalizationContext(
+      { preferredCuisines: [" Indian "], dietaryRestrictions: ["VEGAN", ""], favoriteIds: ["missing"] },
+      recipesById
+    );
+    expect([...context.preferredCuisines]).toEqual(["indian"]);
+    expect([...context.dietaryRestrictions]).toEqual(["vegan"]);
+    expect(context.favoriteIngredients).toEqual([]);
+  });
+});
+
+describe("getPersonalizationBoosts", () => {
+  const points = (id: string, context: ReturnType<typeof buildPersonalizationContext>) =>
+    getPersonalizationBoosts(recipe(id), context).map((boost) => boost.points);
+
+  it("boosts preferred cuisines and each matching dietary restriction", () => {
+    const context = buildPersonalizationContext({ preferredCuisines: ["middle eastern"], dietaryRestrictions: ["vegan", "gluten-free"] }, recipesById);
+    expect(points("falafel", context)).toEqual([PERSONALIZATION_POINTS.preferredCuisine, PERSONALIZATION_POINTS.dietaryRestriction * 2]);
+    expect(points("saag", context)).toEqual([]);
+  });
+
+  it("boosts recipes sharing favorite ingredients, but not the favorites themselves", () => {
+    const context = buildPersonalizationContext({ favoriteIds: ["chana-masala", "saag"] }, recipesById);
+    expect(getPersonalizationBoosts(recipe("spinach-soup"), context)).toEqual([
+      { reason: "Uses onion, spinach from your favorites", points: PERSONALIZATION_POINTS.favoriteIngredient * 2 },
+    ]);
+    expect(points("saag", context)).toEqual([]);
+  });
+
+  it("demotes dismissed recipes", () => {
+    const context = buildPersonalizationContext({ dismissedIds: ["saag"] }, recipesById);
+    expect(points("saag", context)).toEqual([PERSONALIZATION_POINTS.dismissed]);
+  });
+});
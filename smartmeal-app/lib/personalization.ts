@@ -0,0 +1,115 @@
+/**
+ * Search Personalization
+ * Ranking boosts from the user's preferred cuisines, diet, favorites and dismissed recipes
+ */
+
+import type { DetailedRecipe, RankingBoost } from "@/types/recipe";
+import type { SearchPersonalization } from "@/types/user";
+import { getIngredientRole, resolveIngredient } from "./ingredientOntology";
+import logger from "./debug";
+
+// Points added to (or taken from) a recipe's ranking score, on the 0-100 match scale
+export const PERSONALIZATION_POINTS = {
+  preferredCuisine: 10,
+  dietaryRestriction: 5, // Per restriction the recipe is tagged with
+  favoriteIngredient: 3, // Per recurring favorite ingredient the recipe uses
+  maxFavoriteIngredients: 4, // Cap on favorite ingredients counted per recipe
+  dismissed: -40,
+};
+
+export interface PersonalizationContext {
+  preferredCuisines: Set<string>;
+  dietaryRestrictions: Set<string>;
+  favoriteIds: Set<string>;
+  dismissedIds: Set<string>;
+  favoriteIngredients: string[]; // Canonical, most frequent first
+}
+
+const normalize = (values: string[] = []) => new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean));
+
+/**
+ * Canonical ingredients of a recipe, leaving out pantry staples that recur everywhere
+ */
+function distinctiveIngredients(recipe: DetailedRecipe): Set<string> {
+  const canonicals = new Set<string>();
+  (recipe.ingredients || []).forEach((ingredient) => {
+    if (!ingredient?.name) return;
+    const resolved = resolveIngredient(ingredient.name);
+    if (resolved.canonical && getIngredientRole(resolved) !== "staple") canonicals.add(resolved.canonical);
+  });
+  return canonicals;
+}
+
+/**
+ * Prepare the personalization inputs for scoring: normalize them and find the
+ * ingredients that recur across favorites (in at least two, or the only one)
+ */
+export function buildPersonalizationContext(
+  personalization: SearchPersonalization,
+  recipesById: Map<string, DetailedRecipe>
+): PersonalizationContext {
+  const favoriteIds = new Set(personalization.favoriteIds || []);
+  const favorites = [...favoriteIds]
+    .map((id) => recipesById.get(id))
+    .filter((recipe): recipe is DetailedRecipe => !!recipe);
+
+  const counts = new Map<string, number>();
+  favorites.forEach((recipe) => {
+    distinctiveIngredients(recipe).forEach((canonical) => counts.set(canonical, (counts.get(canonical) || 0) + 1));
+  });
+  const minOccurrences = Math.min(2, favorites.length);
+  const favoriteIngredients = [...counts.entries()]
+    .filter(([, count]) => count >= minOccurrences)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([canonical]) => canonical);
+
+  logger.debug('Personalization:Context', `Found ${favoriteIngredients.length} recurring ingredients in ${favorites.length} favorites.`);
+
+  return {
+    preferredCuisines: normalize(personalization.preferredCuisines),
+    dietaryRestrictions: normalize(personalization.dietaryRestrictions),
+    favoriteIds,
+    dismissedIds: new Set(personalization.dismissedIds || []),
+    favoriteIngredients,
+  };
+}
+
+/**
+ * Boosts that apply to one recipe
+ */
+export function getPersonalizationBoosts(recipe: DetailedRecipe, context: PersonalizationContext): RankingBoost[] {
+  const boosts: RankingBoost[] = [];
+
+  if (context.dismissedIds.has(recipe.id)) {
+    boosts.push({ reason: "You marked this recipe not interested", points: PERSONALIZATION_POINTS.dismissed });
+  }
+
+  if (recipe.cuisine && context.preferredCuisines.has(recipe.cuisine.toLowerCase())) {
+    boosts.push({ reason: `You prefer ${recipe.cuisine} food`, points: PERSONALIZATION_POINTS.preferredCuisine });
+  }
+
+  const tags = normalize(Array.isArray(recipe.dietaryTags) ? recipe.dietaryTags : []);
+  const matchedRestrictions = [...context.dietaryRestrictions].filter((restriction) => tags.has(restriction));
+  if (matchedRestrictions.length > 0) {
+    boosts.push({
+      reason: `Fits your diet (${matchedRestrictions.join(", ")})`,
+      points: PERSONALIZATION_POINTS.dietaryRestriction * matchedRestrictions.length,
+    });
+  }
+
+  // A favorite's own ingredients always recur, so don't boost it for them
+  if (context.favoriteIngredients.length > 0 && !context.favoriteIds.has(recipe.id)) {
+    const ingredients = distinctiveIngredients(recipe);
+    const shared = context.favoriteIngredients
+      .filter((canonical) => ingredients.has(canonical))
+      .slice(0, PERSONALIZATION_POINTS.maxFavoriteIngredients);
+    if (shared.length > 0) {
+      boosts.push({
+        reason: `Uses ${shared.join(", ")} from your favorites`,
+        points: PERSONALIZATION_POINTS.favoriteIngredient * shared.length,
+      });
+    }
+  }
+
+  return boosts;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { findRecipeById, normalizeRecipeId } from "./recipeIdUtils";
+
+describe("normalizeRecipeId", () => {
+  it("decodes, trims, lowercases and drops file extensions", () => {
+    expect(normalizeRecipeId(" Chana%20Masala.json ")).toBe("chana masala");
+  });
+
+  it("keeps a malformed escape as typed instead of throwing", () => {
+    expect(normalizeRecipeId("%E0")).toBe("%e0");
+    expect(normalizeRecipeId("user_dal%")).toBe("user_dal%");
+  });
+});
+
+describe("findRecipeById", () => {
+  it("finds no recipe for a malformed id", () => {
+    expect(findRecipeById([{ id: "e0" }, { id: "dal" }], "%E0").recipe).toBeNull();
+  });
+});
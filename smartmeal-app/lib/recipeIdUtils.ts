@@ -17,8 +17,14 @@ export function normalizeRecipeId(rawId: string | null | undefined): string {
         return '';
     }
 
-    // Step 1: URL decode
-    let normalized = decodeURIComponent(rawId);
+    // Step 1: URL decode. A malformed escape ("%E0") stays as typed, so it just won't match
+    let normalized: string;
+    try {
+        normalized = decodeURIComponent(rawId);
+    } catch {
+        logger.warn('RecipeIDUtils:Normalize', 'Could not URL-decode ID, using it as is', { rawId });
+        normalized = rawId;
+    }
 
     // Step 2: Trim whitespace
     normalized = normalized.trim();
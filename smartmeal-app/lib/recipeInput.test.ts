@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createEmptyRecipeInput, isSiteImagePath, recipeInputSchema } from "./recipeInput";
+import { validate } from "./validation";
+
+const validInput = () => ({
+  ...createEmptyRecipeInput(),
+  title: "Weeknight Curry",
+  cuisine: "Indian",
+  ingredients: [{ name: "chickpeas", quantity: 1, unit: "can", substitutions: [] }],
+  instructions: [{ text: "Simmer everything for 20 minutes." }],
+});
+
+describe("isSiteImagePath", () => {
+  it("accepts paths on this site", () => {
+    expect(isSiteImagePath("/images/curry.jpg")).toBe(true);
+  });
+
+  it("rejects other sites, including protocol-relative URLs", () => {
+    expect(isSiteImagePath("https://evil.example/x.png")).toBe(false);
+    expect(isSiteImagePath("//evil.example/x.png")).toBe(false);
+    expect(isSiteImagePath("/\\evil.example/x.png")).toBe(false);
+    expect(isSiteImagePath("images/curry.jpg")).toBe(false);
+  });
+});
+
+describe("recipeInputSchema", () => {
+  it("accepts a complete recipe", () => {
+    expect(validate(recipeInputSchema, { ...validInput(), image: "/images/curry.jpg" }).ok).toBe(true);
+  });
+
+  it("reports a protocol-relative image on the image field", () => {
+    const result = validate(recipeInputSchema, { ...validInput(), image: "//evil.example/x.png" });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.map((error) => error.field)).toEqual(["image"]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Recipe Input
+ * The schema for recipes users write themselves, and how a validated input
+ * becomes a full DetailedRecipe. Safe to import from client components, so the
+ * editor can check a recipe before sending it.
+ */
+
+import type { DetailedRecipe, Difficulty, MealType, Nutrition, RecipeInput } from "@/types/recipe";
+import { array, number, object, oneOf, optional, refine, string, type Schema } from "./validation";
+
+export const USER_RECIPE_ID_PREFIX = "user_";
+export const DEFAULT_RECIPE_IMAGE = "/images/placeholder-recipe.png";
+
+export const RECIPE_DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
+export const RECIPE_MEAL_TYPES: MealType[] = ["Breakfast", "Lunch", "Dinner", "Snack"];
+export const NUTRITION_FIELDS: (keyof Nutrition)[] = ["calories", "protein", "carbs", "fats", "fiber", "sodium", "sugar"];
+
+const MAX_MINUTES = 24 * 60;
+const YOUTUBE_ID_PATTERN = /^[\w-]{11}$/;
+
+/**
+ * Whether an image URL is a path on this site ("/images/curry.jpg"). Browsers read
+ * "//host/x.png" and "/\host/x.png" as addresses on another site, so those don't count.
+ */
+export function isSiteImagePath(url: string): boolean {
+  return url.startsWith("/") && url[1] !== "/" && url[1] !== "\\";
+}
+
+const text = (maxLength: number) => string({ trim: true, nonEmpty: true, maxLength });
+
+const ingredientSchema = refine(
+  object({
+    name: text(100),
+    quantity: number({ min: 0 }),
+    quantityMax: optional(number({ min: 0 })), // "2-3 cloves": quantity 2, quantityMax 3
+    unit: string({ trim: true, maxLength: 30 }), // May be empty ("2 eggs")
+    preparation: optional(string({ trim: true, maxLength: 200 })),
+    substitutions: optional(array(text(100), { maxItems: 10 })),
+  }),
+  ({ quantity, quantityMax }) =>
+    quantityMax !== undefined && quantityMax <= quantity
+      ? [{ field: "quantityMax", message: "quantityMax must be greater than quantity." }]
+      : []
+);
+
+const instructionSchema = object({
+  text: text(2000),
+  timerDuration: optional(number({ integer: true, min: 1 })), // seconds
+});
+
+const nutritionSchema = object(
+  Object.fromEntries(NUTRITION_FIELDS.map((field) => [field, number({ min: 0 })])) as Record<keyof Nutrition, Schema<number>>
+);
+
+export const recipeInputSchema: Schema<RecipeInput> = object({
+  title: text(120),
+  description: string({ trim: true, maxLength: 1000 }),
+  // Images are served from this site, e.g. "/images/my-curry.jpg"
+  image: optional(
+    refine(string({ trim: true, maxLength: 300 }), (image) =>
+      image && !isSiteImagePath(image) ? [{ field: "", message: 'image must be a path on this site, starting with "/".' }] : []
+    )
+  ),
+  prepTime: number({ integer: true, min: 0, max: MAX_MINUTES }),
+  cookTime: number({ integer: true, min: 0, max: MAX_MINUTES }),
+  servings: number({ integer: true, min: 1, max: 100 }),
+  difficulty: oneOf(RECIPE_DIFFICULTIES),
+  mealType: oneOf(RECIPE_MEAL_TYPES),
+  cuisine: text(40),
+  ingredients: array(ingredientSchema, { minItems: 1, maxItems: 100 }),
+  instructions: array(instructionSchema, { minItems: 1, maxItems: 100 }),
+  nutrition: nutritionSchema, // Per serving
+  dietaryTags: array(text(40), { maxItems: 20 }),
+  videoId: optional(
+    refine(string({ trim: true }), (videoId) =>
+      videoId && !YOUTUBE_ID_PATTERN.test(videoId) ? [{ field: "", message: "videoId must be an 11-character YouTube video id." }] : []
+    )
+  ),
+});
+
+/**
+ * A blank recipe for the editor, with one empty ingredient and step to fill in
+ */
+export function createEmptyRecipeInput(): RecipeInput {
+  return {
+    title: "",
+    description: "",
+    prepTime: 0,
+    cookTime: 0,
+    servings: 2,
+    difficulty: "Easy",
+    mealType: "Dinner",
+    cuisine: "",
+    ingredients: [{ name: "", quantity: 1, unit: "", substitutions: [] }],
+    instructions: [{ text: "" }],
+    nutrition: { calories: 0, protein: 0, carbs: 0, fats: 0, fiber: 0, sodium: 0, sugar: 0 },
+    dietaryTags: [],
+  };
+}
+
+/**
+ * The editable fields of an existing recipe
+ */
+export function recipeToInput(recipe: DetailedRecipe): RecipeInput {
+  return {
+    title: recipe.title,
+    description: recipe.description,
+    image: recipe.image === DEFAULT_RECIPE_IMAGE ? undefined : recipe.image,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    servings: recipe.servings,
+    difficulty: recipe.difficulty,
+    mealType: recipe.mealType,
+    cuisine: recipe.cuisine,
+    ingredients: recipe.ingredients.map(({ name, quantity, quantityMax, unit, preparation, substitutions }) => ({
+      name,
+      quantity,
+      quantityMax,
+      unit,
+      preparation,
+      substitutions,
+    })),
+    instructions: recipe.instructions.map(({ text, timerDuration }) => ({ text, timerDuration: timerDuration ?? undefined })),
+    nutrition: { ...recipe.nutrition },
+    dietaryTags: [...(recipe.dietaryTags || [])],
+    videoId: recipe.videoId ?? undefined,
+  };
+}
+
+/**
+ * A readable id for a new user recipe ("user_chana-masala"). Ids are already in
+ * normalizeRecipeId form (lowercase, no spaces or file extension), so they match
+ * exactly in lookups; a number is appended when the id is taken.
+ */
+export function createRecipeId(title: string, isTaken: (id: string) => boolean): string {
+  const slug =
+    title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "") // Drop accents
+      .replace(/[^a-z0-9]+/g, "-")
+      .slice(0, 40)
+      .replace(/^-+|-+$/g, "") || "recipe";
+
+  const base = `${USER_RECIPE_ID_PREFIX}${slug}`;
+  let id = base;
+  for (let suffix = 2; isTaken(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Build the stored recipe from validated input: total time, step numbers and
+ * timestamps are derived here so they can't disagree with the rest
+ */
+export function toUserRecipe(input: RecipeInput, id: string, createdAt?: string): DetailedRecipe {
+  const now = new Date().toISOString();
+  return {
+    id,
+    title: input.title,
+    image: input.image || DEFAULT_RECIPE_IMAGE,
+    description: input.description,
+    prepTime: input.prepTime,
+    cookTime: input.cookTime,
+    totalTime: input.prepTime + input.cookTime,
+    servings: input.servings,
+    difficulty: input.difficulty,
+    mealType: input.mealType,
+    cuisine: input.cuisine.toLowerCase(),
+    source: "user",
+    ingredients: input.ingredients.map(({ preparation, ...ingredient }) => ({
+      ...ingredient,
+      ...(preparation ? { preparation } : {}),
+      substitutions: ingredient.substitutions || [],
+    })),
+    instructions: input.instructions.map((instruction, index) => ({
+      step: index + 1,
+      text: instruction.text,
+      timerDuration: instruction.timerDuration,
+    })),
+    nutrition: { ...input.nutrition },
+    dietaryTags: [...new Set(input.dietaryTags.map((tag) => tag.toLowerCase()))],
+    videoId: input.videoId || null,
+    createdAt: createdAt || now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Recipe Repository (server-side)
+ * Loads the bundled recipe dataset and the user's own recipes once, indexes
+ * them by id and ingredient, and reloads when either file on disk changes
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { DetailedRecipe } from "@/types/recipe";
+import { normalizeRecipeId, findRecipeById } from "./recipeIdUtils";
+import { resolveIngredient } from "./ingredientOntology";
+import { apiErrorResponse } from "./apiErrors";
+import { getUserRecipesModifiedAt, readUserRecipes } from "./userRecipeStore";
+import logger from "./debug";
+
+export const RECIPES_FILE_PATH = path.join(process.cwd(), "public", "data", "recipes.json");
+
+export interface RecipeRepository {
+  recipes: DetailedRecipe[];
+  byId: Map<string, DetailedRecipe>; // normalized id -> recipe
+  byIngredient: Map<string, Set<string>>; // canonical ingredient -> recipe ids
+  loadedAt: string;
+  fileModifiedAt: number;
+  userRecipesModifiedAt: number; // 0 when the user has no saved recipes
+}
+
+export class RecipeLoadError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = "RecipeLoadError";
+  }
+}
+
+let current: RecipeRepository | null = null;
+let pendingLoad: Promise<RecipeRepository> | null = null;
+
+/**
+ * Build the id and ingredient indexes for a recipe set
+ */
+function buildRepository(recipes: DetailedRecipe[], fileModifiedAt: number, userRecipesModifiedAt: number): RecipeRepository {
+  const byId = new Map<string, DetailedRecipe>();
+  const byIngredient = new Map<string, Set<string>>();
+
+  recipes.forEach((recipe) => {
+    if (!recipe || typeof recipe.id !== "string") return;
+    byId.set(normalizeRecipeId(recipe.id), recipe);
+
+    (recipe.ingredients || []).forEach((ingredient) => {
+      if (!ingredient?.name) return;
+      const { canonical } = resolveIngredient(ingredient.name);
+      let ids = byIngredient.get(canonical);
+      if (!ids) {
+        ids = new Set();
+        byIngredient.set(canonical, ids);
+      }
+      ids.add(recipe.id);
+    });
+  });
+
+  return {
+    recipes,
+    byId,
+    byIngredient,
+    loadedAt: new Date().toISOString(),
+    fileModifiedAt,
+    userRecipesModifiedAt,
+  };
+}
+
+/**
+ * Read and parse the recipes file and the user recipe store
+ */
+async function loadFromDisk(fileModifiedAt: number, userRecipesModifiedAt: number): Promise<RecipeRepository> {
+  let recipes: unknown;
+  try {
+    recipes = JSON.parse(await fs.readFile(RECIPES_FILE_PATH, "utf8"));
+  } catch (error) {
+    throw new RecipeLoadError("Failed to read or parse recipes file", error);
+  }
+
+  if (!Array.isArray(recipes)) {
+    throw new RecipeLoadError("Recipes file does not contain an array");
+  }
+
+  let userRecipes: DetailedRecipe[];
+  try {
+    userRecipes = await readUserRecipes();
+  } catch (error) {
+    throw new RecipeLoadError("Failed to read or parse user recipes file", error);
+  }
+
+  const repository = buildRepository([...(recipes as DetailedRecipe[]), ...userRecipes], fileModifiedAt, userRecipesModifiedAt);
+  logger.debug('RecipeRepository:Load', 'Recipes loaded and indexed', {
+    totalRecipes: repository.byId.size,
+    userRecipes: userRecipes.length,
+    distinctIngredients: repository.byIngredient.size,
+  });
+  return repository;
+}
+
+/**
+ * Get the recipe repository, loading it on first use and reloading it
+ * whenever the recipes file or the user recipe store has changed since the
+ * last load. Throws RecipeLoadError if the dataset cannot be loaded.
+ */
+export async function getRecipeRepository(): Promise<RecipeRepository> {
+  let fileModifiedAt: number;
+  let userRecipesModifiedAt: number;
+  try {
+    fileModifiedAt = (await fs.stat(RECIPES_FILE_PATH)).mtimeMs;
+  } catch (error) {
+    throw new RecipeLoadError("Recipes file is not accessible", error);
+  }
+  try {
+    userRecipesModifiedAt = await getUserRecipesModifiedAt();
+  } catch (error) {
+    throw new RecipeLoadError("User recipes file is not accessible", error);
+  }
+
+  if (current && current.fileModifiedAt === fileModifiedAt && current.userRecipesModifiedAt === userRecipesModifiedAt) {
+    return current;
+  }
+
+  // Concurrent requests share a single load
+  if (!pendingLoad) {
+    if (current) {
+      logger.info('RecipeRepository:Load', 'Recipes changed, reloading');
+    }
+    pendingLoad = loadFromDisk(fileModifiedAt, userRecipesModifiedAt)
+      .then((repository) => {
+        current = repository;
+        return repository;
+      })
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+
+  return pendingLoad;
+}
+
+/**
+ * Look up a recipe by id: indexed exact match first, then the fuzzy fallbacks
+ */
+export function findInRepository(repository: RecipeRepository, rawId: string) {
+  const normalizedRequestedId = normalizeRecipeId(rawId);
+  const recipe = repository.byId.get(normalizedRequestedId);
+  if (recipe) {
+    return { recipe, matchType: "exact" as const, normalizedRequestedId, matchedId: recipe.id };
+  }
+  return findRecipeById(repository.recipes, rawId);
+}
+
+/**
+ * Look up a recipe by its exact (normalized) id, without the fuzzy fallbacks,
+ * for changes that must never land on a near match
+ */
+export function getExactRecipe(repository: RecipeRepository, rawId: string): DetailedRecipe | undefined {
+  return repository.byId.get(normalizeRecipeId(rawId));
+}
+
+/**
+ * Ids of recipes that use an ingredient (matched on its canonical name)
+ */
+export function getRecipeIdsWithIngredient(repository: RecipeRepository, ingredientName: string): string[] {
+  const { canonical } = resolveIngredient(ingredientName);
+  return [...(repository.byIngredient.get(canonical) ?? [])];
+}
+
+/**
+ * The single error response for a failed repository load, shared by every route
+ */
+export function recipeLoadErrorResponse(error: unknown, requestId: string, context: string) {
+  logger.error(context, 'Failed to load recipes', {
+    path: RECIPES_FILE_PATH,
+    error: error instanceof Error ? error.message : String(error),
+    cause: error instanceof RecipeLoadError && error.cause instanceof Error ? error.cause.message : undefined,
+    requestId,
+  }, error instanceof Error ? error : undefined);
+
+  return apiErrorResponse("RECIPE_FILE_READ_ERROR", { requestId });
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { clampServings, getScaleFactor, getTotalNutrition, scaleIngredient, scaleTimerDuration } from "./recipeScaling";
+
+describe("servings", () => {
+  it("scales by the ratio of servings, falling back to 1", () => {
+    expect(getScaleFactor(4, 6)).toBe(1.5);
+    expect(getScaleFactor(0, 6)).toBe(1);
+  });
+
+  it("clamps requested servings to whole numbers from 1 to 100", () => {
+    expect(clampServings(2.6)).toBe(3);
+    expect(clampServings(0)).toBe(1);
+    expect(clampServings(NaN)).toBe(1);
+    expect(clampServings(500)).toBe(100);
+  });
+});
+
+describe("scaleIngredient", () => {
+  it("scales and promotes the unit", () => {
+    expect(scaleIngredient({ name: "butter", quantity: 4, unit: "tbsp" }, 4)).toMatchObject({ quantity: 1, unit: "cup" });
+    expect(scaleIngredient({ name: "onion", quantity: 1, unit: "medium" }, 1.5)).toMatchObject({ quantity: 1.5, unit: "medium" });
+  });
+
+  it("scales both ends of a range", () => {
+    expect(scaleIngredient({ name: "garlic", quantity: 2, quantityMax: 3, unit: "cloves" }, 2)).toMatchObject({
+      quantity: 4,
+      quantityMax: 6,
+      unit: "cloves",
+    });
+  });
+
+  it("keeps a range in one unit when it is promoted", () => {
+    expect(scaleIngredient({ name: "milk", quantity: 6, quantityMax: 8, unit: "tbsp" }, 2)).toMatchObject({
+      quantity: 0.75,
+      quantityMax: 1,
+      unit: "cup",
+    });
+  });
+
+  it("leaves to-taste amounts as written", () => {
+    const salt = { name: "salt", quantity: 1, unit: "", preparation: "to taste" };
+    const oil = { name: "oil", quantity: 1, unit: "", preparation: "for frying, as needed" };
+    expect(scaleIngredient(salt, 3)).toBe(salt);
+    expect(scaleIngredient(oil, 0.5)).toBe(oil);
+  });
+});
+
+describe("getTotalNutrition", () => {
+  it("multiplies per-serving values and rounds", () => {
+    const perServing = { calories: 250.4, protein: 12.5, carbs: 30, fats: 8, fiber: 4, sodium: 300, sugar: 5 };
+    expect(getTotalNutrition(perServing, 3)).toEqual({ calories: 751, protein: 38, carbs: 90, fats: 24, fiber: 12, sodium: 900, sugar: 15 });
+  });
+});
+
+describe("scaleTimerDuration", () => {
+  it("scales hands-on steps more slowly than the amount, in whole minutes", () => {
+    expect(scaleTimerDuration({ text: "Chop the onions.", timerDuration: 600 }, 2)).toBe(960);
+    expect(scaleTimerDuration({ text: "Chop the onions.", timerDuration: 60 }, 0.25)).toBe(60);
+  });
+
+  it("leaves cooking steps and steps without a timer alone", () => {
+    expect(scaleTimerDuration({ text: "Simmer the chopped onions.", timerDuration: 600 }, 2)).toBe(600);
+    expect(scaleTimerDuration({ text: "Chop the onions.", timerDuration: undefined }, 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Recipe Scaling
+ * Ingredient amounts, nutrition totals and step timers for a different number
+ * of servings than the recipe was written for
+ */
+
+import type { Ingredient, Instruction, Nutrition } from "@/types/recipe";
+import { promoteUnit } from "./unitConversion";
+
+export const MIN_SERVINGS = 1;
+export const MAX_SERVINGS = 100;
+
+// Hands-on work that takes longer with more food (chopping, kneading,
+// shaping). Cooking, baking and resting times don't depend on the amount.
+const HANDS_ON_STEP = /\b(chop|dice|mince|slice|peel|grate|shred|cut|trim|knead|shape|roll|stuff|fill|assemble|skewer|whisk|beat|mix|stir in)\b/i;
+const COOKING_STEP = /\b(bake|roast|simmer|boil|fry|saut[eé]|grill|broil|steam|cook|rest|chill|marinate|refrigerate|freeze|rise|proof|preheat)\b/i;
+
+// Hands-on time grows more slowly than the amount of food
+const HANDS_ON_EXPONENT = 0.7;
+
+// Amounts left to the cook ("salt, to taste"), which stay as written
+const UNMEASURED = /\b(to taste|as needed)\b/i;
+
+/**
+ * How much to multiply a recipe by for a number of servings
+ */
+export function getScaleFactor(recipeServings: number, servings: number): number {
+  return recipeServings > 0 && servings > 0 ? servings / recipeServings : 1;
+}
+
+/**
+ * Clamp a requested number of servings to what can be scaled to
+ */
+export function clampServings(servings: number): number {
+  return Math.min(MAX_SERVINGS, Math.max(MIN_SERVINGS, Math.round(servings) || MIN_SERVINGS));
+}
+
+/**
+ * An ingredient multiplied by a factor, moved to the unit that reads best
+ * (16 tbsp -> 1 cup). "To taste" and "as needed" amounts aren't scaled.
+ */
+export function scaleIngredient(ingredient: Ingredient, factor: number): Ingredient {
+  if (factor === 1 || UNMEASURED.test(ingredient.preparation || "")) return ingredient;
+  return promoteUnit({
+    ...ingredient,
+    quantity: ingredient.quantity * factor,
+    quantityMax: ingredient.quantityMax !== undefined ? ingredient.quantityMax * factor : undefined,
+  });
+}
+
+export function scaleIngredients(ingredients: Ingredient[], factor: number): Ingredient[] {
+  return ingredients.map((ingredient) => scaleIngredient(ingredient, factor));
+}
+
+/**
+ * Nutrition for a number of servings, from the recipe's per-serving values
+ */
+export function getTotalNutrition(perServing: Nutrition, servings: number): Nutrition {
+  const total = (value: number) => Math.round(value * servings);
+  return {
+    calories: total(perServing.calories),
+    protein: total(perServing.protein),
+    carbs: total(perServing.carbs),
+    fats: total(perServing.fats),
+    fiber: total(perServing.fiber),
+    sodium: total(perServing.sodium),
+    sugar: total(perServing.sugar),
+  };
+}
+
+/**
+ * A step's timer (seconds) for a scaled recipe. Only hands-on steps change;
+ * cooking times stay as written. Returns the timer unchanged when there is none.
+ */
+export function scaleTimerDuration(instruction: Pick<Instruction, "text" | "timerDuration">, factor: number): number | undefined {
+  const { text, timerDuration } = instruction;
+  if (!timerDuration || factor === 1) return timerDuration;
+  if (COOKING_STEP.test(text) || !HANDS_ON_STEP.test(text)) return timerDuration;
+  return Math.max(60, Math.round((timerDuration * Math.pow(factor, HANDS_ON_EXPONENT)) / 60) * 60);
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { calculateMatchPercentage, DEFAULT_MAX_MISSING, searchRecipes } from "./recipeSearch";
+import { buildTestRecipe } from "./testRecipes";
+
+const recipe = (id: string, ingredients: string[]) => buildTestRecipe(id, { ingredients });
+
+const recipes = [
+  recipe("chana-masala", ["chickpea", "onion", "tomato", "garam masala"]), // 1 missing
+  recipe("dal", ["lentil", "onion", "tomato", "cumin", "turmeric"]), // 3 missing
+  recipe("tomato-rice", ["rice", "tomato", "onion"]), // 0 missing
+  recipe("butter-chicken", ["chicken", "butter", "heavy cream", "tomato", "garam masala"]), // 4 missing
+];
+
+const have = ["chickpeas", "onions", "tomatoes", "rice"];
+const ids = (result: Awaited<ReturnType<typeof searchRecipes>>) => result.recipes.map((entry) => entry.id);
+
+describe("searchRecipes in cook now mode", () => {
+  it("keeps recipes with at most the default number of missing ingredients, fewest missing first", async () => {
+    const result = await searchRecipes(recipes, { ingredients: have, mode: "cookNow" });
+    expect(DEFAULT_MAX_MISSING).toBe(2);
+    expect(ids(result)).toEqual(["tomato-rice", "chana-masala"]);
+    expect(result.totalMatches).toBe(2);
+  });
+
+  it("honours maxMissing, including zero", async () => {
+    expect(ids(await searchRecipes(recipes, { ingredients: have, mode: "cookNow", maxMissing: 0 }))).toEqual(["tomato-rice"]);
+    expect(ids(await searchRecipes(recipes, { ingredients: have, mode: "cookNow", maxMissing: 3 }))).toEqual([
+      "tomato-rice",
+      "chana-masala",
+      "dal",
+    ]);
+  });
+
+  it("groups the missing ingredients by shopping category", async () => {
+    const result = await searchRecipes(recipes, { ingredients: have, mode: "cookNow" });
+    const chanaMasala = result.recipes.find((entry) => entry.id === "chana-masala")!;
+    expect(chanaMasala.missingIngredients).toEqual(["garam masala"]);
+    expect(chanaMasala.missingByCategory?.flatMap((group) => group.items)).toEqual(["garam masala"]);
+  });
+
+  it("leaves the missing-ingredient grouping out of ordinary searches", async () => {
+    const result = await searchRecipes(recipes, { ingredients: have });
+    expect(result.recipes.every((entry) => entry.missingByCategory === undefined)).toBe(true);
+  });
+});
+
+describe("calculateMatchPercentage weighting", () => {
+  const ingredients = [{ name: "chicken" }, { name: "onion" }, { name: "salt" }];
+
+  it("weighs core ingredients over supporting ones and staples", () => {
+    const result = calculateMatchPercentage(["chicken"], ingredients);
+    expect(result.contributions.map(({ role, weight }) => [role, weight])).toEqual([
+      ["core", 3],
+      ["supporting", 1],
+      ["staple", 0.25],
+    ]);
+    expect(result.percentage).toBe(33);
+    expect(result.weightedScore).toBe(71); // 3 of 4.25
+  });
+
+  it("barely discounts a recipe for a missing staple", () => {
+    const result = calculateMatchPercentage(["chicken", "onion"], ingredients);
+    expect(result.percentage).toBe(67);
+    expect(result.weightedScore).toBe(94); // 4 of 4.25
+    expect(result.missingWeight).toBe(0.25);
+  });
+
+  it("ranks a missing staple above a missing core ingredient", () => {
+    const missingSalt = calculateMatchPercentage(["chicken", "onion"], ingredients);
+    const missingChicken = calculateMatchPercentage(["onion", "salt"], ingredients);
+    expect(missingSalt.percentage).toBe(missingChicken.percentage);
+    expect(missingSalt.weightedScore).toBeGreaterThan(missingChicken.weightedScore);
+  });
+});
+
+describe("calculateMatchPercentage substitutions", () => {
+  const ingredients = [{ name: "heavy cream", substitutions: ["coconut milk", "greek yogurt"] }, { name: "onion" }];
+
+  it("credits a substitute at three quarters of the ingredient's weight", () => {
+    const result = calculateMatchPercentage(["coconut milk", "onion"], ingredients);
+    expect(result.percentage).toBe(100);
+    expect(result.weightedScore).toBe(88); // 1.75 of 2
+    expect(result.contributions[0]).toMatchObject({ status: "substituted", weight: 1, credit: 0.75, via: "coconut milk" });
+    expect(result.missing).toEqual([]);
+  });
+
+  it("swaps in the first listed substitute the user has", () => {
+    const result = calculateMatchPercentage(["greek yogurt", "coconut milk"], ingredients);
+    expect(result.substitutions).toEqual([{ recipeIngredient: "heavy cream", substitute: "coconut milk", userIngredient: "coconut milk" }]);
+  });
+
+  it("prefers the ingredient itself over a substitute", () => {
+    const result = calculateMatchPercentage(["coconut milk", "cream"], ingredients);
+    expect(result.substitutions).toEqual([]);
+    expect(result.contributions[0]).toMatchObject({ status: "matched", credit: 1, matchType: "synonym" });
+  });
+
+  it("lets a variant the user has stand in for a listed substitute", () => {
+    const result = calculateMatchPercentage(["greek yogurt"], [{ name: "heavy cream", substitutions: ["yogurt"] }]);
+    expect(result.substitutions).toEqual([{ recipeIngredient: "heavy cream", substitute: "yogurt", userIngredient: "greek yogurt" }]);
+  });
+});
+
+describe("searchRecipes facets", () => {
+  it("counts the matched recipes before the facet filters narrow them", async () => {
+    const result = await searchRecipes(
+      [...recipes, buildTestRecipe("fried-rice", { cuisine: "Chinese", ingredients: ["rice", "egg"] })],
+      { ingredients: have, cuisine: "chinese", excludeIngredients: ["butter"] }
+    );
+    expect(ids(result)).toEqual(["fried-rice"]);
+    expect(result.facets.cuisine).toEqual([
+      { value: "indian", label: "Indian", count: 3 },
+      { value: "chinese", label: "Chinese", count: 1 },
+    ]);
+  });
+});
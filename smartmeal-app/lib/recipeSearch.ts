@@ -4,20 +4,31 @@
  */
 
 // Import types and the logger
-import { Recipe, DetailedRecipe, SortOption, CuisineType, DietaryFilter } from "@/types/recipe";
+import { Recipe, DetailedRecipe, SortOption, CuisineType, DietaryFilter, Difficulty, MealType, MissingIngredientGroup, SearchMode, NumericRange, TimeRange, NutritionRanges, SearchFacets, IngredientMatch, IngredientSubstitution, MatchContribution, PassedFilter, RankingBoost, RankingCriterion } from "@/types/recipe";
 import logger from './debug'; // Import the logger
-
-/**
- * Clean and normalize ingredient name for matching
- */
-function cleanIngredient(ingredient: string): string {
-  return ingredient
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9\s]/g, "") // Keep alphanumeric and spaces
-    .replace(/\s+/g, ' ') // Collapse multiple spaces
-    .replace(/\b(a|an|the)\b/g, "") // Remove articles
-    .trim();
+import { getIngredientRole, INGREDIENT_ROLE_WEIGHTS, isExcludedIngredient, matchIngredients, resolveExcludedIngredients, resolveIngredient, resolveIngredientList, type ExcludedIngredient } from './ingredientOntology';
+import { searchText } from './textSearch';
+import { computeFacets } from './searchFacets';
+import { categorizeIngredient, getCategoryDisplayName, getCategorySortOrder } from './categoryClassifier';
+import { matchesNutritionTarget, getProteinCalorieShare } from './nutritionCalculator';
+import { buildPersonalizationContext, getPersonalizationBoosts } from './personalization';
+import type { PersonalizationSummary, RecipeRating, SearchPersonalization } from "@/types/user";
+
+// Share of an ingredient's weight credited when the user only has a substitute
+const SUBSTITUTION_CREDIT = 0.75;
+
+// Default number of missing ingredients allowed in "cook now" mode
+export const DEFAULT_MAX_MISSING = 2;
+
+export interface MatchResult {
+  percentage: number; // Raw share of recipe ingredients covered (directly or by substitute)
+  weightedScore: number; // Role-weighted score, substitutes credited at SUBSTITUTION_CREDIT
+  available: string[];
+  missing: string[];
+  missingWeight: number; // Sum of role weights of the missing ingredients
+  substitutions: IngredientSubstitution[]; // Covered only through a substitute
+  matches: IngredientMatch[];
+  contributions: MatchContribution[]; // What each recipe ingredient added to the weighted score
 }
 
 /**
@@ -25,54 +36,118 @@ function cleanIngredient(ingredient: string): string {
  */
 export function calculateMatchPercentage(
   userIngredients: string[],
-  recipeIngredients: { name: string }[]
-): { percentage: number; available: string[]; missing: string[] } {
-  const cleanedUserIngredients = userIngredients.map(cleanIngredient).filter(ing => ing); // Clean and remove empty user ingredients
-  const cleanedRecipeIngredients = recipeIngredients.map((ing) => cleanIngredient(ing.name)).filter(ing => ing); // Clean and remove empty recipe ingredients
+  recipeIngredients: { name: string; substitutions?: string[] }[]
+): MatchResult {
+  const resolvedUserIngredients = resolveIngredientList(userIngredients); // Canonicalize and de-duplicate user ingredients
+  const resolvedRecipeIngredients = recipeIngredients
+    .map((ing) => ({
+      name: ing.name,
+      resolved: resolveIngredient(ing.name),
+      substitutions: Array.isArray(ing.substitutions) ? ing.substitutions : [],
+    }))
+    .filter((ing) => ing.resolved.canonical); // Remove empty recipe ingredients
 
   const available: string[] = [];
   const missing: string[] = [];
+  const substitutions: IngredientSubstitution[] = [];
+  const matches: IngredientMatch[] = [];
+  const contributions: MatchContribution[] = [];
+  let availableWeight = 0;
+  let missingWeight = 0;
+  let totalWeight = 0;
 
   // Edge case: No recipe ingredients means 0% match
-  if (cleanedRecipeIngredients.length === 0) {
-     return { percentage: 0, available: [], missing: [] };
+  if (resolvedRecipeIngredients.length === 0) {
+     return { percentage: 0, weightedScore: 0, available: [], missing: [], missingWeight: 0, substitutions: [], matches: [], contributions: [] };
   }
 
   // Edge case: No user ingredients means 0% match
-  if (cleanedUserIngredients.length === 0) {
-      return { percentage: 0, available: [], missing: recipeIngredients.map(ing => ing.name) };
+  if (resolvedUserIngredients.length === 0) {
+      const contributions = resolvedRecipeIngredients.map((ing): MatchContribution => {
+        const role = getIngredientRole(ing.resolved);
+        return { ingredient: ing.name, role, weight: INGREDIENT_ROLE_WEIGHTS[role], credit: 0, status: "missing" };
+      });
+      return {
+        percentage: 0,
+        weightedScore: 0,
+        available: [],
+        missing: resolvedRecipeIngredients.map((ing) => ing.name),
+        missingWeight: contributions.reduce((sum, contribution) => sum + contribution.weight, 0),
+        substitutions: [],
+        matches: [],
+        contributions,
+      };
   }
 
 
-  cleanedRecipeIngredients.forEach((recipeIng, index) => {
-    // Find if any user ingredient matches the current recipe ingredient
-    const isAvailable = cleanedUserIngredients.some((userIng) => {
-      // Logic for matching: exact, or one contains the other (handles plurals somewhat)
-      const match = recipeIng === userIng ||
-             recipeIng.includes(userIng) ||
-             userIng.includes(recipeIng);
+  resolvedRecipeIngredients.forEach((recipeIng) => {
+    // Find the first user ingredient that satisfies the current recipe ingredient
+    let match: IngredientMatch | null = null;
+    for (const userIng of resolvedUserIngredients) {
+      const matchType = matchIngredients(userIng, recipeIng.resolved);
 
-      // ADDED DEBUG LOG: See the comparison details in the terminal
-      logger.debug('RecipeSearch:Matching', `Comparing Recipe:'${recipeIng}' vs User:'${userIng}' -> Match: ${match}`);
+      logger.debug('RecipeSearch:Matching', `Comparing Recipe:'${recipeIng.resolved.canonical}' vs User:'${userIng.canonical}' -> Match: ${matchType ?? 'none'}`);
 
-      return match;
-    });
+      if (matchType) {
+        match = {
+          recipeIngredient: recipeIng.name,
+          userIngredient: userIng.input,
+          canonical: recipeIng.resolved.canonical,
+          matchType,
+        };
+        break;
+      }
+    }
+
+    // No direct match: check whether the user has one of the listed substitutes
+    let substitution: IngredientSubstitution | null = null;
+    if (!match) {
+      for (const substitute of recipeIng.substitutions) {
+        const resolvedSubstitute = resolveIngredient(substitute);
+        const userIng = resolvedUserIngredients.find((ing) => matchIngredients(ing, resolvedSubstitute));
+        if (userIng) {
+          substitution = {
+            recipeIngredient: recipeIng.name,
+            substitute,
+            userIngredient: userIng.input,
+          };
+          logger.debug('RecipeSearch:Substitution', `Recipe:'${recipeIng.name}' covered by substitute '${substitute}' (User:'${userIng.input}')`);
+          break;
+        }
+      }
+    }
+
+    // Core ingredients count more than staples and seasonings
+    const role = getIngredientRole(recipeIng.resolved);
+    const weight = INGREDIENT_ROLE_WEIGHTS[role];
+    totalWeight += weight;
 
     // Add original ingredient name to the correct list
-    if (isAvailable) {
-      available.push(recipeIngredients[index].name);
+    if (match) {
+      available.push(recipeIng.name);
+      matches.push(match);
+      availableWeight += weight;
+      contributions.push({ ingredient: recipeIng.name, role, weight, credit: weight, status: "matched", matchType: match.matchType, via: match.userIngredient });
+    } else if (substitution) {
+      substitutions.push(substitution);
+      availableWeight += weight * SUBSTITUTION_CREDIT;
+      contributions.push({ ingredient: recipeIng.name, role, weight, credit: weight * SUBSTITUTION_CREDIT, status: "substituted", via: substitution.substitute });
     } else {
-      missing.push(recipeIngredients[index].name);
+      missing.push(recipeIng.name);
+      missingWeight += weight;
+      contributions.push({ ingredient: recipeIng.name, role, weight, credit: 0, status: "missing" });
     }
   });
 
-  const percentage = Math.round((available.length / cleanedRecipeIngredients.length) * 100);
+  const coveredCount = available.length + substitutions.length;
+  const percentage = Math.round((coveredCount / resolvedRecipeIngredients.length) * 100);
+  const weightedScore = totalWeight > 0 ? Math.round((availableWeight / totalWeight) * 100) : 0;
 
   // Log the final calculation for this recipe
-  logger.debug('RecipeSearch:Percentage', `Calculated Match: ${percentage}% (Available: ${available.length}, Missing: ${missing.length}, Total Recipe: ${cleanedRecipeIngredients.length}) for ingredients: [${cleanedUserIngredients.join(', ')}]`);
+  logger.debug('RecipeSearch:Percentage', `Calculated Match: ${percentage}% raw, ${weightedScore}% weighted (Available: ${available.length}, Substituted: ${substitutions.length}, Missing: ${missing.length}, Total Recipe: ${resolvedRecipeIngredients.length}) for ingredients: [${resolvedUserIngredients.map(ing => ing.canonical).join(', ')}]`);
 
 
-  return { percentage, available, missing };
+  return { percentage, weightedScore, available, missing, missingWeight, substitutions, matches, contributions };
 }
 
 /**
@@ -96,50 +171,177 @@ function matchesCuisine(recipe: DetailedRecipe, cuisine?: CuisineType): boolean
 }
 
 /**
- * Sort recipes by specified option
+ * Check whether a recipe uses any excluded ingredient, including in its substitution lists
  */
-function sortRecipes(recipes: Recipe[], sortBy: SortOption): Recipe[] {
-  const sorted = [...recipes]; // Create a copy to avoid mutating original
+function containsExcludedIngredient(recipe: DetailedRecipe, excluded: ExcludedIngredient[]): boolean {
+  return (recipe.ingredients || []).some(
+    (ingredient) =>
+      isExcludedIngredient(ingredient.name, excluded) ||
+      (ingredient.substitutions || []).some((substitute) => isExcludedIngredient(substitute, excluded))
+  );
+}
+
+/**
+ * Apply difficulty filter (any of the selected levels)
+ */
+function matchesDifficulty(recipe: DetailedRecipe, difficulties: Difficulty[]): boolean {
+  if (difficulties.length === 0) return true;
+  return difficulties.includes(recipe.difficulty);
+}
+
+/**
+ * Check a time in minutes against an inclusive range
+ */
+function matchesTimeRange(minutes: number, range?: TimeRange): boolean {
+  if (!range) return true;
+  if (range.min !== undefined && minutes < range.min) return false;
+  if (range.max !== undefined && minutes > range.max) return false;
+  return true;
+}
+
+/**
+ * Describe an inclusive range for a ranking explanation ("10-30 min", "at most 500")
+ */
+function describeRange(range: NumericRange, unit: string = ""): string {
+  if (range.min !== undefined && range.max !== undefined) return `${range.min}-${range.max}${unit}`;
+  if (range.min !== undefined) return `at least ${range.min}${unit}`;
+  return `at most ${range.max}${unit}`;
+}
 
-  switch (sortBy) {
-    case "bestMatch":
-      // Sort primarily by match percentage (desc), then maybe by total time (asc) as a tie-breaker
-      return sorted.sort((a, b) => (b.matchPercentage || 0) - (a.matchPercentage || 0) || a.totalTime - b.totalTime);
-
-    case "quickest":
-      // Sort by total time (asc), then maybe by match percentage (desc) as a tie-breaker
-      return sorted.sort((a, b) => a.totalTime - b.totalTime || (b.matchPercentage || 0) - (a.matchPercentage || 0));
-
-    case "easiest":
-      // Sort by difficulty (Easy=1, Medium=2, Hard=3), then maybe by time (asc)
-      const difficultyScore = { Easy: 1, Medium: 2, Hard: 3 };
-      return sorted.sort(
-        (a, b) => difficultyScore[a.difficulty] - difficultyScore[b.difficulty] || a.totalTime - b.totalTime
-      );
-
-    default:
-      // Default to sorting by best match if sortBy is invalid
-      logger.warn('RecipeSearch:Sort', `Unknown sort option '${sortBy}', defaulting to 'bestMatch'.`);
-      return sorted.sort((a, b) => (b.matchPercentage || 0) - (a.matchPercentage || 0));
+/**
+ * Group missing ingredients by shopping category, in store order
+ */
+export function groupByShoppingCategory(ingredientNames: string[]): MissingIngredientGroup[] {
+  const groups = new Map<string, MissingIngredientGroup>();
+
+  ingredientNames.forEach((name) => {
+    const category = categorizeIngredient(name);
+    let group = groups.get(category);
+    if (!group) {
+      group = { category, label: getCategoryDisplayName(category), items: [] };
+      groups.set(category, group);
+    }
+    group.items.push(name);
+  });
+
+  return [...groups.values()].sort((a, b) => getCategorySortOrder(a.category) - getCategorySortOrder(b.category));
+}
+
+/**
+ * Score used for "best match" ranking: the weighted score when available
+ */
+function matchScore(recipe: Recipe): number {
+  return recipe.weightedMatchScore ?? recipe.matchPercentage ?? 0;
+}
+
+/**
+ * Final tie-breaker so the order is stable across requests (needed for pagination)
+ */
+function byId(a: Recipe, b: Recipe): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+const DIFFICULTY_SCORE: Record<Difficulty, number> = { Easy: 1, Medium: 2, Hard: 3 };
+
+// Each ranking criterion as a comparator (negative when `a` ranks first)
+const RANKING_COMPARATORS: Record<RankingCriterion, (a: Recipe, b: Recipe) => number> = {
+  weightedMatch: (a, b) => matchScore(b) - matchScore(a),
+  personalizedMatch: (a, b) => matchScore(b) + (b.personalBoost || 0) - (matchScore(a) + (a.personalBoost || 0)),
+  relevance: (a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0),
+  matchPercentage: (a, b) => (b.matchPercentage || 0) - (a.matchPercentage || 0),
+  totalTime: (a, b) => a.totalTime - b.totalTime,
+  missingCount: (a, b) => (a.missingIngredients?.length ?? 0) - (b.missingIngredients?.length ?? 0),
+  missingWeight: (a, b) => (a.missingWeight ?? 0) - (b.missingWeight ?? 0),
+  difficulty: (a, b) => DIFFICULTY_SCORE[a.difficulty] - DIFFICULTY_SCORE[b.difficulty],
+  userRating: (a, b) => (b.userRating || 0) - (a.userRating || 0),
+  id: byId,
+};
+
+const SORT_CRITERIA: Record<SortOption, RankingCriterion[]> = {
+  // Weighted match score (desc), then text relevance (desc), then raw percentage (desc), then total time (asc)
+  bestMatch: ["weightedMatch", "relevance", "matchPercentage", "totalTime", "id"],
+  // Total time (asc), then weighted match score (desc) as a tie-breaker
+  quickest: ["totalTime", "weightedMatch", "id"],
+  // Number of missing ingredients (asc), then how essential they are (asc), then weighted match score (desc)
+  fewestMissing: ["missingCount", "missingWeight", "weightedMatch", "totalTime", "id"],
+  // Difficulty (Easy=1, Medium=2, Hard=3), then time (asc)
+  easiest: ["difficulty", "totalTime", "id"],
+  // The user's star rating (desc, unrated last), then weighted match score (desc)
+  topRated: ["userRating", "weightedMatch", "relevance", "totalTime", "id"],
+};
+
+/**
+ * Get the criteria a sort option applies, in order
+ */
+function getSortCriteria(sortBy: SortOption): RankingCriterion[] {
+  const criteria = SORT_CRITERIA[sortBy];
+  if (criteria) return criteria;
+
+  // Default to sorting by best match if sortBy is invalid
+  logger.warn('RecipeSearch:Sort', `Unknown sort option '${sortBy}', defaulting to 'bestMatch'.`);
+  return ["weightedMatch", "id"];
+}
+
+/**
+ * Criteria with personalization applied: boosts add to the match score, or break
+ * ties right after the primary criterion when the sort has no match score
+ */
+function personalizeCriteria(criteria: RankingCriterion[]): RankingCriterion[] {
+  if (criteria.includes("weightedMatch")) {
+    return criteria.map((criterion) => (criterion === "weightedMatch" ? "personalizedMatch" : criterion));
   }
+  return [criteria[0], "personalizedMatch", ...criteria.slice(1)];
+}
+
+/**
+ * First criterion on which two recipes differ, or undefined when they tie on all of them
+ */
+function decidingCriterion(a: Recipe, b: Recipe, criteria: RankingCriterion[]): RankingCriterion | undefined {
+  return criteria.find((criterion) => RANKING_COMPARATORS[criterion](a, b) !== 0);
+}
+
+/**
+ * Sort recipes by the given criteria
+ */
+function sortRecipes(recipes: Recipe[], criteria: RankingCriterion[]): Recipe[] {
+  const sorted = [...recipes]; // Create a copy to avoid mutating original
+  return sorted.sort((a, b) => {
+    const criterion = decidingCriterion(a, b, criteria);
+    return criterion ? RANKING_COMPARATORS[criterion](a, b) : 0;
+  });
 }
 
 // --- Interfaces (kept as they were) ---
 export interface SearchParams {
-  ingredients: string[];
+  ingredients: string[]; // May be empty when a text query is given
+  query?: string; // Full-text query over title, description, cuisine, tags and instructions
+  excludeIngredients?: string[]; // Ingredients or groups ("nuts", "dairy") to rule out entirely
   cuisine?: CuisineType;
   dietaryFilters?: DietaryFilter[];
-  sortBy?: SortOption;
-  minMatchPercentage?: number;
+  difficulty?: Difficulty[]; // Any of these levels
+  mealTypes?: MealType[]; // Any of these meal types
+  prepTime?: TimeRange;
+  cookTime?: TimeRange;
+  totalTime?: TimeRange;
+  nutrition?: NutritionRanges; // Per-serving min/max per nutrient
+  minProteinShare?: number; // Minimum share of calories from protein (0-1), e.g. for "high-protein"
+  mode?: SearchMode;
+  maxMissing?: number; // "cook now" mode: most missing ingredients a recipe may have
+  sortBy?: SortOption; // Defaults to "fewestMissing" in "cook now" mode
+  minMatchPercentage?: number; // Ignored in "cook now" mode
+  personalization?: SearchPersonalization; // Boost and down-rank results for this user; omit to turn off
+  ratings?: RecipeRating[]; // The user's star ratings, for sorting by "top rated"
 }
 
 export interface SearchResult {
-  recipes: Recipe[];
+  recipes: Recipe[]; // Each carries both matchPercentage (raw) and weightedMatchScore, plus a ranking explanation
   totalMatches: number; // Use this for the count *after* all filtering
+  facets: SearchFacets; // Counts over the ingredient-matched set, before cuisine/tag/difficulty/time filters
+  personalization?: PersonalizationSummary; // Present when the search was personalized
 }
 
 /**
- * Search recipes based on ingredients and filters
+ * Search recipes based on ingredients, a text query and filters
  */
 export async function searchRecipes(
   allRecipes: DetailedRecipe[],
@@ -147,23 +349,42 @@ export async function searchRecipes(
 ): Promise<SearchResult> {
   const {
     ingredients,
+    query = "",
+    excludeIngredients = [],
     cuisine = "all", // Default to 'all' if undefined
     dietaryFilters = [], // Default to empty array
-    sortBy = "bestMatch", // Default sort
+    difficulty = [],
+    mealTypes = [],
+    prepTime,
+    cookTime,
+    totalTime,
+    nutrition,
+    minProteinShare,
+    mode = "match",
+    maxMissing = DEFAULT_MAX_MISSING,
+    sortBy = mode === "cookNow" ? "fewestMissing" : "bestMatch", // Default sort
     minMatchPercentage = 1, // Default minimum match
+    personalization,
+    ratings = [],
   } = params;
 
-  logger.info('RecipeSearch:Start', 'Starting recipe search', { ingredients: ingredients.length, cuisine, dietaryFilters: dietaryFilters.length, sortBy, minMatchPercentage });
+  logger.info('RecipeSearch:Start', 'Starting recipe search', { ingredients: ingredients.length, query, cuisine, dietaryFilters: dietaryFilters.length, mode, maxMissing, sortBy, minMatchPercentage });
 
 
+  // Per-recipe match contributions and the active filters, for the ranking explanations
+  const contributionsById = new Map<string, MatchContribution[]>();
+  const filtersPassed: PassedFilter[] = [];
+  const ratingsById = new Map(ratings.map(({ recipeId, rating }) => [recipeId, rating]));
+
   // Step 1: Calculate match percentages for all recipes
-  let recipesWithMatch = allRecipes.map((recipe) => {
+  const recipesWithMatch = allRecipes.map((recipe) => {
     // Ensure ingredients exist before calculating
      const recipeIngredients = Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
-     const { percentage, available, missing } = calculateMatchPercentage(
+     const { percentage, weightedScore, available, missing, missingWeight, substitutions, matches, contributions } = calculateMatchPercentage(
        ingredients,
        recipeIngredients // Use the validated ingredients
      );
+     contributionsById.set(recipe.id, contributions);
 
     // Create the simpler Recipe object for results
     const resultRecipe: Recipe = {
@@ -171,6 +392,7 @@ export async function searchRecipes(
       title: recipe.title,
       image: recipe.image,
       matchPercentage: percentage,
+      weightedMatchScore: weightedScore,
       prepTime: recipe.prepTime,
       cookTime: recipe.cookTime,
       totalTime: recipe.totalTime,
@@ -178,8 +400,14 @@ export async function searchRecipes(
       difficulty: recipe.difficulty,
       mealType: recipe.mealType,
       cuisine: recipe.cuisine,
+      source: recipe.source,
       availableIngredients: available, // Include these for potential UI display
       missingIngredients: missing,   // Include these
+      missingWeight,
+      missingByCategory: mode === "cookNow" ? groupByShoppingCategory(missing) : undefined,
+      substitutedIngredients: substitutions, // Covered only through a listed substitute
+      matchedIngredients: matches, // Which canonical ingredient each match resolved to
+      userRating: ratingsById.get(recipe.id),
     };
     return resultRecipe;
   });
@@ -187,22 +415,60 @@ export async function searchRecipes(
   logger.debug('RecipeSearch:MatchCalc', `Calculated match percentages for ${recipesWithMatch.length} recipes.`);
 
 
-  // Step 2: Filter by minimum match percentage
-  let filteredRecipes = recipesWithMatch.filter(
-    (recipe) => (recipe.matchPercentage || 0) >= minMatchPercentage
-  );
-  logger.debug('RecipeSearch:FilterMatch', `Filtered by minMatch (${minMatchPercentage}%): ${filteredRecipes.length} recipes remaining.`);
+  // Step 2: Filter by minimum match percentage, or by missing count in "cook now" mode (only when searching by ingredients)
+  let filteredRecipes = recipesWithMatch;
+  if (ingredients.length > 0 && mode === "cookNow") {
+    filteredRecipes = recipesWithMatch.filter((recipe) => (recipe.missingIngredients?.length ?? 0) <= maxMissing);
+    filtersPassed.push({ name: "Missing ingredients", detail: `at most ${maxMissing}` });
+    logger.debug('RecipeSearch:FilterMissing', `Filtered by maxMissing (${maxMissing}): ${filteredRecipes.length} recipes remaining.`);
+  } else if (ingredients.length > 0) {
+    filteredRecipes = recipesWithMatch.filter((recipe) => (recipe.matchPercentage || 0) >= minMatchPercentage);
+    filtersPassed.push({ name: "Ingredient match", detail: `at least ${minMatchPercentage}%` });
+    logger.debug('RecipeSearch:FilterMatch', `Filtered by minMatch (${minMatchPercentage}%): ${filteredRecipes.length} recipes remaining.`);
+  }
+
+  // Step 2b: Apply the text query, attaching relevance and highlighted snippets
+  if (query.trim()) {
+    const textMatches = searchText(allRecipes, query);
+    filteredRecipes = filteredRecipes
+      .filter((recipe) => textMatches.has(recipe.id))
+      .map((recipe) => {
+        const textMatch = textMatches.get(recipe.id)!;
+        return { ...recipe, relevanceScore: textMatch.score, snippets: textMatch.snippets };
+      });
+    filtersPassed.push({ name: "Text query", detail: query.trim() });
+    logger.debug('RecipeSearch:FilterText', `Filtered by text query ("${query}"): ${filteredRecipes.length} recipes remaining.`);
+  }
 
 
   // Keep a map of detailed recipes for efficient filtering lookups
   const detailedRecipesMap = new Map(allRecipes.map((r) => [r.id, r]));
 
+  // Step 2c: Remove recipes that use an excluded ingredient, even as a listed substitute
+  if (excludeIngredients.length > 0) {
+    const excluded = resolveExcludedIngredients(excludeIngredients);
+    filteredRecipes = filteredRecipes.filter((recipe) => {
+      const detailed = detailedRecipesMap.get(recipe.id);
+      return detailed ? !containsExcludedIngredient(detailed, excluded) : false;
+    });
+    filtersPassed.push({ name: "Excludes", detail: excludeIngredients.join(", ") });
+    logger.debug('RecipeSearch:FilterExcluded', `Filtered by excluded ingredients (${excluded.map((ing) => ing.canonical).join(', ')}): ${filteredRecipes.length} recipes remaining.`);
+  }
+
+  // Facets describe the matched set so the filter panel can show what's available
+  const facets = computeFacets(
+    filteredRecipes
+      .map((recipe) => detailedRecipesMap.get(recipe.id))
+      .filter((recipe): recipe is DetailedRecipe => !!recipe)
+  );
+
   // Step 3: Apply cuisine filter
   if (cuisine && cuisine !== "all") {
       filteredRecipes = filteredRecipes.filter((recipe) => {
           const detailed = detailedRecipesMap.get(recipe.id);
           return detailed ? matchesCuisine(detailed, cuisine) : false;
       });
+      filtersPassed.push({ name: "Cuisine", detail: cuisine });
       logger.debug('RecipeSearch:FilterCuisine', `Filtered by cuisine (${cuisine}): ${filteredRecipes.length} recipes remaining.`);
   }
 
@@ -212,105 +478,127 @@ export async function searchRecipes(
       const detailed = detailedRecipesMap.get(recipe.id);
       return detailed ? matchesDietaryFilters(detailed, dietaryFilters) : false;
     });
+    filtersPassed.push({ name: "Dietary", detail: dietaryFilters.join(", ") });
     logger.debug('RecipeSearch:FilterDietary', `Filtered by dietary (${dietaryFilters.join(', ')}): ${filteredRecipes.length} recipes remaining.`);
 
   }
 
-  // Step 5: Sort results
-  const sortedRecipes = sortRecipes(filteredRecipes, sortBy);
-  logger.debug('RecipeSearch:Sort', `Sorted ${sortedRecipes.length} recipes by '${sortBy}'.`);
-
-
-  logger.info('RecipeSearch:End', `Search finished. Found ${sortedRecipes.length} recipes matching criteria.`);
+  // Step 5: Apply difficulty filter
+  if (difficulty.length > 0) {
+    filteredRecipes = filteredRecipes.filter((recipe) => {
+      const detailed = detailedRecipesMap.get(recipe.id);
+      return detailed ? matchesDifficulty(detailed, difficulty) : false;
+    });
+    filtersPassed.push({ name: "Difficulty", detail: difficulty.join(", ") });
+    logger.debug('RecipeSearch:FilterDifficulty', `Filtered by difficulty (${difficulty.join(', ')}): ${filteredRecipes.length} recipes remaining.`);
+  }
 
+  // Step 5b: Apply meal type filter
+  if (mealTypes.length > 0) {
+    filteredRecipes = filteredRecipes.filter((recipe) => mealTypes.includes(recipe.mealType));
+    filtersPassed.push({ name: "Meal type", detail: mealTypes.join(", ") });
+    logger.debug('RecipeSearch:FilterMealType', `Filtered by meal type (${mealTypes.join(', ')}): ${filteredRecipes.length} recipes remaining.`);
+  }
 
-  return {
-    recipes: sortedRecipes, // The final list of recipes
-    totalMatches: sortedRecipes.length, // The count after all filters
-  };
-}
+  // Step 6: Apply prep/cook/total time ranges
+  if (prepTime || cookTime || totalTime) {
+    filteredRecipes = filteredRecipes.filter(
+      (recipe) =>
+        matchesTimeRange(recipe.prepTime, prepTime) &&
+        matchesTimeRange(recipe.cookTime, cookTime) &&
+        matchesTimeRange(recipe.totalTime, totalTime)
+    );
+    ([["Prep time", prepTime], ["Cook time", cookTime], ["Total time", totalTime]] as const).forEach(([name, range]) => {
+      if (range) filtersPassed.push({ name, detail: describeRange(range, " min") });
+    });
+    logger.debug('RecipeSearch:FilterTime', `Filtered by time ranges: ${filteredRecipes.length} recipes remaining.`, { prepTime, cookTime, totalTime });
+  }
 
-/**
- * Get recipe recommendations based on a recipe (kept as is)
- */
-export function getRecommendations(
-  currentRecipe: DetailedRecipe,
-  allRecipes: DetailedRecipe[],
-  count: number = 3
-): Recipe[] {
-  // Filter out current recipe
-  const candidates = allRecipes.filter((r) => r.id !== currentRecipe.id);
-
-  // Score based on same cuisine and complementary meal type
-  const scored = candidates.map((recipe) => {
-    let score = 0;
-
-    // Same cuisine bonus
-    if (recipe.cuisine === currentRecipe.cuisine) {
-      score += 50;
+  // Step 7: Apply per-serving nutrition ranges and protein share
+  if (nutrition || minProteinShare !== undefined) {
+    filteredRecipes = filteredRecipes.filter((recipe) => {
+      const detailed = detailedRecipesMap.get(recipe.id);
+      if (!detailed?.nutrition) return false;
+      if (nutrition && !matchesNutritionTarget(detailed.nutrition, nutrition)) return false;
+      if (minProteinShare !== undefined && getProteinCalorieShare(detailed.nutrition) < minProteinShare) return false;
+      return true;
+    });
+    Object.entries(nutrition || {}).forEach(([nutrient, range]) => {
+      filtersPassed.push({ name: `${nutrient[0].toUpperCase()}${nutrient.slice(1)} per serving`, detail: describeRange(range) });
+    });
+    if (minProteinShare !== undefined) {
+      filtersPassed.push({ name: "Protein share of calories", detail: `at least ${Math.round(minProteinShare * 100)}%` });
     }
+    logger.debug('RecipeSearch:FilterNutrition', `Filtered by nutrition: ${filteredRecipes.length} recipes remaining.`, { nutrition, minProteinShare });
+  }
 
-    // Complementary meal type bonus
-    if (currentRecipe.mealType === "Dinner") {
-      if (recipe.mealType === "Snack") score += 30;
-    } else if (currentRecipe.mealType === "Breakfast") {
-      if (recipe.mealType === "Lunch" || recipe.mealType === "Snack") score += 20;
-    }
+  // Step 8: Apply personalization boosts
+  const boostsById = new Map<string, RankingBoost[]>();
+  let personalizationSummary: PersonalizationSummary | undefined;
+  if (personalization) {
+    const context = buildPersonalizationContext(personalization, detailedRecipesMap);
+    filteredRecipes = filteredRecipes.map((recipe) => {
+      const detailed = detailedRecipesMap.get(recipe.id);
+      const boosts = detailed ? getPersonalizationBoosts(detailed, context) : [];
+      boostsById.set(recipe.id, boosts);
+      return { ...recipe, personalBoost: boosts.reduce((sum, boost) => sum + boost.points, 0) };
+    });
+    personalizationSummary = {
+      favoriteIngredients: context.favoriteIngredients,
+      boostedCount: filteredRecipes.filter((recipe) => (recipe.personalBoost || 0) > 0).length,
+      demotedCount: filteredRecipes.filter((recipe) => (recipe.personalBoost || 0) < 0).length,
+    };
+    logger.debug('RecipeSearch:Personalize', `Personalized ranking: ${personalizationSummary.boostedCount} boosted, ${personalizationSummary.demotedCount} down-ranked.`);
+  }
 
-    // Short prep time bonus for sides
-    if (recipe.prepTime <= 15) {
-      score += 20;
-    }
+  // Step 9: Sort results
+  const sortCriteria = getSortCriteria(sortBy);
+  const tieBreakers = personalization ? personalizeCriteria(sortCriteria) : sortCriteria;
+  const sortedRecipes = sortRecipes(filteredRecipes, tieBreakers);
+  logger.debug('RecipeSearch:Sort', `Sorted ${sortedRecipes.length} recipes by '${sortBy}'.`);
 
-    // Shared dietary tags bonus
-     // Check if tags exist before filtering
-     const currentTags = Array.isArray(currentRecipe.dietaryTags) ? currentRecipe.dietaryTags : [];
-     const recipeTags = Array.isArray(recipe.dietaryTags) ? recipe.dietaryTags : [];
-     const sharedTags = recipeTags.filter((tag) => currentTags.includes(tag));
-     score += sharedTags.length * 10;
+  // Step 10: Explain each position: what the match score was made of and what put it below its predecessor
+  const explainedRecipes = sortedRecipes.map((recipe, index): Recipe => ({
+    ...recipe,
+    explanation: {
+      sortBy,
+      score: matchScore(recipe),
+      contributions: contributionsById.get(recipe.id) || [],
+      tieBreakers,
+      decidedBy: index > 0 ? decidingCriterion(sortedRecipes[index - 1], recipe, tieBreakers) : undefined,
+      filtersPassed,
+      boosts: boostsById.get(recipe.id) || [],
+    },
+  }));
 
 
-    return {
-      recipe,
-      score,
-    };
-  });
+  logger.info('RecipeSearch:End', `Search finished. Found ${sortedRecipes.length} recipes matching criteria.`);
 
-  // Sort by score and return top matches
-  scored.sort((a, b) => b.score - a.score);
-
-  // Map to the simpler Recipe type for return
-  return scored.slice(0, count).map((item) => ({
-    id: item.recipe.id,
-    title: item.recipe.title,
-    image: item.recipe.image,
-    prepTime: item.recipe.prepTime,
-    cookTime: item.recipe.cookTime,
-    totalTime: item.recipe.totalTime,
-    servings: item.recipe.servings,
-    difficulty: item.recipe.difficulty,
-    mealType: item.recipe.mealType,
-    cuisine: item.recipe.cuisine,
-     // Match percentage/ingredients aren't relevant for recommendations
-  }));
+
+  return {
+    recipes: explainedRecipes, // The final list of recipes
+    totalMatches: sortedRecipes.length, // The count after all filters
+    facets,
+    personalization: personalizationSummary,
+  };
 }
 
 /**
- * Load all recipes from JSON data (kept as is)
+ * Load all recipes, bundled and user-written, from the recipes API
  */
 export async function loadAllRecipes(): Promise<DetailedRecipe[]> {
   try {
     // Assuming fetch works correctly in your environment (e.g., client-side or properly configured server-side)
-    const response = await fetch("/data/recipes.json");
+    const response = await fetch("/api/recipes");
     if (!response.ok) {
-       logger.error('RecipeSearch:Load', `Failed to fetch recipes.json: ${response.status} ${response.statusText}`);
+       logger.error('RecipeSearch:Load', `Failed to fetch recipes: ${response.status} ${response.statusText}`);
       throw new Error(`Failed to load recipes: ${response.statusText}`);
     }
-    const recipes = await response.json();
-     logger.info('RecipeSearch:Load', `Successfully loaded ${recipes.length} recipes from JSON.`);
+    const { recipes } = await response.json();
+     logger.info('RecipeSearch:Load', `Successfully loaded ${recipes.length} recipes.`);
     return recipes as DetailedRecipe[];
   } catch (error) {
-     logger.error('RecipeSearch:Load', 'Error loading or parsing recipes.json', {}, error instanceof Error ? error : undefined);
+     logger.error('RecipeSearch:Load', 'Error loading or parsing recipes', {}, error instanceof Error ? error : undefined);
     return []; // Return empty array on error
   }
 }
\ No newline at end of file
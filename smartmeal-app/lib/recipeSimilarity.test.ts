@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { buildIngredientVectors, findSimilarRecipes } from "./recipeSimilarity";
+import { buildTestRecipe } from "./testRecipes";
+
+const recipes = [
+  buildTestRecipe("chana-masala", { cuisine: "Indian", ingredients: ["chickpeas", "onion", "tomato", "salt"], dietaryTags: ["vegan"] }),
+  buildTestRecipe("hummus", { cuisine: "Middle Eastern", ingredients: ["garbanzo beans", "tahini", "lemon", "salt"], dietaryTags: ["vegan"] }),
+  buildTestRecipe("dal", { cuisine: "Indian", ingredients: ["lentils", "onion", "tomato", "salt"], dietaryTags: ["vegan"] }),
+  buildTestRecipe("omelette", { cuisine: "French", ingredients: ["egg", "butter", "salt"], dietaryTags: ["vegetarian"] }),
+];
+
+const ingredientsOnly = { ingredients: 1, cuisine: 0, tags: 0, nutrition: 0 };
+
+describe("buildIngredientVectors", () => {
+  const { vectors, norms } = buildIngredientVectors(recipes);
+
+  it("indexes canonical ingredients, so synonyms share a dimension", () => {
+    expect([...vectors.get("chana-masala")!.keys()]).toContain("chickpea");
+    expect([...vectors.get("hummus")!.keys()]).toContain("chickpea");
+  });
+
+  it("weighs rare ingredients above ones every recipe uses", () => {
+    const dal = vectors.get("dal")!;
+    expect(dal.get("lentil")!).toBeGreaterThan(dal.get("onion")!);
+    expect(dal.get("onion")!).toBeGreaterThan(dal.get("salt")!);
+    expect(dal.get("salt")).toBe(1); // In every recipe: smoothed IDF bottoms out at 1
+  });
+
+  it("stores each vector's length", () => {
+    const length = Math.sqrt([...vectors.get("omelette")!.values()].reduce((sum, weight) => sum + weight * weight, 0));
+    expect(norms.get("omelette")).toBeCloseTo(length);
+  });
+});
+
+describe("findSimilarRecipes", () => {
+  it("ranks by shared ingredients and never returns the source recipe", () => {
+    const similar = findSimilarRecipes(recipes[0], recipes, { weights: ingredientsOnly });
+    expect(similar.map((recipe) => recipe.id)).toEqual(["dal", "hummus", "omelette"]);
+    expect(similar[0].sharedIngredients).toEqual(["onion", "tomato", "salt"]);
+    expect(similar[1].sharedIngredients).toEqual(["chickpea", "salt"]);
+  });
+
+  it("blends the signals by their weights", () => {
+    const similar = findSimilarRecipes(recipes[0], recipes, { weights: { ingredients: 0, cuisine: 1, tags: 1, nutrition: 0 } });
+    expect(similar.map((recipe) => [recipe.id, recipe.similarity])).toEqual([
+      ["dal", 1],
+      ["hummus", 0.5],
+    ]);
+    expect(similar[1].similarityBreakdown).toMatchObject({ cuisine: 0, tags: 1 });
+  });
+
+  it("leaves out recipes with no similarity and honours the limit", () => {
+    const similar = findSimilarRecipes(recipes[0], recipes, { weights: { ingredients: 0, cuisine: 1, tags: 0, nutrition: 0 } });
+    expect(similar.map((recipe) => recipe.id)).toEqual(["dal"]);
+    expect(findSimilarRecipes(recipes[0], recipes, { weights: ingredientsOnly, limit: 1 })).toHaveLength(1);
+  });
+
+  it("returns nothing when every weight is zero", () => {
+    expect(findSimilarRecipes(recipes[0], recipes, { weights: { ingredients: 0, cuisine: 0, tags: 0, nutrition: 0 } })).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Recipe Similarity
+ * Content-based "more like this": TF-IDF ingredient vectors, cuisine, dietary tags
+ * and nutrition profile, blended with configurable weights
+ */
+
+import type { DetailedRecipe, Nutrition, SimilarRecipe, SimilaritySignal, SimilarityWeights } from "@/types/recipe";
+import { resolveIngredient } from "./ingredientOntology";
+import logger from "./debug";
+
+export const SIMILARITY_SIGNALS: SimilaritySignal[] = ["ingredients", "cuisine", "tags", "nutrition"];
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  ingredients: 0.5,
+  cuisine: 0.2,
+  tags: 0.15,
+  nutrition: 0.15,
+};
+
+export const DEFAULT_SIMILAR_LIMIT = 6;
+
+export interface IngredientVectors {
+  vectors: Map<string, Map<string, number>>; // recipe id -> canonical ingredient -> TF-IDF weight
+  norms: Map<string, number>; // recipe id -> vector length
+}
+
+/**
+ * Build TF-IDF vectors over canonical ingredients. An ingredient counts once per
+ * recipe, so its weight is its IDF: rare ingredients say more about a dish than salt.
+ */
+export function buildIngredientVectors(recipes: DetailedRecipe[]): IngredientVectors {
+  const ingredientSets = new Map<string, Set<string>>();
+  const documentFrequency = new Map<string, number>();
+
+  recipes.forEach((recipe) => {
+    if (!recipe || typeof recipe.id !== "string") return;
+    const canonicals = new Set(
+      (recipe.ingredients || [])
+        .filter((ingredient) => ingredient?.name)
+        .map((ingredient) => resolveIngredient(ingredient.name).canonical)
+        .filter(Boolean)
+    );
+    ingredientSets.set(recipe.id, canonicals);
+    canonicals.forEach((canonical) => documentFrequency.set(canonical, (documentFrequency.get(canonical) || 0) + 1));
+  });
+
+  const documentCount = ingredientSets.size;
+  const vectors = new Map<string, Map<string, number>>();
+  const norms = new Map<string, number>();
+
+  ingredientSets.forEach((canonicals, recipeId) => {
+    const vector = new Map<string, number>();
+    canonicals.forEach((canonical) => {
+      const idf = Math.log((documentCount + 1) / ((documentFrequency.get(canonical) || 0) + 1)) + 1; // Smoothed
+      vector.set(canonical, idf);
+    });
+    vectors.set(recipeId, vector);
+    norms.set(recipeId, Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0)));
+  });
+
+  logger.debug('RecipeSimilarity:Index', `Built ingredient vectors for ${vectors.size} recipes, ${documentFrequency.size} distinct ingredients.`);
+
+  return { vectors, norms };
+}
+
+// Vectors are cached per recipe array so repeated lookups don't rebuild them
+const vectorCache = new WeakMap<DetailedRecipe[], IngredientVectors>();
+
+/**
+ * Get the (cached) ingredient vectors for a recipe array
+ */
+export function getIngredientVectors(recipes: DetailedRecipe[]): IngredientVectors {
+  let vectors = vectorCache.get(recipes);
+  if (!vectors) {
+    vectors = buildIngredientVectors(recipes);
+    vectorCache.set(recipes, vectors);
+  }
+  return vectors;
+}
+
+/**
+ * Cosine similarity of two recipes' ingredient vectors, with the ingredients they share
+ */
+function ingredientSimilarity(index: IngredientVectors, a: string, b: string): { score: number; shared: string[] } {
+  const vectorA = index.vectors.get(a);
+  const vectorB = index.vectors.get(b);
+  const normProduct = (index.norms.get(a) || 0) * (index.norms.get(b) || 0);
+  if (!vectorA || !vectorB || normProduct === 0) return { score: 0, shared: [] };
+
+  const shared: string[] = [];
+  let dot = 0;
+  vectorA.forEach((weight, canonical) => {
+    const other = vectorB.get(canonical);
+    if (other === undefined) return;
+    shared.push(canonical);
+    dot += weight * other;
+  });
+
+  return { score: dot / normProduct, shared };
+}
+
+/**
+ * Jaccard overlap of two recipes' dietary tags
+ */
+function tagSimilarity(a: DetailedRecipe, b: DetailedRecipe): number {
+  const tagsA = new Set((Array.isArray(a.dietaryTags) ? a.dietaryTags : []).map((tag) => tag.toLowerCase().trim()));
+  const tagsB = new Set((Array.isArray(b.dietaryTags) ? b.dietaryTags : []).map((tag) => tag.toLowerCase().trim()));
+  const union = new Set([...tagsA, ...tagsB]);
+  if (union.size === 0) return 0;
+  return [...tagsA].filter((tag) => tagsB.has(tag)).length / union.size;
+}
+
+/**
+ * Share of calories from protein, carbs and fat
+ */
+function macroSplit(nutrition: Nutrition): [number, number, number] {
+  const protein = nutrition.protein * 4;
+  const carbs = nutrition.carbs * 4;
+  const fats = nutrition.fats * 9;
+  const total = protein + carbs + fats;
+  return total > 0 ? [protein / total, carbs / total, fats / total] : [0, 0, 0];
+}
+
+/**
+ * Closeness of two nutrition profiles: mostly the macro split, partly the calorie count
+ */
+function nutritionSimilarity(a?: Nutrition, b?: Nutrition): number {
+  if (!a || !b) return 0;
+  const splitA = macroSplit(a);
+  const splitB = macroSplit(b);
+  const splitDistance = splitA.reduce((sum, share, index) => sum + Math.abs(share - splitB[index]), 0) / 2; // 0-1
+  const calorieRatio = a.calories > 0 && b.calories > 0 ? Math.min(a.calories, b.calories) / Math.max(a.calories, b.calories) : 0;
+  return 0.75 * (1 - splitDistance) + 0.25 * calorieRatio;
+}
+
+/**
+ * Find the recipes most like a source recipe. Weights are relative to each other;
+ * recipes with no similarity at all are left out.
+ */
+export function findSimilarRecipes(
+  source: DetailedRecipe,
+  allRecipes: DetailedRecipe[],
+  options: { limit?: number; weights?: Partial<SimilarityWeights> } = {}
+): SimilarRecipe[] {
+  const { limit = DEFAULT_SIMILAR_LIMIT } = options;
+  const weights = { ...DEFAULT_SIMILARITY_WEIGHTS, ...options.weights };
+  const totalWeight = SIMILARITY_SIGNALS.reduce((sum, signal) => sum + weights[signal], 0);
+  if (totalWeight <= 0) return [];
+
+  const index = getIngredientVectors(allRecipes);
+
+  const scored = allRecipes
+    .filter((recipe) => recipe && recipe.id !== source.id)
+    .map((recipe) => {
+      const ingredients = ingredientSimilarity(index, source.id, recipe.id);
+      const breakdown: Record<SimilaritySignal, number> = {
+        ingredients: ingredients.score,
+        cuisine: source.cuisine && recipe.cuisine?.toLowerCase() === source.cuisine.toLowerCase() ? 1 : 0,
+        tags: tagSimilarity(source, recipe),
+        nutrition: nutritionSimilarity(source.nutrition, recipe.nutrition),
+      };
+      const similarity = SIMILARITY_SIGNALS.reduce((sum, signal) => sum + weights[signal] * breakdown[signal], 0) / totalWeight;
+      return { recipe, similarity, breakdown, shared: ingredients.shared };
+    })
+    .filter((item) => item.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity || (a.recipe.id < b.recipe.id ? -1 : 1));
+
+  logger.debug('RecipeSimilarity:Find', `Scored ${scored.length} recipes against '${source.id}'.`, { weights });
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  // Map to the simpler Recipe type plus the similarity details
+  return scored.slice(0, limit).map(({ recipe, similarity, breakdown, shared }) => ({
+    id: recipe.id,
+    title: recipe.title,
+    image: recipe.image,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    totalTime: recipe.totalTime,
+    servings: recipe.servings,
+    difficulty: recipe.difficulty,
+    mealType: recipe.mealType,
+    cuisine: recipe.cuisine,
+    source: recipe.source,
+    similarity: round(similarity),
+    similarityBreakdown: {
+      ingredients: round(breakdown.ingredients),
+      cuisine: round(breakdown.cuisine),
+      tags: round(breakdown.tags),
+      nutrition: round(breakdown.nutrition),
+    },
+    sharedIngredients: shared,
+  }));
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { findRecipeNode, importSchemaOrgRecipe, toSchemaOrgRecipe } from "./schemaOrgRecipe";
+import { buildTestRecipe } from "./testRecipes";
+
+const recipeNode = (image: unknown) => ({
+  "@context": "https://schema.org",
+  "@type": "Recipe",
+  name: "Weeknight Curry",
+  image,
+  recipeIngredient: ["1 can chickpeas"],
+  recipeInstructions: ["Simmer everything for 20 minutes."],
+});
+
+describe("importSchemaOrgRecipe", () => {
+  it("keeps an image served from this site", () => {
+    const { input, issues } = importSchemaOrgRecipe(recipeNode(["https://other.example/a.jpg", "/images/curry.jpg"]));
+    expect(input.image).toBe("/images/curry.jpg");
+    expect(issues.find((issue) => issue.property === "image")).toBeUndefined();
+  });
+
+  it("drops protocol-relative images", () => {
+    const { input, issues } = importSchemaOrgRecipe(recipeNode({ "@type": "ImageObject", url: "//evil.example/x.png" }));
+    expect(input.image).toBeUndefined();
+    expect(issues).toContainEqual(expect.objectContaining({ kind: "unmapped", property: "image" }));
+  });
+});
+
+describe("toSchemaOrgRecipe", () => {
+  it("writes ingredient lines that import back with their ranges and preparation", () => {
+    const ingredients = [
+      { name: "garlic", quantity: 2, quantityMax: 3, unit: "cloves", preparation: "minced" },
+      { name: "olive oil", quantity: 1.5, unit: "tbsp" },
+      { name: "onion", quantity: 1, unit: "", preparation: "finely chopped" },
+    ];
+    const recipe = buildTestRecipe("user_garlic-onions", {
+      title: "Garlic Onions",
+      cuisine: "Italian",
+      ingredients,
+      instructions: ["Fry the onion, then the garlic."],
+    });
+
+    const node = toSchemaOrgRecipe(recipe);
+    expect(node.recipeIngredient).toEqual(["2-3 cloves garlic, minced", "1 1/2 tbsp olive oil", "1 onion, finely chopped"]);
+
+    const { input } = importSchemaOrgRecipe(node);
+    expect(input.ingredients).toEqual(ingredients.map((ingredient) => expect.objectContaining(ingredient)));
+  });
+});
+
+describe("findRecipeNode", () => {
+  const nest = (node: object, levels: number) => {
+    let document = node;
+    for (let level = 0; level < levels; level++) document = { "@type": "WebPage", mainEntity: { "@graph": [document] } };
+    return document;
+  };
+
+  it("finds the Recipe in a list, @graph or mainEntity", () => {
+    const recipe = recipeNode("/images/dal.jpg");
+    expect(findRecipeNode([{ "@type": "Organization" }, { "@graph": [{ "@type": "WebPage", mainEntity: recipe }] }])).toBe(recipe);
+  });
+
+  it("stops looking a few levels down", () => {
+    const recipe = recipeNode("/images/dal.jpg");
+    expect(findRecipeNode(nest(recipe, 4))).toBe(recipe);
+    expect(findRecipeNode(nest(recipe, 100_000))).toBeNull();
+  });
+});
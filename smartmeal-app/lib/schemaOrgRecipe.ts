@@ -0,0 +1,463 @@
+/**
+ * schema.org Recipe (JSON-LD)
+ * Import and export of the structured recipe data most recipe sites embed in
+ * their pages. On import, every property that can't be carried over, or only
+ * partly, is reported so the user can review it before saving.
+ */
+
+import type { DetailedRecipe, DietaryFilter, Instruction, MealType, Nutrition, RecipeImportIssue, RecipeInput } from "@/types/recipe";
+import { getYouTubeEmbedUrl, getYouTubeThumbnail, getYouTubeVideoId } from "./youtubeHelper";
+import { formatIngredientLine, parseIngredientLine } from "./ingredientParser";
+import { isSiteImagePath } from "./recipeInput";
+
+type JsonLdNode = Record<string, unknown>;
+
+export class JsonLdParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonLdParseError";
+  }
+}
+
+// Defaults for fields schema.org doesn't have or the document left out
+const DEFAULT_SERVINGS = 2;
+const DEFAULT_MEAL_TYPE: MealType = "Dinner";
+const DEFAULT_CUISINE = "international";
+
+// How many @graph / mainEntity levels to look through for the Recipe node
+const MAX_RECIPE_NODE_DEPTH = 8;
+
+const MEAL_TYPE_KEYWORDS: [RegExp, MealType][] = [
+  [/breakfast|brunch/i, "Breakfast"],
+  [/lunch/i, "Lunch"],
+  [/dinner|supper|main|entr[eé]e/i, "Dinner"],
+  [/snack|appeti[sz]er|starter|side|dessert|drink|beverage/i, "Snack"],
+];
+
+// schema.org RestrictedDiet values we have a dietary tag for
+const DIET_TAGS: Record<string, DietaryFilter> = {
+  VeganDiet: "vegan",
+  VegetarianDiet: "vegetarian",
+  GlutenFreeDiet: "gluten-free",
+};
+const KNOWN_DIETARY_TAGS: DietaryFilter[] = ["vegetarian", "vegan", "keto", "gluten-free", "low-carb"];
+
+// NutritionInformation property -> our field and the unit it is kept in
+// (schema.org writes energy as "240 calories")
+const NUTRITION_PROPERTIES: [keyof Nutrition, string, "kcal" | "g" | "mg"][] = [
+  ["calories", "calories", "kcal"],
+  ["protein", "proteinContent", "g"],
+  ["carbs", "carbohydrateContent", "g"],
+  ["fats", "fatContent", "g"],
+  ["fiber", "fiberContent", "g"],
+  ["sodium", "sodiumContent", "mg"],
+  ["sugar", "sugarContent", "g"],
+];
+
+const MASS_IN_MG: Record<string, number> = {
+  mg: 1, milligram: 1, milligrams: 1, g: 1000, gram: 1000, grams: 1000, mcg: 0.001, µg: 0.001,
+};
+
+const isNode = (value: unknown): value is JsonLdNode =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+// Short form of a value for issue reports
+const preview = (value: unknown) => {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+/**
+ * Plain text of a JSON-LD value: tags stripped, common entities decoded and
+ * whitespace collapsed. Uses the first entry of a list and the text or name of a node.
+ */
+function toText(value: unknown): string {
+  if (Array.isArray(value)) return toText(value[0]);
+  if (isNode(value)) return toText(value.text ?? value.name ?? value["@value"]);
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return "";
+  return value
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const typesOf = (node: JsonLdNode) =>
+  asList(node["@type"]).map((type) => String(type).replace(/^.*[/:#]/, "")); // "http://schema.org/Recipe" -> "Recipe"
+
+/**
+ * Parse pasted or uploaded JSON-LD. An HTML page is accepted too: the JSON-LD
+ * in its <script type="application/ld+json"> blocks is used.
+ */
+export function parseJsonLd(text: string): unknown {
+  const source = text.trim();
+  if (source.startsWith("<")) {
+    const blocks = [...source.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)];
+    if (blocks.length === 0) throw new JsonLdParseError("The page has no JSON-LD script blocks.");
+    return blocks.map((block) => parseJsonLd(block[1]));
+  }
+
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new JsonLdParseError(`The document is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The first schema.org Recipe in a JSON-LD document, looking through lists,
+ * @graph and mainEntity (at most MAX_RECIPE_NODE_DEPTH levels down)
+ */
+export function findRecipeNode(document: unknown, depth = 0): JsonLdNode | null {
+  if (depth > MAX_RECIPE_NODE_DEPTH) return null;
+  for (const candidate of asList(document)) {
+    if (!isNode(candidate)) continue;
+    if (typesOf(candidate).includes("Recipe")) return candidate;
+    const nested = findRecipeNode(candidate["@graph"], depth + 1) ?? findRecipeNode(candidate.mainEntity, depth + 1);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+/**
+ * Minutes in an ISO-8601 duration such as "PT1H30M" or "P1DT2H", or null if it isn't one
+ */
+export function parseIsoDuration(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match || !match.slice(1).some(Boolean)) return null;
+  const [days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part || 0));
+  return Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+}
+
+/**
+ * Steps from recipeInstructions: a block of text, a list of strings, or
+ * HowToStep items, possibly grouped into HowToSections
+ */
+function collectSteps(value: unknown): Omit<Instruction, "step">[] {
+  if (typeof value === "string") {
+    return value
+      .split(/\n+|<\/p>|<br\s*\/?>/i)
+      .map((line) => toText(line).replace(/^\d+[.)]\s*/, "")) // Drop "1." numbering
+      .filter(Boolean)
+      .map((text) => ({ text }));
+  }
+  if (Array.isArray(value)) return value.flatMap(collectSteps);
+  if (!isNode(value)) return [];
+
+  if (value.itemListElement !== undefined) return collectSteps(value.itemListElement); // HowToSection, ItemList
+  const text = toText(value.text ?? value.name);
+  if (!text) return [];
+  const minutes = parseIsoDuration(value.timeRequired ?? value.totalTime);
+  return [{ text, timerDuration: minutes ? minutes * 60 : undefined }];
+}
+
+/**
+ * A nutrient amount such as "12 g", "300 mg" or "240 kcal", in the unit we keep it in
+ */
+function parseNutrient(value: unknown, unit: "kcal" | "g" | "mg"): number | null {
+  const text = typeof value === "number" ? String(value) : toText(value);
+  const match = text.replace(/(\d),(\d{3})\b/g, "$1$2").replace(",", ".").match(/(\d+(?:\.\d+)?)\s*([a-zµ]*)/i);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  const given = match[2].toLowerCase();
+
+  if (unit === "kcal") {
+    return Math.round(given === "kj" ? amount / 4.184 : amount);
+  }
+  const givenInMg = MASS_IN_MG[given] ?? MASS_IN_MG[unit]; // A bare number is already in our unit
+  return Math.round(((amount * givenInMg) / MASS_IN_MG[unit]) * 10) / 10;
+}
+
+/**
+ * Map a schema.org Recipe node to a recipe the user can review and save, with
+ * a report of everything that didn't carry over cleanly
+ */
+export function importSchemaOrgRecipe(node: JsonLdNode): { input: RecipeInput; issues: RecipeImportIssue[] } {
+  const issues: RecipeImportIssue[] = [];
+  const used = new Set(["@context", "@type", "@id"]);
+  const take = (property: string) => {
+    used.add(property);
+    return node[property];
+  };
+
+  // Title and description
+  const title = toText(take("name"));
+  if (!title) issues.push({ kind: "defaulted", property: "name", message: "The recipe has no name; add a title before saving." });
+  const description = toText(take("description"));
+
+  // Times: prep and cook time, or the total when that's all there is
+  const readDuration = (property: string) => {
+    const value = take(property);
+    if (value === undefined) return null;
+    const minutes = parseIsoDuration(value);
+    if (minutes === null) {
+      issues.push({ kind: "unmapped", property, message: "Not an ISO-8601 duration (such as PT30M).", value: preview(value) });
+    }
+    return minutes;
+  };
+  const prepTime = readDuration("prepTime");
+  const cookTime = readDuration("cookTime");
+  const totalTime = readDuration("totalTime");
+  let prepMinutes = prepTime ?? 0;
+  let cookMinutes = cookTime ?? 0;
+  if (prepTime === null && cookTime === null) {
+    if (totalTime !== null) {
+      cookMinutes = totalTime;
+      issues.push({ kind: "partial", property: "totalTime", message: "Only a total time was given; it was used as the cook time." });
+    } else {
+      issues.push({ kind: "defaulted", property: "prepTime", message: "No prep or cook time was given; both were set to 0." });
+    }
+  } else if (totalTime !== null && totalTime !== prepMinutes + cookMinutes) {
+    // Keep the parts we have and put the unaccounted time in the missing one
+    if (prepTime === null) prepMinutes = Math.max(0, totalTime - cookMinutes);
+    else if (cookTime === null) cookMinutes = Math.max(0, totalTime - prepMinutes);
+    else issues.push({ kind: "partial", property: "totalTime", message: "The total time doesn't equal prep plus cook time; prep and cook time were kept." });
+  }
+
+  // Servings from recipeYield ("4", "4 servings", ["4", "Serves 4"])
+  const yieldValue = take("recipeYield");
+  const servings = asList(yieldValue)
+    .map((entry) => Number(toText(entry).match(/\d+(?:\.\d+)?/)?.[0]))
+    .find((count) => Number.isFinite(count) && count >= 1);
+  if (servings === undefined) {
+    issues.push({
+      kind: "defaulted",
+      property: "recipeYield",
+      message: `No number of servings was found; it was set to ${DEFAULT_SERVINGS}.`,
+      value: yieldValue === undefined ? undefined : preview(yieldValue),
+    });
+  }
+
+  // Meal type from recipeCategory
+  const categories = asList(take("recipeCategory")).map(toText).filter(Boolean);
+  const mealType = categories
+    .map((category) => MEAL_TYPE_KEYWORDS.find(([pattern]) => pattern.test(category))?.[1])
+    .find(Boolean);
+  if (!mealType) {
+    issues.push({
+      kind: "defaulted",
+      property: "recipeCategory",
+      message: `No breakfast, lunch, dinner or snack category was found; the meal was set to ${DEFAULT_MEAL_TYPE}.`,
+      value: categories.length > 0 ? categories.join(", ") : undefined,
+    });
+  }
+
+  // Cuisine
+  const cuisines = asList(take("recipeCuisine")).map(toText).filter(Boolean);
+  if (cuisines.length === 0) {
+    issues.push({ kind: "defaulted", property: "recipeCuisine", message: `No cuisine was given; it was set to "${DEFAULT_CUISINE}".` });
+  } else if (cuisines.length > 1) {
+    issues.push({ kind: "partial", property: "recipeCuisine", message: `Only the first cuisine was kept.`, value: cuisines.join(", ") });
+  }
+
+  // Difficulty isn't part of schema.org
+  issues.push({ kind: "defaulted", property: "difficulty", message: "schema.org has no difficulty; it was set to Medium." });
+
+  // Ingredients (recipeIngredient, or the older "ingredients")
+  const ingredientLines = [...asList(take("recipeIngredient")), ...asList(take("ingredients"))].map(toText).filter(Boolean);
+  const ingredients = ingredientLines.flatMap((line) => {
+    const parsed = parseIngredientLine(line);
+    if (!parsed) return [];
+    if (!parsed.hasQuantity) {
+      issues.push({ kind: "partial", property: "recipeIngredient", message: "No amount was found; it was set to 1.", value: preview(line) });
+    }
+    return [parsed.ingredient];
+  });
+  if (ingredients.length === 0) {
+    issues.push({ kind: "defaulted", property: "recipeIngredient", message: "The recipe lists no ingredients; add them before saving." });
+  }
+
+  // Instructions
+  const instructions = collectSteps(take("recipeInstructions"));
+  if (instructions.length === 0) {
+    issues.push({ kind: "defaulted", property: "recipeInstructions", message: "The recipe has no instructions; add them before saving." });
+  }
+
+  // Nutrition per serving
+  const nutrition: Nutrition = { calories: 0, protein: 0, carbs: 0, fats: 0, fiber: 0, sodium: 0, sugar: 0 };
+  const nutritionNode = take("nutrition");
+  if (isNode(nutritionNode)) {
+    const nutritionUsed = new Set(["@type", "@context", "@id"]);
+    const missing: string[] = [];
+    NUTRITION_PROPERTIES.forEach(([field, property, unit]) => {
+      nutritionUsed.add(property);
+      const value = nutritionNode[property];
+      const amount = value === undefined ? null : parseNutrient(value, unit);
+      if (amount === null) {
+        if (value === undefined) missing.push(property);
+        else issues.push({ kind: "unmapped", property: `nutrition.${property}`, message: "The amount couldn't be read; it was set to 0.", value: preview(value) });
+        return;
+      }
+      nutrition[field] = amount;
+    });
+    if (missing.length > 0) {
+      issues.push({ kind: "defaulted", property: "nutrition", message: `Not given, so set to 0: ${missing.join(", ")}.` });
+    }
+    Object.keys(nutritionNode)
+      .filter((property) => !nutritionUsed.has(property))
+      .forEach((property) => {
+        issues.push({ kind: "unmapped", property: `nutrition.${property}`, message: "Not kept; there is no matching nutrition field.", value: preview(nutritionNode[property]) });
+      });
+  } else {
+    issues.push({ kind: "defaulted", property: "nutrition", message: "No nutrition information was given; every value was set to 0." });
+  }
+
+  // Dietary tags from suitableForDiet and keywords
+  const dietaryTags = new Set<string>();
+  asList(take("suitableForDiet")).forEach((diet) => {
+    const name = toText(isNode(diet) ? diet["@id"] ?? diet.name : diet).replace(/^.*[/:#]/, "");
+    const tag = DIET_TAGS[name];
+    if (tag) dietaryTags.add(tag);
+    else issues.push({ kind: "unmapped", property: "suitableForDiet", message: "We have no matching dietary tag.", value: preview(diet) });
+  });
+  const keywords = asList(take("keywords"))
+    .flatMap((entry) => toText(entry).split(","))
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter(Boolean);
+  const otherKeywords = keywords.filter((keyword) => {
+    const tag = KNOWN_DIETARY_TAGS.find((known) => known === keyword.replace(/\s+/g, "-"));
+    if (tag) dietaryTags.add(tag);
+    return !tag;
+  });
+  if (otherKeywords.length > 0) {
+    issues.push({ kind: "partial", property: "keywords", message: "Only dietary keywords were kept as tags.", value: preview(otherKeywords.join(", ")) });
+  }
+
+  // Image: only images served from this site can be shown
+  const imageValue = take("image");
+  const image = asList(imageValue)
+    .map((entry) => (isNode(entry) ? toText(entry.url ?? entry.contentUrl) : toText(entry)))
+    .find(isSiteImagePath);
+  if (imageValue !== undefined && !image) {
+    issues.push({ kind: "unmapped", property: "image", message: "Images from other sites can't be shown; the placeholder image is used.", value: preview(imageValue) });
+  }
+
+  // Video: YouTube only
+  const videoValue = take("video");
+  const videoId = asList(videoValue)
+    .flatMap((entry) => (isNode(entry) ? [entry.embedUrl, entry.contentUrl, entry.url] : [entry]))
+    .map((url) => (typeof url === "string" ? getYouTubeVideoId(url) : null))
+    .find(Boolean);
+  if (videoValue !== undefined && !videoId) {
+    issues.push({ kind: "unmapped", property: "video", message: "Only YouTube videos are supported.", value: preview(videoValue) });
+  }
+
+  // Everything else in the document
+  Object.keys(node)
+    .filter((property) => !used.has(property))
+    .forEach((property) => {
+      issues.push({ kind: "unmapped", property, message: "Not kept; recipes have no matching field.", value: preview(node[property]) });
+    });
+
+  return {
+    input: {
+      title,
+      description,
+      image,
+      prepTime: prepMinutes,
+      cookTime: cookMinutes,
+      servings: servings === undefined ? DEFAULT_SERVINGS : Math.round(servings),
+      difficulty: "Medium",
+      mealType: mealType || DEFAULT_MEAL_TYPE,
+      cuisine: (cuisines[0] || DEFAULT_CUISINE).toLowerCase(),
+      ingredients,
+      instructions,
+      nutrition,
+      dietaryTags: [...dietaryTags],
+      videoId: videoId || undefined,
+    },
+    issues,
+  };
+}
+
+/**
+ * An ISO-8601 duration such as "PT1H30M" for a number of minutes
+ */
+export function formatIsoDuration(minutes: number): string {
+  const totalSeconds = Math.max(0, Math.round(minutes * 60));
+  if (totalSeconds === 0) return "PT0M";
+  const hours = Math.floor(totalSeconds / 3600);
+  const remainingMinutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `PT${hours ? `${hours}H` : ""}${remainingMinutes ? `${remainingMinutes}M` : ""}${seconds ? `${seconds}S` : ""}`;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Absolute URL of a path on this site
+const absoluteUrl = (pathOrUrl: string, baseUrl?: string) =>
+  baseUrl && pathOrUrl.startsWith("/") ? new URL(pathOrUrl, baseUrl).toString() : pathOrUrl;
+
+/**
+ * A schema.org Recipe (JSON-LD) for a recipe. `baseUrl` makes the page and
+ * image URLs absolute, as search engines expect.
+ */
+export function toSchemaOrgRecipe(recipe: DetailedRecipe, options: { baseUrl?: string } = {}): JsonLdNode {
+  const { baseUrl } = options;
+  const pageUrl = absoluteUrl(`/recipes/${encodeURIComponent(recipe.id)}`, baseUrl);
+  const dietTypes = Object.entries(DIET_TAGS)
+    .filter(([, tag]) => recipe.dietaryTags?.includes(tag))
+    .map(([diet]) => `https://schema.org/${diet}`);
+
+  const nutrition: JsonLdNode = { "@type": "NutritionInformation" };
+  if (recipe.nutrition) {
+    NUTRITION_PROPERTIES.forEach(([field, property, unit]) => {
+      const amount = recipe.nutrition[field];
+      if (typeof amount === "number") nutrition[property] = `${amount} ${unit === "kcal" ? "calories" : unit}`;
+    });
+  }
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    "@id": pageUrl,
+    url: pageUrl,
+    name: recipe.title,
+    description: recipe.description,
+    image: recipe.image ? [absoluteUrl(recipe.image, baseUrl)] : undefined,
+    prepTime: formatIsoDuration(recipe.prepTime || 0),
+    cookTime: formatIsoDuration(recipe.cookTime || 0),
+    totalTime: formatIsoDuration(recipe.totalTime || (recipe.prepTime || 0) + (recipe.cookTime || 0)),
+    recipeYield: [String(recipe.servings), `${recipe.servings} servings`],
+    recipeCategory: recipe.mealType,
+    recipeCuisine: capitalize(recipe.cuisine),
+    keywords: recipe.dietaryTags?.length ? recipe.dietaryTags.join(", ") : undefined,
+    suitableForDiet: dietTypes.length > 0 ? dietTypes : undefined,
+    recipeIngredient: (recipe.ingredients || []).map(formatIngredientLine),
+    recipeInstructions: (recipe.instructions || []).map((instruction, index) => ({
+      "@type": "HowToStep",
+      position: instruction.step || index + 1,
+      text: instruction.text,
+      timeRequired: instruction.timerDuration ? formatIsoDuration(instruction.timerDuration / 60) : undefined,
+    })),
+    nutrition,
+    video: recipe.videoId
+      ? {
+          "@type": "VideoObject",
+          name: recipe.title,
+          description: recipe.description,
+          thumbnailUrl: [getYouTubeThumbnail(recipe.videoId, "high")],
+          embedUrl: getYouTubeEmbedUrl(recipe.videoId),
+          contentUrl: `https://www.youtube.com/watch?v=${recipe.videoId}`,
+        }
+      : undefined,
+    datePublished: recipe.createdAt,
+    dateModified: recipe.updatedAt,
+  };
+}
+
+/**
+ * The JSON-LD text of a recipe, safe to put inside a <script> tag
+ */
+export function serializeJsonLd(node: JsonLdNode): string {
+  return JSON.stringify(node, null, 2).replace(/</g, "\\u003c");
+}
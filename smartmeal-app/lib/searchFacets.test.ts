@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { computeFacets } from "./searchFacets";
+import { buildTestRecipe } from "./testRecipes";
+
+const recipes = [
+  buildTestRecipe("dal", { cuisine: "Indian", difficulty: "Easy", mealType: "Dinner", prepTime: 10, cookTime: 20, dietaryTags: ["vegan", "Gluten-Free"] }),
+  buildTestRecipe("biryani", { cuisine: "Indian", difficulty: "Hard", mealType: "Dinner", prepTime: 30, cookTime: 60, dietaryTags: [] }),
+  buildTestRecipe("congee", { cuisine: "Chinese", difficulty: "Easy", mealType: "Breakfast", prepTime: 5, cookTime: 5, dietaryTags: ["vegan"] }),
+];
+
+describe("computeFacets", () => {
+  const facets = computeFacets(recipes);
+
+  it("counts cuisines and dietary tags case-insensitively, most common first", () => {
+    expect(facets.cuisine).toEqual([
+      { value: "indian", label: "Indian", count: 2 },
+      { value: "chinese", label: "Chinese", count: 1 },
+    ]);
+    expect(facets.dietaryTags).toEqual([
+      { value: "vegan", label: "Vegan", count: 2 },
+      { value: "gluten-free", label: "Gluten-Free", count: 1 },
+    ]);
+  });
+
+  it("keeps difficulty and meal type in their natural order", () => {
+    expect(facets.difficulty.map(({ value, count }) => [value, count])).toEqual([
+      ["Easy", 2],
+      ["Hard", 1],
+    ]);
+    expect(facets.mealType.map(({ value, count }) => [value, count])).toEqual([
+      ["Breakfast", 1],
+      ["Dinner", 2],
+    ]);
+  });
+
+  it("counts total time in cumulative buckets", () => {
+    expect(facets.totalTime).toEqual([
+      { value: "15", label: "Under 15 min", count: 1 },
+      { value: "30", label: "Under 30 min", count: 2 },
+      { value: "45", label: "Under 45 min", count: 2 },
+      { value: "60", label: "Under 1 hour", count: 2 },
+      { value: "90", label: "Under 1.5 hours", count: 3 },
+    ]);
+  });
+
+  it("returns empty counts for no recipes", () => {
+    const empty = computeFacets([]);
+    expect(empty.cuisine).toEqual([]);
+    expect(empty.totalTime.every((bucket) => bucket.count === 0)).toBe(true);
+  });
+});
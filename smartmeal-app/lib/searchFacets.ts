@@ -0,0 +1,57 @@
+/**
+ * Search Facets
+ * Counts of cuisines, dietary tags, difficulty, meal type and time buckets in a result set
+ */
+
+import type { DetailedRecipe, FacetCount, SearchFacets } from "@/types/recipe";
+
+// Upper bounds (minutes) of the total time buckets; buckets are cumulative
+export const TIME_BUCKETS = [15, 30, 45, 60, 90];
+
+const DIFFICULTY_ORDER = ["Easy", "Medium", "Hard"];
+const MEAL_TYPE_ORDER = ["Breakfast", "Lunch", "Dinner", "Snack"];
+
+/**
+ * Turn a lowercase or hyphenated value into a display label ("gluten-free" -> "Gluten-Free")
+ */
+function toLabel(value: string): string {
+  return value.replace(/(^|[\s-])([a-z])/g, (_, separator, letter) => separator + letter.toUpperCase());
+}
+
+/**
+ * Count occurrences of each value. Ordered by `order` when given, else by count then name.
+ */
+function countValues(values: string[], order?: string[]): FacetCount[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => {
+    if (!value) return;
+    counts.set(value, (counts.get(value) || 0) + 1);
+  });
+
+  const facets = [...counts.entries()].map(([value, count]) => ({ value, label: toLabel(value), count }));
+
+  return facets.sort((a, b) =>
+    order
+      ? order.indexOf(a.value) - order.indexOf(b.value)
+      : b.count - a.count || a.value.localeCompare(b.value)
+  );
+}
+
+/**
+ * Compute facet counts over a set of recipes
+ */
+export function computeFacets(recipes: DetailedRecipe[]): SearchFacets {
+  return {
+    cuisine: countValues(recipes.map((recipe) => (recipe.cuisine || "").toLowerCase())),
+    dietaryTags: countValues(
+      recipes.flatMap((recipe) => (Array.isArray(recipe.dietaryTags) ? recipe.dietaryTags.map((tag) => tag.toLowerCase()) : []))
+    ),
+    difficulty: countValues(recipes.map((recipe) => recipe.difficulty), DIFFICULTY_ORDER),
+    mealType: countValues(recipes.map((recipe) => recipe.mealType), MEAL_TYPE_ORDER),
+    totalTime: TIME_BUCKETS.map((minutes) => ({
+      value: String(minutes),
+      label: minutes < 60 ? `Under ${minutes} min` : minutes === 60 ? "Under 1 hour" : `Under ${minutes / 60} hours`,
+      count: recipes.filter((recipe) => recipe.totalTime <= minutes).length,
+    })),
+  };
+}
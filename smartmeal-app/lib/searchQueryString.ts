@@ -0,0 +1,202 @@
+/**
+ * Search Query Strings
+ * Converts recipe search requests to and from URL query parameters so a
+ * search can be bookmarked, shared and replayed (GET /api/recipes/search, /search page)
+ */
+
+import type { Nutrition, NumericRange, NutritionRanges, SearchMode } from "@/types/recipe";
+import type { RecipeRating, SearchPersonalization } from "@/types/user";
+
+export interface SearchRequestFilters {
+  cuisine?: string;
+  dietaryFilters?: string[];
+  excludeIngredients?: string[];
+  difficulty?: string[];
+  mealTypes?: string[];
+  maxTime?: number; // Total time shorthand used by the filter panel
+  prepTime?: NumericRange;
+  cookTime?: NumericRange;
+  totalTime?: NumericRange;
+  nutrition?: NutritionRanges;
+  highProtein?: boolean;
+  minProteinShare?: number;
+  sortBy?: string;
+  minMatchPercentage?: number;
+}
+
+// Same shape as the POST /api/recipes/search body
+export interface SearchRequest {
+  ingredients: string[];
+  query?: string;
+  mode?: SearchMode;
+  maxMissing?: number;
+  filters: SearchRequestFilters;
+  limit?: number;
+  cursor?: string;
+  page?: number;
+  pageSize?: number;
+  personalization?: SearchPersonalization; // POST only: personal data stays out of shareable URLs
+  ratings?: RecipeRating[]; // POST only, for sorting by "top rated"
+}
+
+const FILTER_PARAMS = {
+  cuisine: "cuisine",
+  dietaryFilters: "diet",
+  excludeIngredients: "exclude",
+  difficulty: "difficulty",
+  mealTypes: "mealType",
+} as const;
+
+const RANGE_PARAMS = {
+  prepTime: "prep",
+  cookTime: "cook",
+  totalTime: "total",
+} as const;
+
+const NUTRIENTS: (keyof Nutrition)[] = ["calories", "protein", "carbs", "fats", "fiber", "sodium", "sugar"];
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Split a comma-separated parameter, dropping blanks
+ */
+function readList(params: URLSearchParams, name: string): string[] | undefined {
+  const raw = params.get(name);
+  if (raw === null) return undefined;
+  const values = raw.split(",").map((value) => value.trim()).filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * Read a numeric parameter. Malformed numbers come back as NaN so the API rejects them.
+ */
+function readNumber(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === "") return undefined;
+  return Number(raw);
+}
+
+function readRange(params: URLSearchParams, minName: string, maxName: string): NumericRange | undefined {
+  const min = readNumber(params, minName);
+  const max = readNumber(params, maxName);
+  return min === undefined && max === undefined ? undefined : { min, max };
+}
+
+// Every parameter name searchRequestFromParams reads
+const KNOWN_PARAMS = new Set<string>([
+  "ingredients", "q", "mode", "maxMissing", "maxTime", "highProtein", "proteinShare", "sort", "minMatch",
+  "limit", "cursor", "page", "pageSize",
+  ...Object.values(FILTER_PARAMS),
+  ...Object.values(RANGE_PARAMS).flatMap((prefix) => [`${prefix}Min`, `${prefix}Max`]),
+  ...NUTRIENTS.flatMap((nutrient) => [`min${capitalize(nutrient)}`, `max${capitalize(nutrient)}`]),
+]);
+
+/**
+ * Names of query parameters that are not part of a search request
+ */
+export function getUnknownSearchParams(params: URLSearchParams): string[] {
+  return [...new Set(params.keys())].filter((name) => !KNOWN_PARAMS.has(name));
+}
+
+/**
+ * Parse URL query parameters into a search request
+ */
+export function searchRequestFromParams(params: URLSearchParams): SearchRequest {
+  const filters: SearchRequestFilters = {};
+
+  const cuisine = params.get(FILTER_PARAMS.cuisine);
+  if (cuisine) filters.cuisine = cuisine;
+  filters.dietaryFilters = readList(params, FILTER_PARAMS.dietaryFilters);
+  filters.excludeIngredients = readList(params, FILTER_PARAMS.excludeIngredients);
+  filters.difficulty = readList(params, FILTER_PARAMS.difficulty);
+  filters.mealTypes = readList(params, FILTER_PARAMS.mealTypes);
+  filters.maxTime = readNumber(params, "maxTime");
+
+  (Object.keys(RANGE_PARAMS) as (keyof typeof RANGE_PARAMS)[]).forEach((field) => {
+    const prefix = RANGE_PARAMS[field];
+    filters[field] = readRange(params, `${prefix}Min`, `${prefix}Max`);
+  });
+
+  const nutrition: NutritionRanges = {};
+  NUTRIENTS.forEach((nutrient) => {
+    const range = readRange(params, `min${capitalize(nutrient)}`, `max${capitalize(nutrient)}`);
+    if (range) nutrition[nutrient] = range;
+  });
+  if (Object.keys(nutrition).length > 0) filters.nutrition = nutrition;
+
+  if (params.get("highProtein") === "1" || params.get("highProtein") === "true") filters.highProtein = true;
+  filters.minProteinShare = readNumber(params, "proteinShare");
+  filters.sortBy = params.get("sort") || undefined;
+  filters.minMatchPercentage = readNumber(params, "minMatch");
+
+  // Drop unset keys so the request matches an equivalent POST body
+  (Object.keys(filters) as (keyof SearchRequestFilters)[]).forEach((key) => {
+    if (filters[key] === undefined) delete filters[key];
+  });
+
+  const mode = params.get("mode");
+
+  return {
+    ingredients: readList(params, "ingredients") || [],
+    query: params.get("q")?.trim() || undefined,
+    mode: mode ? (mode as SearchMode) : undefined,
+    maxMissing: readNumber(params, "maxMissing"),
+    filters,
+    limit: readNumber(params, "limit"),
+    cursor: params.get("cursor") || undefined,
+    page: readNumber(params, "page"),
+    pageSize: readNumber(params, "pageSize"),
+  };
+}
+
+/**
+ * Serialize a search request into URL query parameters (the inverse of searchRequestFromParams)
+ */
+export function searchRequestToParams(request: SearchRequest): URLSearchParams {
+  const params = new URLSearchParams();
+  const setValue = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "") params.set(name, String(value));
+  };
+  const setList = (name: string, values: string[] | undefined) => {
+    if (values && values.length > 0) params.set(name, values.join(","));
+  };
+  const setRange = (minName: string, maxName: string, range: NumericRange | undefined) => {
+    setValue(minName, range?.min);
+    setValue(maxName, range?.max);
+  };
+
+  const { filters } = request;
+
+  setList("ingredients", request.ingredients);
+  setValue("q", request.query);
+  if (request.mode && request.mode !== "match") setValue("mode", request.mode);
+  setValue("maxMissing", request.maxMissing);
+
+  setValue(FILTER_PARAMS.cuisine, filters.cuisine);
+  setList(FILTER_PARAMS.dietaryFilters, filters.dietaryFilters);
+  setList(FILTER_PARAMS.excludeIngredients, filters.excludeIngredients);
+  setList(FILTER_PARAMS.difficulty, filters.difficulty);
+  setList(FILTER_PARAMS.mealTypes, filters.mealTypes);
+  setValue("maxTime", filters.maxTime);
+
+  (Object.keys(RANGE_PARAMS) as (keyof typeof RANGE_PARAMS)[]).forEach((field) => {
+    const prefix = RANGE_PARAMS[field];
+    setRange(`${prefix}Min`, `${prefix}Max`, filters[field]);
+  });
+
+  NUTRIENTS.forEach((nutrient) => {
+    setRange(`min${capitalize(nutrient)}`, `max${capitalize(nutrient)}`, filters.nutrition?.[nutrient]);
+  });
+
+  if (filters.highProtein) params.set("highProtein", "1");
+  setValue("proteinShare", filters.minProteinShare);
+  setValue("sort", filters.sortBy);
+  setValue("minMatch", filters.minMatchPercentage);
+
+  setValue("limit", request.limit);
+  setValue("cursor", request.cursor);
+  setValue("page", request.page);
+  setValue("pageSize", request.pageSize);
+
+  return params;
+}
@@ -0,0 +1,35 @@
+/**
+ * Test Recipes
+ * Builds saved user recipes for unit tests from just the fields a test cares
+ * about. Everything else keeps the editor's blank defaults.
+ */
+
+import type { DetailedRecipe, RecipeInput } from "@/types/recipe";
+import { createEmptyRecipeInput, toUserRecipe } from "./recipeInput";
+
+export interface TestRecipeFields extends Partial<Omit<RecipeInput, "ingredients" | "instructions">> {
+  ingredients?: (string | RecipeInput["ingredients"][number])[]; // A bare name means 1 of it, no unit
+  instructions?: string[];
+}
+
+/**
+ * A user recipe titled after its id, with one rice ingredient and one step unless given
+ */
+export function buildTestRecipe(
+  id: string,
+  { ingredients = ["rice"], instructions = ["Cook it."], ...fields }: TestRecipeFields = {}
+): DetailedRecipe {
+  return toUserRecipe(
+    {
+      ...createEmptyRecipeInput(),
+      title: id,
+      cuisine: "Indian",
+      ...fields,
+      ingredients: ingredients.map((ingredient) =>
+        typeof ingredient === "string" ? { name: ingredient, quantity: 1, unit: "", substitutions: [] } : ingredient
+      ),
+      instructions: instructions.map((text) => ({ text })),
+    },
+    id
+  );
+}
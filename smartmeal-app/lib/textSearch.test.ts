@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildTestRecipe } from "./testRecipes";
+import { searchText, tokenize } from "./textSearch";
+
+const recipe = (id: string, title: string, description: string, instructions?: string[]) =>
+  buildTestRecipe(id, { title, description, cuisine: "Thai", instructions });
+
+const recipes = [
+  recipe("curry", "Green Curry", "A fragrant coconut curry with vegetables."),
+  recipe("soup", "Coconut Soup", "Light soup; finish with a spoon of curry paste.", ["Simmer the broth.", "Stir in the curry paste."]),
+  recipe("salad", "Papaya Salad", "Crunchy and sour.", ["Pound the chilies.", "Toss with lime."]),
+];
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and stop words, and singularizes", () => {
+    expect(tokenize("The Crème Brûlée with Berries")).toEqual(["creme", "brulee", "berry"]);
+  });
+});
+
+describe("searchText", () => {
+  it("needs every query term to match", () => {
+    expect([...searchText(recipes, "coconut curry").keys()].sort()).toEqual(["curry", "soup"]);
+    expect(searchText(recipes, "coconut lime").size).toBe(0);
+  });
+
+  it("ranks title hits above hits further down the recipe", () => {
+    const results = searchText(recipes, "curry");
+    expect(results.get("curry")!.score).toBeGreaterThan(results.get("soup")!.score);
+  });
+
+  it("matches plural and singular forms", () => {
+    expect([...searchText(recipes, "chili").keys()]).toEqual(["salad"]);
+  });
+
+  it("returns nothing for a query of only stop words", () => {
+    expect(searchText(recipes, "the and of").size).toBe(0);
+  });
+
+  it("highlights the hits in each snippet", () => {
+    const snippet = searchText(recipes, "paste").get("soup")!.snippets.find((entry) => entry.field === "description")!;
+    const highlighted = snippet.highlights.map(([start, end]) => snippet.text.slice(start, end));
+    expect(highlighted).toEqual(["paste"]);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Full-Text Recipe Search
+ * Tokenized inverted index over recipe text with relevance scoring and highlighted snippets
+ */
+
+import type { DetailedRecipe, TextSnippet, TextSearchField } from "@/types/recipe";
+import { singularize } from "./ingredientOntology";
+import logger from "./debug";
+
+// How much a hit in each field counts towards relevance
+const FIELD_WEIGHTS: Record<TextSearchField, number> = {
+  title: 3,
+  cuisine: 2,
+  dietaryTags: 2,
+  description: 1.5,
+  instructions: 1,
+};
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "into",
+  "is", "it", "of", "on", "or", "that", "the", "to", "with", "until", "your",
+]);
+
+const SNIPPET_RADIUS = 60; // Characters of context on each side of the first hit
+
+interface Posting {
+  fieldCounts: Partial<Record<TextSearchField, number>>;
+  weightedCount: number; // Sum of field counts multiplied by field weights
+}
+
+export interface TextIndex {
+  postings: Map<string, Map<string, Posting>>; // token -> recipe id -> posting
+  documentLengths: Map<string, number>; // recipe id -> number of tokens
+  averageLength: number;
+  documentCount: number;
+}
+
+export interface TextMatch {
+  recipeId: string;
+  score: number;
+  matchedTerms: string[];
+  snippets: TextSnippet[];
+}
+
+/**
+ * Split text into normalized search tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOP_WORDS.has(token))
+    .map(singularize);
+}
+
+/**
+ * Get the searchable text of each field of a recipe
+ */
+function getFieldTexts(recipe: DetailedRecipe): Record<TextSearchField, string> {
+  return {
+    title: recipe.title || "",
+    description: recipe.description || "",
+    cuisine: recipe.cuisine || "",
+    dietaryTags: Array.isArray(recipe.dietaryTags) ? recipe.dietaryTags.join(", ") : "",
+    instructions: Array.isArray(recipe.instructions)
+      ? recipe.instructions.map((instruction) => instruction.text).join(" ")
+      : "",
+  };
+}
+
+/**
+ * Build an inverted index over the recipe set
+ */
+export function buildTextIndex(recipes: DetailedRecipe[]): TextIndex {
+  const postings = new Map<string, Map<string, Posting>>();
+  const documentLengths = new Map<string, number>();
+  let totalLength = 0;
+
+  recipes.forEach((recipe) => {
+    if (!recipe || typeof recipe.id !== "string") return;
+
+    const fieldTexts = getFieldTexts(recipe);
+    let length = 0;
+
+    (Object.keys(fieldTexts) as TextSearchField[]).forEach((field) => {
+      const tokens = tokenize(fieldTexts[field]);
+      length += tokens.length;
+
+      tokens.forEach((token) => {
+        let recipePostings = postings.get(token);
+        if (!recipePostings) {
+          recipePostings = new Map();
+          postings.set(token, recipePostings);
+        }
+
+        let posting = recipePostings.get(recipe.id);
+        if (!posting) {
+          posting = { fieldCounts: {}, weightedCount: 0 };
+          recipePostings.set(recipe.id, posting);
+        }
+
+        posting.fieldCounts[field] = (posting.fieldCounts[field] || 0) + 1;
+        posting.weightedCount += FIELD_WEIGHTS[field];
+      });
+    });
+
+    documentLengths.set(recipe.id, length);
+    totalLength += length;
+  });
+
+  logger.debug('TextSearch:Index', `Indexed ${documentLengths.size} recipes, ${postings.size} distinct tokens.`);
+
+  return {
+    postings,
+    documentLengths,
+    averageLength: documentLengths.size > 0 ? totalLength / documentLengths.size : 0,
+    documentCount: documentLengths.size,
+  };
+}
+
+// Indexes are cached per recipe array so repeated searches don't rebuild them
+const indexCache = new WeakMap<DetailedRecipe[], TextIndex>();
+
+/**
+ * Get the (cached) index for a recipe array
+ */
+export function getTextIndex(recipes: DetailedRecipe[]): TextIndex {
+  let index = indexCache.get(recipes);
+  if (!index) {
+    index = buildTextIndex(recipes);
+    indexCache.set(recipes, index);
+  }
+  return index;
+}
+
+/**
+ * Build a snippet around the first query hit in a piece of text.
+ * Highlights are [start, end) character offsets into the snippet text.
+ */
+function buildSnippet(field: TextSearchField, text: string, terms: Set<string>): TextSnippet | null {
+  const wordPattern = /[A-Za-z0-9\u00C0-\u024F]+/g;
+  const hits: [number, number][] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    const [token] = tokenize(match[0]);
+    if (token && terms.has(token)) {
+      hits.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  if (hits.length === 0) return null;
+
+  const start = Math.max(0, hits[0][0] - SNIPPET_RADIUS);
+  const end = Math.min(text.length, hits[0][1] + SNIPPET_RADIUS);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: hits
+      .filter(([hitStart, hitEnd]) => hitStart >= start && hitEnd <= end)
+      .map(([hitStart, hitEnd]) => [hitStart - start + prefix.length, hitEnd - start + prefix.length] as [number, number]),
+  };
+}
+
+/**
+ * Run a text query against the recipe set.
+ * Every query term must appear somewhere in the recipe; results are scored
+ * with BM25 over field-weighted term counts.
+ */
+export function searchText(recipes: DetailedRecipe[], query: string): Map<string, TextMatch> {
+  const index = getTextIndex(recipes);
+  const terms = [...new Set(tokenize(query))];
+  const results = new Map<string, TextMatch>();
+
+  if (terms.length === 0) return results;
+
+  const k1 = 1.2;
+  const b = 0.75;
+
+  // Candidate set: recipes containing every term
+  const candidates = terms.reduce<string[]>((ids, term, termIndex) => {
+    const recipeIds = [...(index.postings.get(term)?.keys() ?? [])];
+    return termIndex === 0 ? recipeIds : ids.filter((id) => recipeIds.includes(id));
+  }, []);
+
+  const recipesById = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+  const termSet = new Set(terms);
+
+  candidates.forEach((recipeId) => {
+    const length = index.documentLengths.get(recipeId) || 0;
+    let score = 0;
+
+    terms.forEach((term) => {
+      const recipePostings = index.postings.get(term);
+      const posting = recipePostings?.get(recipeId);
+      if (!recipePostings || !posting) return;
+
+      const idf = Math.log(1 + (index.documentCount - recipePostings.size + 0.5) / (recipePostings.size + 0.5));
+      const tf = posting.weightedCount;
+      const norm = index.averageLength > 0 ? length / index.averageLength : 1;
+      score += idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + b * norm)));
+    });
+
+    const recipe = recipesById.get(recipeId);
+    const fieldTexts = recipe ? getFieldTexts(recipe) : null;
+    const snippets = fieldTexts
+      ? (Object.keys(FIELD_WEIGHTS) as TextSearchField[])
+          .map((field) => buildSnippet(field, fieldTexts[field], termSet))
+          .filter((snippet): snippet is TextSnippet => snippet !== null)
+      : [];
+
+    results.set(recipeId, {
+      recipeId,
+      score: Math.round(score * 100) / 100,
+      matchedTerms: terms,
+      snippets,
+    });
+  });
+
+  logger.debug('TextSearch:Query', `Query "${query}" (${terms.join(', ')}) matched ${results.size} recipes.`);
+
+  return results;
+}
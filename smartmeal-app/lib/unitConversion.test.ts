@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { convertAmount, convertToSystem, formatAmount, getUnitInfo, promoteUnit } from "./unitConversion";
+
+const amount = (quantity: number, unit: string, name: string, quantityMax?: number) => ({ name, quantity, quantityMax, unit });
+
+describe("getUnitInfo", () => {
+  it("knows written units, counts and unknown units", () => {
+    expect(getUnitInfo("Tablespoons")).toMatchObject({ unit: "tbsp", dimension: "volume", system: "both" });
+    expect(getUnitInfo("cloves")).toEqual({ unit: "clove", dimension: "count", system: "both" });
+    expect(getUnitInfo("smidgen")).toBeNull();
+  });
+});
+
+describe("convertAmount", () => {
+  it.each([
+    ["cup", "ml"],
+    ["tbsp", "tsp"],
+    ["lb", "kg"],
+    ["oz", "g"],
+    ["quart", "l"],
+  ])("converts %s to %s and back", (from, to) => {
+    const there = convertAmount(2.5, from, to)!;
+    expect(convertAmount(there, to, from)).toBeCloseTo(2.5, 6);
+  });
+
+  it("converts between volume and mass through the ingredient's density", () => {
+    expect(convertAmount(1, "cup", "g", "all-purpose flour")).toBeCloseTo(125.4, 1);
+    expect(convertAmount(convertAmount(1, "cup", "g", "sugar")!, "g", "cup", "sugar")).toBeCloseTo(1, 6);
+    expect(convertAmount(1, "cup", "g", "kale")).toBeNull();
+    expect(convertAmount(1, "cup", "g")).toBeNull();
+  });
+
+  it("only converts counts to the same unit", () => {
+    expect(convertAmount(3, "cloves", "clove")).toBe(3);
+    expect(convertAmount(3, "cloves", "g", "garlic")).toBeNull();
+    expect(convertAmount(2, "smidgen", "Smidgen")).toBe(2);
+  });
+});
+
+describe("convertToSystem", () => {
+  it("weighs dry ingredients in metric and measures them by volume in imperial", () => {
+    const metric = convertToSystem(amount(1, "cups", "flour"), "metric");
+    expect(metric).toMatchObject({ quantity: 125, unit: "g" });
+    expect(convertToSystem(metric, "imperial")).toMatchObject({ quantity: 1, unit: "cup" });
+  });
+
+  it("keeps liquids in millilitres", () => {
+    const metric = convertToSystem(amount(2, "cups", "whole milk"), "metric");
+    expect(metric).toMatchObject({ quantity: 475, unit: "ml" });
+    expect(convertToSystem(metric, "imperial")).toMatchObject({ quantity: 2, unit: "cups" });
+  });
+
+  it("converts both ends of a range into one unit", () => {
+    expect(convertToSystem(amount(1, "lb", "chicken", 2), "metric")).toMatchObject({ quantity: 455, quantityMax: 905, unit: "g" });
+  });
+
+  it("leaves spoons, counts and amounts already in the system alone", () => {
+    const spoons = amount(2, "tbsp", "olive oil");
+    const cloves = amount(3, "cloves", "garlic");
+    const grams = amount(200, "g", "rice");
+    expect(convertToSystem(spoons, "metric")).toBe(spoons);
+    expect(convertToSystem(cloves, "imperial")).toBe(cloves);
+    expect(convertToSystem(grams, "metric")).toBe(grams);
+    expect(convertToSystem(grams, "original")).toBe(grams);
+  });
+});
+
+describe("promoteUnit", () => {
+  it.each([
+    [amount(16, "tbsp", "butter"), { quantity: 1, unit: "cup" }],
+    [amount(1500, "g", "potato"), { quantity: 1.5, unit: "kg" }],
+    [amount(0.125, "cup", "sugar"), { quantity: 2, unit: "tbsp" }],
+    [amount(1.3, "cloves", "garlic"), { quantity: 1.25, unit: "cloves" }],
+  ])("moves %o to the unit that reads best", (input, expected) => {
+    expect(promoteUnit(input)).toMatchObject(expected);
+  });
+});
+
+describe("formatAmount", () => {
+  it("shows common fractions as characters", () => {
+    expect(formatAmount(0.5)).toBe("½");
+    expect(formatAmount(1.25)).toBe("1¼");
+    expect(formatAmount(0.333)).toBe("⅓");
+    expect(formatAmount(2, 3)).toBe("2–3");
+    expect(formatAmount(1.99)).toBe("2");
+    expect(formatAmount(1.1)).toBe("1.1");
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Unit Conversion
+ * Volume, mass and count units, conversion between them (volume <-> mass
+ * through per-ingredient densities), and display of recipe amounts in the
+ * user's measurement system
+ */
+
+import type { Ingredient } from "@/types/recipe";
+import type { MeasurementSystem } from "@/types/user";
+import { getIngredientAncestors, resolveIngredient } from "./ingredientOntology";
+import { normalizeUnit } from "./ingredientParser";
+
+export type UnitDimension = "volume" | "mass" | "count";
+
+export interface UnitInfo {
+  unit: string; // Canonical singular form, as the ingredient parser writes it
+  dimension: UnitDimension;
+  system: "metric" | "imperial" | "both"; // Spoons and counts read the same in either system
+  toBase?: number; // Millilitres or grams in one unit; counts have none
+}
+
+// An amount with a unit, such as an ingredient or a shopping list item
+interface Amount {
+  name: string;
+  quantity: number;
+  quantityMax?: number;
+  unit: string;
+}
+
+const UNIT_INFO: Record<string, Omit<UnitInfo, "unit">> = {
+  // Volume (ml)
+  tsp: { dimension: "volume", system: "both", toBase: 4.92892 },
+  tbsp: { dimension: "volume", system: "both", toBase: 14.7868 },
+  cup: { dimension: "volume", system: "imperial", toBase: 236.588 },
+  "fl oz": { dimension: "volume", system: "imperial", toBase: 29.5735 },
+  pint: { dimension: "volume", system: "imperial", toBase: 473.176 },
+  quart: { dimension: "volume", system: "imperial", toBase: 946.353 },
+  gallon: { dimension: "volume", system: "imperial", toBase: 3785.41 },
+  ml: { dimension: "volume", system: "metric", toBase: 1 },
+  l: { dimension: "volume", system: "metric", toBase: 1000 },
+  // Mass (g)
+  mg: { dimension: "mass", system: "metric", toBase: 0.001 },
+  g: { dimension: "mass", system: "metric", toBase: 1 },
+  kg: { dimension: "mass", system: "metric", toBase: 1000 },
+  oz: { dimension: "mass", system: "imperial", toBase: 28.3495 },
+  lb: { dimension: "mass", system: "imperial", toBase: 453.592 },
+};
+
+// Grams per millilitre, by canonical ingredient name. Liquids are shown in
+// millilitres in metric; everything else is weighed.
+const DENSITIES: Record<string, { gramsPerMl: number; liquid?: boolean }> = {
+  water: { gramsPerMl: 1, liquid: true },
+  milk: { gramsPerMl: 1.03, liquid: true },
+  "heavy cream": { gramsPerMl: 1, liquid: true },
+  "coconut milk": { gramsPerMl: 0.98, liquid: true },
+  "vegetable broth": { gramsPerMl: 1, liquid: true },
+  "chicken broth": { gramsPerMl: 1, liquid: true },
+  "soy sauce": { gramsPerMl: 1.15, liquid: true },
+  vinegar: { gramsPerMl: 1.01, liquid: true },
+  "vegetable oil": { gramsPerMl: 0.92, liquid: true },
+  "olive oil": { gramsPerMl: 0.91, liquid: true },
+  "sesame oil": { gramsPerMl: 0.92, liquid: true },
+  honey: { gramsPerMl: 1.42, liquid: true },
+  "coconut oil": { gramsPerMl: 0.92 },
+  butter: { gramsPerMl: 0.96 },
+  ghee: { gramsPerMl: 0.91 },
+  yogurt: { gramsPerMl: 1.03 },
+  "greek yogurt": { gramsPerMl: 1.1 },
+  "sour cream": { gramsPerMl: 1.01 },
+  "peanut butter": { gramsPerMl: 1.08 },
+  flour: { gramsPerMl: 0.53 },
+  sugar: { gramsPerMl: 0.85 },
+  "brown sugar": { gramsPerMl: 0.93 },
+  salt: { gramsPerMl: 1.22 },
+  "black pepper": { gramsPerMl: 0.5 },
+  rice: { gramsPerMl: 0.85 },
+  oat: { gramsPerMl: 0.41 },
+  lentil: { gramsPerMl: 0.8 },
+  cheese: { gramsPerMl: 0.45 }, // Grated or shredded
+  parmesan: { gramsPerMl: 0.42 },
+  almond: { gramsPerMl: 0.6 },
+  peanut: { gramsPerMl: 0.6 },
+  cashew: { gramsPerMl: 0.55 },
+  walnut: { gramsPerMl: 0.47 },
+  pecan: { gramsPerMl: 0.43 },
+  cumin: { gramsPerMl: 0.45 },
+  turmeric: { gramsPerMl: 0.55 },
+  paprika: { gramsPerMl: 0.46 },
+  "garam masala": { gramsPerMl: 0.4 },
+  "garlic powder": { gramsPerMl: 0.5 },
+  "canned tomato": { gramsPerMl: 1.02 },
+  tomato: { gramsPerMl: 0.76 }, // Chopped
+  spinach: { gramsPerMl: 0.13 },
+  cilantro: { gramsPerMl: 0.07 },
+};
+
+const DISPLAY_FRACTIONS: [number, string][] = [
+  [1 / 8, "⅛"], [1 / 4, "¼"], [1 / 3, "⅓"], [3 / 8, "⅜"], [1 / 2, "½"], [5 / 8, "⅝"], [2 / 3, "⅔"], [3 / 4, "¾"], [7 / 8, "⅞"],
+];
+
+/**
+ * What a written unit measures and how big it is, or null for units we can't
+ * convert (free strings such as "handful")
+ */
+export function getUnitInfo(unit: string): UnitInfo | null {
+  const canonical = normalizeUnit(unit.trim());
+  if (!canonical) return null;
+  const info = UNIT_INFO[canonical];
+  return info ? { unit: canonical, ...info } : { unit: canonical, dimension: "count", system: "both" };
+}
+
+/**
+ * Density of an ingredient in g/ml, looking through its more general ontology
+ * parents ("basmati rice" -> "rice"), or null if unknown
+ */
+export function getIngredientDensity(name: string): { gramsPerMl: number; liquid: boolean } | null {
+  const { canonical } = resolveIngredient(name);
+  for (const candidate of [canonical, ...getIngredientAncestors(canonical)]) {
+    const density = DENSITIES[candidate];
+    if (density) return { gramsPerMl: density.gramsPerMl, liquid: !!density.liquid };
+  }
+  return null;
+}
+
+/**
+ * Convert an amount between two units. Volume and mass convert into each other
+ * only when the ingredient's density is known; counts only to the same unit.
+ * Returns null when the units can't be converted.
+ */
+export function convertAmount(quantity: number, fromUnit: string, toUnit: string, ingredientName?: string): number | null {
+  const from = getUnitInfo(fromUnit);
+  const to = getUnitInfo(toUnit);
+  if (!from || !to) return fromUnit.trim().toLowerCase() === toUnit.trim().toLowerCase() ? quantity : null;
+  if (from.unit === to.unit) return quantity;
+  if (!from.toBase || !to.toBase) return null;
+
+  const base = quantity * from.toBase;
+  if (from.dimension === to.dimension) return base / to.toBase;
+
+  const density = ingredientName ? getIngredientDensity(ingredientName) : null;
+  if (!density) return null;
+  return from.dimension === "volume" ? (base * density.gramsPerMl) / to.toBase : base / density.gramsPerMl / to.toBase;
+}
+
+/**
+ * The unit a base amount (ml or g) reads best in for a system
+ */
+function pickUnit(base: number, dimension: "volume" | "mass", system: "metric" | "imperial"): string {
+  const atLeast = (size: number) => base >= size * 0.999; // 3 tsp is a tablespoon despite rounding
+  if (system === "metric") return dimension === "volume" ? (atLeast(1000) ? "l" : "ml") : atLeast(1000) ? "kg" : "g";
+  if (dimension === "mass") return atLeast(UNIT_INFO.lb.toBase!) ? "lb" : "oz";
+  if (atLeast(UNIT_INFO.cup.toBase! / 4)) return "cup";
+  return atLeast(UNIT_INFO.tbsp.toBase!) ? "tbsp" : "tsp";
+}
+
+/**
+ * Round to what can be measured in a unit: eighths or thirds of a cup,
+ * eighths of a teaspoon, quarters of a pound, whole grams
+ */
+function roundForUnit(value: number, unit: string): number {
+  const steps: Record<string, number> = { tsp: 8, tbsp: 2, oz: 4, lb: 4, kg: 100, l: 100 };
+  if (unit === "cup") {
+    // Thirds of a cup are measured too
+    const [eighths, thirds] = [Math.round(value * 8) / 8, Math.round(value * 3) / 3];
+    return Math.max(Math.abs(thirds - value) < Math.abs(eighths - value) ? thirds : eighths, 1 / 8);
+  }
+  if (steps[unit]) return Math.max(Math.round(value * steps[unit]) / steps[unit], 1 / steps[unit]);
+  if (value >= 100) return Math.round(value / 5) * 5;
+  if (value >= 10) return Math.round(value);
+  return Math.max(Math.round(value * 2) / 2, 0.5);
+}
+
+/**
+ * An amount as it should be shown in a measurement system. Metric weighs
+ * ingredients whose density is known (liquids stay in ml); imperial measures
+ * them by volume. Spoons, counts, unknown units and amounts already in the
+ * system are left as written, as is everything with "original".
+ */
+export function convertToSystem<T extends Amount>(amount: T, system: MeasurementSystem): T {
+  const info = getUnitInfo(amount.unit);
+  if (system === "original" || !info?.toBase || info.system === system || info.system === "both") return amount;
+
+  const density = getIngredientDensity(amount.name);
+  let dimension = info.dimension as "volume" | "mass";
+  if (density && system === "metric" && dimension === "volume" && !density.liquid) dimension = "mass";
+  if (density && system === "imperial" && dimension === "mass") dimension = "volume";
+
+  const toBase = (quantity: number) => {
+    const base = quantity * info.toBase!;
+    if (dimension === info.dimension) return base;
+    return dimension === "mass" ? base * density!.gramsPerMl : base / density!.gramsPerMl;
+  };
+
+  // Both ends of a range go in the unit picked for the lower end
+  const unit = pickUnit(toBase(amount.quantity), dimension, system);
+  const quantity = roundForUnit(toBase(amount.quantity) / UNIT_INFO[unit].toBase!, unit);
+  const quantityMax =
+    amount.quantityMax !== undefined ? roundForUnit(toBase(amount.quantityMax) / UNIT_INFO[unit].toBase!, unit) : undefined;
+
+  return {
+    ...amount,
+    quantity,
+    quantityMax: quantityMax !== undefined && quantityMax > quantity ? quantityMax : undefined,
+    unit: normalizeUnit(unit, quantityMax ?? quantity) ?? unit,
+  };
+}
+
+/**
+ * An amount moved to the unit that reads best within its own system, as
+ * after scaling: 16 tbsp -> 1 cup, 1500 g -> 1.5 kg, 1/8 cup -> 2 tbsp.
+ * Counts and unknown units are only rounded to quarters.
+ */
+export function promoteUnit<T extends Amount>(amount: T): T {
+  const info = getUnitInfo(amount.unit);
+  if (!info?.toBase) {
+    const quarters = (value: number) => Math.max(Math.round(value * 4) / 4, 0.25);
+    return {
+      ...amount,
+      quantity: quarters(amount.quantity),
+      quantityMax: amount.quantityMax !== undefined ? quarters(amount.quantityMax) : undefined,
+    };
+  }
+
+  // Spoons move up to cups, so they count as imperial here
+  const system = info.system === "metric" ? "metric" : "imperial";
+  const dimension = info.dimension as "volume" | "mass";
+  const base = amount.quantity * info.toBase;
+  const unit = pickUnit(base, dimension, system);
+
+  const quantity = roundForUnit(base / UNIT_INFO[unit].toBase!, unit);
+  const quantityMax =
+    amount.quantityMax !== undefined ? roundForUnit((amount.quantityMax * info.toBase) / UNIT_INFO[unit].toBase!, unit) : undefined;
+  return {
+    ...amount,
+    quantity,
+    quantityMax: quantityMax !== undefined && quantityMax > quantity ? quantityMax : undefined,
+    unit: normalizeUnit(unit, quantityMax ?? quantity) ?? unit,
+  };
+}
+
+/**
+ * A recipe's ingredients in a measurement system
+ */
+export function convertIngredients(ingredients: Ingredient[], system: MeasurementSystem): Ingredient[] {
+  return ingredients.map((ingredient) => convertToSystem(ingredient, system));
+}
+
+/**
+ * An amount for display, with fractions as characters: 0.5 -> "½",
+ * 1.25 -> "1¼", 2 to 3 -> "2–3". Amounts that aren't a common fraction
+ * keep up to two decimals.
+ */
+export function formatAmount(quantity: number, quantityMax?: number): string {
+  const format = (value: number) => {
+    const whole = Math.floor(value);
+    const fraction = value - whole;
+    if (fraction < 0.02) return String(whole);
+    if (fraction > 0.98) return String(whole + 1);
+    const match = DISPLAY_FRACTIONS.find(([fractionValue]) => Math.abs(fraction - fractionValue) < 0.02);
+    if (!match) return String(Math.round(value * 100) / 100);
+    return `${whole || ""}${match[1]}`;
+  };
+  return quantityMax !== undefined ? `${format(quantity)}–${format(quantityMax)}` : format(quantity);
+}
@@ -0,0 +1,110 @@
+/**
+ * User Recipe Store (server-side)
+ * Recipes the user wrote, kept in their own JSON file so the bundled dataset
+ * is never modified. The recipe repository merges them in on load.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { DetailedRecipe, RecipeInput } from "@/types/recipe";
+import { createRecipeId, toUserRecipe } from "./recipeInput";
+import logger from "./debug";
+
+export const USER_RECIPES_FILE_PATH = path.join(process.cwd(), "data", "user-recipes.json");
+
+const isMissingFile = (error: unknown) => (error as NodeJS.ErrnoException)?.code === "ENOENT";
+
+/**
+ * When the store file last changed, or 0 if nothing has been saved yet
+ */
+export async function getUserRecipesModifiedAt(): Promise<number> {
+  try {
+    return (await fs.stat(USER_RECIPES_FILE_PATH)).mtimeMs;
+  } catch (error) {
+    if (isMissingFile(error)) return 0;
+    throw error;
+  }
+}
+
+/**
+ * All user recipes (none if the store file doesn't exist yet)
+ */
+export async function readUserRecipes(): Promise<DetailedRecipe[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(USER_RECIPES_FILE_PATH, "utf8");
+  } catch (error) {
+    if (isMissingFile(error)) return [];
+    throw error;
+  }
+
+  const recipes: unknown = JSON.parse(contents);
+  if (!Array.isArray(recipes)) {
+    throw new Error("User recipes file does not contain an array");
+  }
+  return recipes as DetailedRecipe[];
+}
+
+/**
+ * Replace the file contents; written to a temporary file first so a failed
+ * write never leaves a half-written store behind
+ */
+async function writeUserRecipes(recipes: DetailedRecipe[]) {
+  await fs.mkdir(path.dirname(USER_RECIPES_FILE_PATH), { recursive: true });
+  const tempPath = `${USER_RECIPES_FILE_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(recipes, null, 2), "utf8");
+  await fs.rename(tempPath, USER_RECIPES_FILE_PATH);
+}
+
+// Changes run one at a time, so two requests can't overwrite each other's edits
+let pendingChange: Promise<unknown> = Promise.resolve();
+
+function applyChange<T>(change: (recipes: DetailedRecipe[]) => { recipes?: DetailedRecipe[]; result: T }): Promise<T> {
+  const run = pendingChange.then(async () => {
+    const { recipes, result } = change(await readUserRecipes());
+    if (recipes) await writeUserRecipes(recipes);
+    return result;
+  });
+  pendingChange = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Save a new recipe under a fresh id. `isIdTaken` reports ids already used by
+ * the bundled dataset.
+ */
+export function createUserRecipe(input: RecipeInput, isIdTaken: (id: string) => boolean): Promise<DetailedRecipe> {
+  return applyChange((recipes) => {
+    const userIds = new Set(recipes.map((recipe) => recipe.id));
+    const recipe = toUserRecipe(input, createRecipeId(input.title, (id) => userIds.has(id) || isIdTaken(id)));
+    logger.info('UserRecipeStore:Create', `Created recipe '${recipe.id}'`);
+    return { recipes: [...recipes, recipe], result: recipe };
+  });
+}
+
+/**
+ * Replace a user recipe's contents, keeping its id and creation time.
+ * Resolves to null if there is no user recipe with that id.
+ */
+export function updateUserRecipe(id: string, input: RecipeInput): Promise<DetailedRecipe | null> {
+  return applyChange((recipes) => {
+    const existing = recipes.find((recipe) => recipe.id === id);
+    if (!existing) return { result: null };
+
+    const recipe = toUserRecipe(input, id, existing.createdAt);
+    logger.info('UserRecipeStore:Update', `Updated recipe '${id}'`);
+    return { recipes: recipes.map((current) => (current.id === id ? recipe : current)), result: recipe };
+  });
+}
+
+/**
+ * Remove a user recipe; resolves to false if there was none with that id
+ */
+export function deleteUserRecipe(id: string): Promise<boolean> {
+  return applyChange((recipes) => {
+    if (!recipes.some((recipe) => recipe.id === id)) return { result: false };
+
+    logger.info('UserRecipeStore:Delete', `Deleted recipe '${id}'`);
+    return { recipes: recipes.filter((recipe) => recipe.id !== id), result: true };
+  });
+}
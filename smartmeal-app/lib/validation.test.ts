@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { array, boolean, number, numericRange, object, oneOf, optional, refine, string, validate, validateQuery } from "./validation";
+
+const fields = (result: { ok: boolean; errors?: { field: string }[] }) => (result.ok ? [] : result.errors!.map((error) => error.field));
+
+describe("scalar schemas", () => {
+  it("trims and length-limits strings", () => {
+    expect(validate(string({ trim: true }), "  curry ")).toEqual({ ok: true, value: "curry" });
+    expect(validate(string({ trim: true, nonEmpty: true }), "   ").ok).toBe(false);
+    expect(validate(string({ maxLength: 3 }), "curry").ok).toBe(false);
+    expect(validate(string(), 42).ok).toBe(false);
+  });
+
+  it("checks numbers, coercing only when asked", () => {
+    expect(validate(number({ integer: true, min: 1, max: 10 }), 5)).toEqual({ ok: true, value: 5 });
+    expect(validate(number({ integer: true }), 2.5).ok).toBe(false);
+    expect(validate(number({ min: 1 }), 0).ok).toBe(false);
+    expect(validate(number(), "5").ok).toBe(false);
+    expect(validate(number({ coerce: true }), "5")).toEqual({ ok: true, value: 5 });
+    expect(validate(number({ coerce: true }), "").ok).toBe(false);
+    expect(validate(number(), Infinity).ok).toBe(false);
+  });
+
+  it("coerces query-string booleans", () => {
+    expect(validate(boolean({ coerce: true }), "1")).toEqual({ ok: true, value: true });
+    expect(validate(boolean({ coerce: true }), "false")).toEqual({ ok: true, value: false });
+    expect(validate(boolean(), "true").ok).toBe(false);
+  });
+
+  it("matches choices case-insensitively and returns the canonical form", () => {
+    expect(validate(oneOf(["Easy", "Hard"] as const), "easy")).toEqual({ ok: true, value: "Easy" });
+    expect(validate(oneOf(["Easy", "Hard"] as const), "Medium").ok).toBe(false);
+  });
+});
+
+describe("composite schemas", () => {
+  const schema = object({
+    name: string({ nonEmpty: true }),
+    tags: array(string(), { maxItems: 2 }),
+    servings: optional(number({ integer: true, min: 1 })),
+  });
+
+  it("reports every problem with its field path", () => {
+    const result = validate(schema, { name: "", tags: ["a", 1], servings: 0, colour: "red" });
+    expect(fields(result).sort()).toEqual(["colour", "name", "servings", "tags[1]"]);
+  });
+
+  it("treats null and undefined as missing for optional fields", () => {
+    expect(validate(schema, { name: "Curry", tags: [], servings: null })).toEqual({
+      ok: true,
+      value: { name: "Curry", tags: [], servings: undefined },
+    });
+  });
+
+  it("accepts a lone item as a list when allowed", () => {
+    expect(validate(array(string(), { allowSingle: true }), "rice")).toEqual({ ok: true, value: ["rice"] });
+    expect(validate(array(string()), "rice").ok).toBe(false);
+  });
+
+  it("puts refinement errors under the schema's path", () => {
+    const even = refine(number(), (value) => (value % 2 === 0 ? [] : [{ field: "", message: "Must be even." }]));
+    expect(fields(validate(object({ count: even }), { count: 3 }))).toEqual(["count"]);
+  });
+});
+
+describe("numericRange", () => {
+  it("parses an empty range as undefined and rejects min above max", () => {
+    expect(validate(numericRange(), {})).toEqual({ ok: true, value: undefined });
+    expect(validate(numericRange(), { min: 5, max: 10 })).toEqual({ ok: true, value: { min: 5, max: 10 } });
+    expect(fields(validate(numericRange(), { min: 10, max: 5 }))).toEqual(["min"]);
+  });
+});
+
+describe("validateQuery", () => {
+  it("validates query parameters with coercing schemas", () => {
+    const schema = object({ limit: optional(number({ integer: true, coerce: true })), sort: optional(string()) });
+    expect(validateQuery(schema, new URLSearchParams("limit=12&sort=time"))).toEqual({ ok: true, value: { limit: 12, sort: "time" } });
+    expect(fields(validateQuery(schema, new URLSearchParams("limit=abc&page=2")))).toEqual(["page", "limit"]);
+  });
+});
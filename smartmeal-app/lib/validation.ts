@@ -0,0 +1,213 @@
+/**
+ * Request Validation
+ * Small typed schemas for API request bodies and query strings. Every problem is
+ * reported with the path of the field it came from, and unknown object keys are
+ * errors rather than silently ignored.
+ */
+
+import type { FieldError } from "@/types/api";
+import type { NumericRange } from "@/types/recipe";
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+export interface Schema<T> {
+  parse(input: unknown, path: string): ParseResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+const ok = <T>(value: T): ParseResult<T> => ({ ok: true, value });
+const fail = (field: string, message: string): ParseResult<never> => ({ ok: false, errors: [{ field, message }] });
+
+// Field path of a nested key ("filters" + "prepTime" -> "filters.prepTime")
+const joinPath = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// How a field is named in messages
+const label = (path: string) => path || "Request";
+
+/**
+ * A string, optionally trimmed and length-limited
+ */
+export function string(options: { trim?: boolean; nonEmpty?: boolean; maxLength?: number } = {}): Schema<string> {
+  return {
+    parse(input, path) {
+      if (typeof input !== "string") return fail(path, `${label(path)} must be a string.`);
+      const value = options.trim ? input.trim() : input;
+      if (options.nonEmpty && !value) return fail(path, `${label(path)} cannot be empty.`);
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        return fail(path, `${label(path)} must be at most ${options.maxLength} characters.`);
+      }
+      return ok(value);
+    },
+  };
+}
+
+/**
+ * A finite number. With `coerce`, numeric strings (from query strings) are accepted.
+ */
+export function number(options: { integer?: boolean; min?: number; max?: number; coerce?: boolean } = {}): Schema<number> {
+  const { integer, min, max, coerce } = options;
+  const bounds =
+    min !== undefined && max !== undefined ? ` from ${min} to ${max}` : min !== undefined ? ` of at least ${min}` : max !== undefined ? ` of at most ${max}` : "";
+
+  return {
+    parse(input, path) {
+      const value = coerce && typeof input === "string" && input.trim() !== "" ? Number(input) : input;
+      const message = `${label(path)} must be a${integer ? " whole" : ""} number${bounds}.`;
+      if (typeof value !== "number" || !Number.isFinite(value)) return fail(path, message);
+      if (integer && !Number.isInteger(value)) return fail(path, message);
+      if ((min !== undefined && value < min) || (max !== undefined && value > max)) return fail(path, message);
+      return ok(value);
+    },
+  };
+}
+
+/**
+ * A boolean. With `coerce`, "true"/"1" and "false"/"0" are accepted.
+ */
+export function boolean(options: { coerce?: boolean } = {}): Schema<boolean> {
+  return {
+    parse(input, path) {
+      if (typeof input === "boolean") return ok(input);
+      if (options.coerce && (input === "true" || input === "1")) return ok(true);
+      if (options.coerce && (input === "false" || input === "0")) return ok(false);
+      return fail(path, `${label(path)} must be true or false.`);
+    },
+  };
+}
+
+/**
+ * One of a fixed set of strings, matched case-insensitively and returned in its canonical form
+ */
+export function oneOf<T extends string>(choices: readonly T[]): Schema<T> {
+  return {
+    parse(input, path) {
+      const match = typeof input === "string" ? choices.find((choice) => choice.toLowerCase() === input.toLowerCase()) : undefined;
+      return match ? ok(match) : fail(path, `${label(path)} must be one of: ${choices.join(", ")}.`);
+    },
+  };
+}
+
+/**
+ * A list of items. With `allowSingle`, a lone item is accepted as a list of one.
+ */
+export function array<T>(item: Schema<T>, options: { minItems?: number; maxItems?: number; allowSingle?: boolean } = {}): Schema<T[]> {
+  return {
+    parse(input, path) {
+      const items = Array.isArray(input) ? input : options.allowSingle && input !== undefined ? [input] : null;
+      if (!items) return fail(path, `${label(path)} must be a list.`);
+      if (options.minItems !== undefined && items.length < options.minItems) {
+        return fail(path, `${label(path)} must have at least ${options.minItems} item${options.minItems === 1 ? "" : "s"}.`);
+      }
+      if (options.maxItems !== undefined && items.length > options.maxItems) {
+        return fail(path, `${label(path)} can have at most ${options.maxItems} items.`);
+      }
+
+      const value: T[] = [];
+      const errors: FieldError[] = [];
+      items.forEach((entry, index) => {
+        const result = item.parse(entry, joinPath(path, index));
+        if (result.ok) value.push(result.value);
+        else errors.push(...result.errors);
+      });
+      return errors.length > 0 ? { ok: false, errors } : ok(value);
+    },
+  };
+}
+
+/**
+ * Allow a value to be missing (undefined or null), which parses as undefined
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(input, path) {
+      return input === undefined || input === null ? ok(undefined) : schema.parse(input, path);
+    },
+  };
+}
+
+/**
+ * An object with known keys. Unknown keys are reported as errors.
+ */
+export function object<S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    parse(input, path) {
+      if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        return fail(path, `${label(path)} must be an object.`);
+      }
+
+      const record = input as Record<string, unknown>;
+      const value: Record<string, unknown> = {};
+      const errors: FieldError[] = [];
+
+      Object.keys(record).forEach((key) => {
+        if (!(key in shape) && record[key] !== undefined) {
+          errors.push({ field: joinPath(path, key), message: `Unknown field "${joinPath(path, key)}".` });
+        }
+      });
+
+      Object.entries(shape).forEach(([key, schema]) => {
+        const result = schema.parse(record[key], joinPath(path, key));
+        if (result.ok) value[key] = result.value;
+        else errors.push(...result.errors);
+      });
+
+      return errors.length > 0 ? { ok: false, errors } : ok(value as { [K in keyof S]: Infer<S[K]> });
+    },
+  };
+}
+
+/**
+ * Add a check that runs once the schema itself has passed. The check returns
+ * field errors (paths relative to the schema's own path, "" for the value
+ * itself), or nothing when valid.
+ */
+export function refine<T>(schema: Schema<T>, check: (value: T) => FieldError[] | void): Schema<T> {
+  return {
+    parse(input, path) {
+      const result = schema.parse(input, path);
+      if (!result.ok) return result;
+      const errors = check(result.value) || [];
+      return errors.length > 0
+        ? { ok: false, errors: errors.map((error) => ({ ...error, field: error.field ? joinPath(path, error.field) : path })) }
+        : result;
+    },
+  };
+}
+
+/**
+ * An inclusive { min, max } range of non-negative numbers; an empty range parses as undefined
+ */
+export function numericRange(options: { coerce?: boolean } = {}): Schema<NumericRange | undefined> {
+  const bound = optional(number({ min: 0, coerce: options.coerce }));
+  const range = refine(object({ min: bound, max: bound }), ({ min, max }) =>
+    min !== undefined && max !== undefined && min > max ? [{ field: "min", message: "min cannot be greater than max." }] : []
+  );
+
+  return {
+    parse(input, path) {
+      const result = range.parse(input, path);
+      if (!result.ok) return result;
+      const { min, max } = result.value;
+      return ok(min === undefined && max === undefined ? undefined : { min, max });
+    },
+  };
+}
+
+/**
+ * Validate a request body (or any value) against a schema
+ */
+export function validate<T>(schema: Schema<T>, input: unknown): ParseResult<T> {
+  return schema.parse(input, "");
+}
+
+/**
+ * Validate a query string. Each parameter is passed to the schema as a string, so
+ * use coercing number/boolean schemas for numeric and flag parameters.
+ */
+export function validateQuery<T>(schema: Schema<T>, params: URLSearchParams): ParseResult<T> {
+  return schema.parse(Object.fromEntries(params.entries()), "");
+}
@@ -70,3 +70,11 @@ export function getYouTubeThumbnail(videoId: string, quality: "default" | "mediu
 
   return `https://img.youtube.com/vi/${videoId}/${qualityMap[quality]}.jpg`;
 }
+
+/**
+ * The video id in a YouTube watch, short or embed URL, or null if it isn't one
+ */
+export function getYouTubeVideoId(url: string): string | null {
+  const match = url.match(/(?:youtube(?:-nocookie)?\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,22 @@
+/**
+ * API Type Definitions
+ * The error envelope every API route returns
+ */
+
+// How ErrorMessage presents an error
+export type ErrorVariant = "network" | "notFound" | "validation" | "server" | "generic";
+
+export interface FieldError {
+  field: string; // Path of the offending field, e.g. "filters.prepTime.min"
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: string; // User-facing message
+  code: string; // One of ERROR_CODES (lib/errorCodes.ts)
+  statusCode: number;
+  timestamp: string; // ISO timestamp
+  requestId: string;
+  fieldErrors: FieldError[]; // Per-field validation problems (empty for other errors)
+  details?: Record<string, unknown>; // Extra context, e.g. suggestions for a missing recipe
+}
@@ -12,7 +12,8 @@ export interface MealSlot {
   recipeId: string | null;
   recipeName: string | null;
   recipeImage?: string | null;
-  calories: number | null;
+  servings?: number; // Servings to cook; the recipe's own servings when not set
+  calories: number | null; // Per serving
   macros: {
     protein: number;
     carbs: number;
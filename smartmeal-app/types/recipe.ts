@@ -3,13 +3,95 @@
  * Based on the Smart Meal design specification
  */
 
+import type { IngredientCategory } from "./shopping";
+
 export interface Ingredient {
   name: string;
   quantity: number;
+  quantityMax?: number; // Upper end of a range ("2-3 cloves"); quantity is the lower end
   unit: string;
+  preparation?: string; // How it's prepared ("minced", "at room temperature")
   substitutions?: string[];
 }
 
+export type IngredientMatchType = "exact" | "synonym" | "variant" | "partial";
+
+/**
+ * How much an ingredient defines a recipe: the main protein or starch is
+ * "core", pantry staples and seasonings barely count
+ */
+export type IngredientRole = "core" | "supporting" | "staple";
+
+export interface IngredientMatch {
+  recipeIngredient: string; // Ingredient name as written in the recipe
+  userIngredient: string; // The user's ingredient that satisfied it
+  canonical: string; // Canonical ontology name the match resolved to
+  matchType: IngredientMatchType;
+}
+
+export interface IngredientSubstitution {
+  recipeIngredient: string; // Ingredient the recipe calls for
+  substitute: string; // Listed substitute the user has
+  userIngredient: string; // The user's ingredient that matched the substitute
+}
+
+export interface MissingIngredientGroup {
+  category: IngredientCategory; // Shopping category
+  label: string; // Display name of the category
+  items: string[]; // Missing ingredient names as written in the recipe
+}
+
+export interface MatchContribution {
+  ingredient: string; // Ingredient name as written in the recipe
+  role: IngredientRole;
+  weight: number; // Role weight in the weighted match score
+  credit: number; // Part of the weight the user earned (full, partial for a substitute, or 0)
+  status: "matched" | "substituted" | "missing";
+  matchType?: IngredientMatchType; // How a matched ingredient resolved
+  via?: string; // The user's ingredient (or the substitute) that covered it
+}
+
+// Comparisons used to order results, named so a ranking can be explained
+export type RankingCriterion =
+  | "weightedMatch"
+  | "personalizedMatch"
+  | "relevance"
+  | "matchPercentage"
+  | "totalTime"
+  | "missingCount"
+  | "missingWeight"
+  | "difficulty"
+  | "userRating"
+  | "id";
+
+export interface PassedFilter {
+  name: string; // e.g. "Cuisine"
+  detail: string; // e.g. "indian"
+}
+
+export interface RankingBoost {
+  reason: string; // Why the recipe was boosted
+  points: number; // Added to the ranking score
+}
+
+export interface RankingExplanation {
+  sortBy: SortOption;
+  score: number; // Weighted match score the ranking started from, before boosts
+  contributions: MatchContribution[]; // One per recipe ingredient
+  tieBreakers: RankingCriterion[]; // Criteria of the sort, in the order applied
+  decidedBy?: RankingCriterion; // First criterion that placed the recipe below the one before it
+  filtersPassed: PassedFilter[]; // Active filters, all of which the recipe passed
+  boosts: RankingBoost[]; // Personalization boosts applied
+}
+
+export type TextSearchField = "title" | "description" | "cuisine" | "dietaryTags" | "instructions";
+
+export interface TextSnippet {
+  field: TextSearchField;
+  text: string;
+  highlights: [number, number][]; // [start, end) offsets of query hits within text
+}
+
 export interface Instruction {
   step: number;
   text: string;
@@ -26,11 +108,15 @@ export interface Nutrition {
   sugar: number; // grams
 }
 
+// Where a recipe comes from: the bundled dataset or the user's own recipes
+export type RecipeSource = "bundled" | "user";
+
 export interface Recipe {
   id: string;
   title: string;
   image: string;
-  matchPercentage?: number;
+  matchPercentage?: number; // Raw share of recipe ingredients the user has
+  weightedMatchScore?: number; // Match score weighted by ingredient role (0-100)
   prepTime: number; // minutes
   cookTime: number; // minutes
   totalTime: number; // minutes
@@ -38,8 +124,18 @@ export interface Recipe {
   difficulty: "Easy" | "Medium" | "Hard";
   mealType: "Breakfast" | "Lunch" | "Dinner" | "Snack";
   cuisine: string;
+  source?: RecipeSource; // "user" for recipes the user wrote; bundled recipes omit it
   availableIngredients?: string[];
   missingIngredients?: string[];
+  missingWeight?: number; // How essential the missing ingredients are (sum of role weights)
+  missingByCategory?: MissingIngredientGroup[]; // Missing items grouped for a quick shop ("cook now" mode)
+  substitutedIngredients?: IngredientSubstitution[];
+  relevanceScore?: number; // Full-text relevance when a text query was given
+  personalBoost?: number; // Sum of personalization boost points, when personalization is on
+  userRating?: number; // The user's own 1-5 star rating, when ratings were sent with the search
+  snippets?: TextSnippet[]; // Highlighted text matches
+  matchedIngredients?: IngredientMatch[];
+  explanation?: RankingExplanation; // Why the recipe ranked where it did (search results only)
 }
 
 export interface DetailedRecipe extends Recipe {
@@ -49,10 +145,89 @@ export interface DetailedRecipe extends Recipe {
   nutrition: Nutrition;
   dietaryTags: string[];
   videoId?: string | null;
+  createdAt?: string; // ISO timestamp (user recipes only)
+  updatedAt?: string; // ISO timestamp (user recipes only)
+}
+
+// What a user fills in to write or edit a recipe; the id, total time, step
+// numbers and timestamps are filled in by the server
+export interface RecipeInput {
+  title: string;
+  description: string;
+  image?: string;
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  difficulty: Difficulty;
+  mealType: MealType;
+  cuisine: string;
+  ingredients: Ingredient[];
+  instructions: Omit<Instruction, "step">[];
+  nutrition: Nutrition;
+  dietaryTags: string[];
+  videoId?: string;
 }
 
-export type SortOption = "bestMatch" | "quickest" | "easiest";
+// How an imported schema.org property fared: dropped, carried over only in
+// part, or missing so a default was used
+export type RecipeImportIssueKind = "unmapped" | "partial" | "defaulted";
+
+export interface RecipeImportIssue {
+  kind: RecipeImportIssueKind;
+  property: string; // schema.org property, e.g. "recipeYield"
+  message: string;
+  value?: string; // The original value, shortened
+}
+
+export interface RecipeImportResult {
+  input: RecipeInput; // Ready for the editor, or to save as is
+  recipe: DetailedRecipe; // Preview of the recipe as it would be saved
+  issues: RecipeImportIssue[];
+}
+
+// Signals that make two recipes alike, for "more like this"
+export type SimilaritySignal = "ingredients" | "cuisine" | "tags" | "nutrition";
+
+export type SimilarityWeights = Record<SimilaritySignal, number>;
+
+export interface SimilarRecipe extends Recipe {
+  similarity: number; // Weighted similarity to the source recipe (0-1)
+  similarityBreakdown: Record<SimilaritySignal, number>; // Each signal's similarity (0-1) before weighting
+  sharedIngredients: string[]; // Canonical ingredients both recipes use
+}
+
+export type Difficulty = Recipe["difficulty"];
+
+export type MealType = Recipe["mealType"];
+
+export interface NumericRange {
+  min?: number; // inclusive
+  max?: number; // inclusive
+}
+
+export type TimeRange = NumericRange; // minutes
+
+export type NutritionRanges = Partial<Record<keyof Nutrition, NumericRange>>; // per serving
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  cuisine: FacetCount[];
+  dietaryTags: FacetCount[];
+  difficulty: FacetCount[];
+  mealType: FacetCount[];
+  totalTime: FacetCount[]; // Cumulative "under N minutes" buckets; value is N
+}
+
+export type SortOption = "bestMatch" | "quickest" | "easiest" | "fewestMissing" | "topRated";
+
+// "match" ranks by ingredient match; "cookNow" keeps recipes missing at most a few items
+export type SearchMode = "match" | "cookNow";
 
-export type CuisineType = "indian" | "chinese" | "italian" | "mexican" | "thai" | "all";
+export type CuisineType = "indian" | "chinese" | "italian" | "mexican" | "thai" | "international" | "all";
 
 export type DietaryFilter = "vegetarian" | "vegan" | "keto" | "gluten-free" | "low-carb";
@@ -6,6 +6,9 @@ export type ActivityLevel = "sedentary" | "lightly-active" | "moderately-active"
 
 export type GoalType = "lose" | "maintain" | "gain";
 
+// How recipe amounts are shown: as the recipe wrote them, or converted
+export type MeasurementSystem = "original" | "metric" | "imperial";
+
 export interface UserProfile {
   dailyCalorieGoal: number;
   proteinGoal: number; // grams
@@ -15,6 +18,7 @@ export interface UserProfile {
   activityLevel: ActivityLevel;
   goalType: GoalType;
   preferredCuisines: string[]; // ["indian", "italian", etc.]
+  measurementSystem?: MeasurementSystem; // "original" when not set
 }
 
 export interface SearchQuery {
@@ -26,3 +30,48 @@ export interface SearchQuery {
   timestamp: string; // ISO timestamp
   resultCount: number;
 }
+
+// What search ranking is personalized on; sent with a search when personalization is on
+export interface SearchPersonalization {
+  preferredCuisines?: string[];
+  dietaryRestrictions?: string[];
+  favoriteIds?: string[]; // Recipe ids from favorites
+  dismissedIds?: string[]; // Recipe ids the user marked "not interested"
+}
+
+// The user's own star rating of a recipe; sent with a search sorted by "top rated"
+export interface RecipeRating {
+  recipeId: string;
+  rating: number; // 1-5 stars
+}
+
+export interface RecipeReview {
+  id: string;
+  text: string;
+  createdAt: string; // ISO timestamp
+}
+
+// A user's rating, reviews and private step notes for one recipe (stored locally)
+export interface RecipeFeedback {
+  rating?: number; // 1-5 stars; unrated when not set
+  reviews: RecipeReview[]; // Newest first
+  stepNotes: Record<number, string>; // Keyed by instruction step number
+  updatedAt: string; // ISO timestamp
+}
+
+// One time the user cooked a recipe (stored locally)
+export interface CookingLogEntry {
+  id: string;
+  recipeId: string;
+  recipeName: string;
+  recipeImage?: string;
+  cookedAt: string; // ISO timestamp
+  servings: number;
+  rating?: number; // 1-5 stars for this time; optional
+}
+
+export interface PersonalizationSummary {
+  favoriteIngredients: string[]; // Canonical ingredients that recur across favorites
+  boostedCount: number; // Results ranked up
+  demotedCount: number; // Results ranked down (dismissed)
+}